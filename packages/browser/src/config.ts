@@ -1,52 +1,129 @@
-import type { TellError, BeforeSendFn, JsonEvent, JsonLog } from "@tell-rs/core";
+import type { TellError, BeforeSendFn, JsonEvent, JsonLog, LogLevel, TrackingPlan, TrackingPlanMode, SamplingOptions, TellPlugin, Transport, RejectedItem, RejectionReason, DestinationOptions } from "@tell-rs/core";
+import type { TellInstance } from "./index.js";
 
 export interface TellBrowserConfig {
   /** Service name stamped on every event and log. Defaults to window.location.hostname. */
   service?: string;
-  endpoint?: string;
+  /** Collector URL, or a list to fail over to in order when the first cannot be reached. */
+  endpoint?: string | string[];
   batchSize?: number;
+  /** Max serialized bytes per batch; larger single items are rejected via onError. */
+  maxBatchBytes?: number;
   flushInterval?: number;
   maxRetries?: number;
   closeTimeout?: number;
   networkTimeout?: number;
+  /** Consecutive failed sends before sending pauses. 0 disables the circuit breaker. */
+  circuitBreakerThreshold?: number;
+  /** Ms to pause before a probe request checks whether the collector has recovered. */
+  circuitBreakerCooldown?: number;
+  /** Ms between "sdk stats" info logs carrying `tell.stats()`. 0 (default) disables the self-report. */
+  statsInterval?: number;
   logLevel?: "error" | "warn" | "info" | "debug";
   source?: string;
   onError?: (error: TellError) => void;
+  /** Called when the collector accepts a batch but refuses some items (HTTP 207), with the items and why. */
+  onRejected?: (items: RejectedItem[], reasons: RejectionReason[]) => void;
   disabled?: boolean;
   maxQueueSize?: number;
+  /** Log levels that flush immediately and are never evicted on queue overflow. Add `"error"` to include error logs. */
+  priorityLevels?: LogLevel[];
+  /** Event names that flush immediately and are never evicted on queue overflow. */
+  priorityEvents?: string[];
   sessionTimeout?: number;
   maxSessionLength?: number;
   persistence?: "localStorage" | "memory";
   respectDoNotTrack?: boolean;
   botDetection?: boolean;
   captureErrors?: boolean;
+  /**
+   * Gzip request bodies with CompressionStream, sent uncompressed where it is
+   * unavailable; page-unload beacons are gzipped synchronously.
+   */
+  gzip?: boolean;
+  /**
+   * Shift timestamps to the collector's clock, learned from its `Date` header;
+   * originals are kept as `client_timestamp`. Cross-origin collectors must
+   * send `Access-Control-Expose-Headers: Date`.
+   */
+  correctClockSkew?: boolean;
+  /** Flatten nested properties into dot-separated keys (`cart.items.0.sku`) for flat-column backends. */
+  flattenProperties?: boolean;
+  /** Persist undelivered batches to IndexedDB and replay them on the next load or when back online. */
+  offlineQueue?: boolean;
+  /** Max age in ms of persisted items, counted from when they were first queued; older items are discarded on replay. */
+  offlineMaxAge?: number;
+  /** Collapse identical track calls and log lines repeated within this many ms. 0 disables. */
+  dedupeWindow?: number;
+  /** Max track calls per event name, or log lines per message, within rateLimitWindow. 0 disables. */
+  rateLimit?: number;
+  /** Rate-limit window in ms; suppressed counts are reported as one warning log per window. */
+  rateLimitWindow?: number;
+  /** Send a fraction of track events and logs; see SamplingOptions. */
+  sampling?: SamplingOptions;
+  /** Property schemas per event name, checked at runtime before beforeSend. */
+  trackingPlan?: TrackingPlan;
+  /** How tracking plan violations are handled: report, drop, or annotate with `_violations`. */
+  trackingPlanMode?: TrackingPlanMode;
   beforeSend?: BeforeSendFn<JsonEvent> | BeforeSendFn<JsonEvent>[];
   beforeSendLog?: BeforeSendFn<JsonLog> | BeforeSendFn<JsonLog>[];
+  /** Max ms to wait for async beforeSend/beforeSendLog hooks. */
+  beforeSendTimeout?: number;
+  /** Whether an item whose async hooks time out or reject is dropped or sent unmodified. */
+  beforeSendTimeoutAction?: "drop" | "send";
+  /** Send batches through this instead of the built-in fetch/sendBeacon transport. */
+  transport?: Transport;
+  /** Run the full pipeline but never send: batches are accepted and dropped. Overrides `transport`. */
+  dryRun?: boolean;
+  /** Plugins to register on configure, in order; see `tell.use()`. */
+  plugins?: TellPlugin<TellInstance>[];
+  /** Also deliver every event and log to these, each with its own key, hooks, queues and failures. */
+  destinations?: DestinationOptions[];
 }
 
 export const DEFAULTS = {
   endpoint: "https://collect.tell.app",
   batchSize: 20,
+  maxBatchBytes: 61_440, // keepalive fetch bodies are capped at 64 KiB
   flushInterval: 5_000,
   maxRetries: 5,
   closeTimeout: 5_000,
   networkTimeout: 10_000,
+  circuitBreakerThreshold: 5,
+  circuitBreakerCooldown: 30_000,
+  statsInterval: 0,
   logLevel: "error" as const,
   source: "browser",
   disabled: false,
   maxQueueSize: 1000,
+  priorityLevels: ["emergency", "alert", "critical"] as LogLevel[],
+  priorityEvents: [] as string[],
   sessionTimeout: 1_800_000, // 30 min
   maxSessionLength: 86_400_000, // 24 hours
   persistence: "localStorage" as const,
   respectDoNotTrack: false,
   botDetection: true,
   captureErrors: false,
+  gzip: false,
+  correctClockSkew: false,
+  flattenProperties: false,
+  dedupeWindow: 0,
+  rateLimit: 0,
+  rateLimitWindow: 60_000,
+  trackingPlanMode: "warn" as TrackingPlanMode,
+  beforeSendTimeout: 1_000,
+  beforeSendTimeoutAction: "drop" as const,
+  plugins: [] as TellPlugin<TellInstance>[],
+  destinations: [] as DestinationOptions[],
+  dryRun: false,
+  offlineQueue: false,
+  offlineMaxAge: 604_800_000, // 7 days
 } as const;
 
 export type ResolvedBrowserConfig = Required<
-  Omit<TellBrowserConfig, "onError" | "beforeSend" | "beforeSendLog">
+  Omit<TellBrowserConfig, "onError" | "onRejected" | "sampling" | "trackingPlan" | "beforeSend" | "beforeSendLog" | "transport">
 > &
-  Pick<TellBrowserConfig, "onError" | "beforeSend" | "beforeSendLog">;
+  Pick<TellBrowserConfig, "onError" | "onRejected" | "sampling" | "trackingPlan" | "beforeSend" | "beforeSendLog" | "transport">;
 
 export function resolveConfig(
   options: TellBrowserConfig | undefined
@@ -0,0 +1,62 @@
+import type { JsonEvent, JsonLog, LogLevel, Transport } from "@tell-rs/core";
+import { describeEvent, describeLog, eventProperties } from "@tell-rs/core";
+
+export interface ConsoleTransportConfig {
+  /** Start each batch group collapsed. Default true. */
+  collapsed?: boolean;
+  /** Log each item as the full wire-format object instead of its properties. */
+  verbose?: boolean;
+}
+
+const LEVEL_STYLES: Partial<Record<LogLevel, string>> = {
+  emergency: "color: #dc2626",
+  alert: "color: #dc2626",
+  critical: "color: #dc2626",
+  error: "color: #dc2626",
+  warning: "color: #d97706",
+  debug: "color: #6b7280",
+  trace: "color: #6b7280",
+};
+
+const BADGE = "background: #0891b2; color: #fff; border-radius: 2px; padding: 0 4px";
+
+/**
+ * Logs batches to the devtools console instead of sending them, one group
+ * per batch. Pair it with `development()` to work without a local collector.
+ */
+export class ConsoleTransport implements Transport {
+  private readonly collapsed: boolean;
+  private readonly verbose: boolean;
+
+  constructor(config: ConsoleTransportConfig = {}) {
+    this.collapsed = config.collapsed ?? true;
+    this.verbose = config.verbose ?? false;
+  }
+
+  async sendEvents(events: JsonEvent[]): Promise<boolean> {
+    if (events.length === 0) return true;
+    this.group(`${events.length} ${events.length === 1 ? "event" : "events"}`);
+    for (const event of events) {
+      console.log(describeEvent(event), this.verbose ? event : eventProperties(event));
+    }
+    console.groupEnd();
+    return true;
+  }
+
+  async sendLogs(logs: JsonLog[]): Promise<boolean> {
+    if (logs.length === 0) return true;
+    this.group(`${logs.length} ${logs.length === 1 ? "log" : "logs"}`);
+    for (const log of logs) {
+      console.log(`%c${describeLog(log)}`, LEVEL_STYLES[log.level] ?? "", this.verbose ? log : log.data ?? {});
+    }
+    console.groupEnd();
+    return true;
+  }
+
+  async close(): Promise<void> {}
+
+  private group(label: string): void {
+    const open = this.collapsed ? console.groupCollapsed : console.group;
+    open.call(console, `%cTell%c ${label}`, BADGE, "");
+  }
+}
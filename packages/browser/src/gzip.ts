@@ -0,0 +1,162 @@
+// Gzip for request bodies: CompressionStream for regular sends, and a small
+// synchronous encoder for sendBeacon, which runs during unload and cannot
+// wait for a stream.
+
+/** Gzip `text` with CompressionStream; null where it is unavailable or fails. */
+export async function gzip(text: string): Promise<Uint8Array<ArrayBuffer> | null> {
+  if (typeof CompressionStream === "undefined") return null;
+  try {
+    const stream = new Blob([text]).stream().pipeThrough(new CompressionStream("gzip"));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  } catch {
+    return null;
+  }
+}
+
+const WINDOW = 32_768;
+const MIN_MATCH = 3;
+const MAX_MATCH = 258;
+// Candidates checked per position; more compresses better but slower
+const MAX_CHAIN = 64;
+const HASH_BITS = 15;
+
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DISTANCE_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193,
+  12289, 16385, 24577,
+];
+const DISTANCE_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+
+let crcTable: Uint32Array | undefined;
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** Deflate output, least significant bit first. */
+class BitWriter {
+  readonly bytes: number[] = [];
+  private acc = 0;
+  private count = 0;
+
+  bits(value: number, count: number): void {
+    this.acc |= value << this.count;
+    this.count += count;
+    while (this.count >= 8) {
+      this.bytes.push(this.acc & 0xff);
+      this.acc >>>= 8;
+      this.count -= 8;
+    }
+  }
+
+  /** Huffman codes are defined most significant bit first. */
+  code(code: number, length: number): void {
+    let reversed = 0;
+    for (let i = 0; i < length; i++) reversed |= ((code >> i) & 1) << (length - 1 - i);
+    this.bits(reversed, length);
+  }
+
+  /** Literal/length symbol in the fixed Huffman code. */
+  symbol(value: number): void {
+    if (value < 144) this.code(0x30 + value, 8);
+    else if (value < 256) this.code(0x190 + value - 144, 9);
+    else if (value < 280) this.code(value - 256, 7);
+    else this.code(0xc0 + value - 280, 8);
+  }
+
+  match(length: number, distance: number): void {
+    let i = LENGTH_BASE.length - 1;
+    while (LENGTH_BASE[i] > length) i--;
+    this.symbol(257 + i);
+    this.bits(length - LENGTH_BASE[i], LENGTH_EXTRA[i]);
+
+    let d = DISTANCE_BASE.length - 1;
+    while (DISTANCE_BASE[d] > distance) d--;
+    this.code(d, 5);
+    this.bits(distance - DISTANCE_BASE[d], DISTANCE_EXTRA[d]);
+  }
+
+  flush(): void {
+    if (this.count > 0) this.bytes.push(this.acc & 0xff);
+    this.acc = 0;
+    this.count = 0;
+  }
+}
+
+/**
+ * Gzip `text` synchronously: one fixed-Huffman deflate block with LZ77
+ * matching. Compresses less than CompressionStream, but NDJSON repeats
+ * its keys on every line, so batches still shrink severalfold.
+ */
+export function gzipSync(text: string): Uint8Array<ArrayBuffer> {
+  const data = new TextEncoder().encode(text);
+  const n = data.length;
+  const head = new Int32Array(1 << HASH_BITS).fill(-1);
+  const prev = new Int32Array(WINDOW);
+  const hash = (i: number) => ((data[i] << 10) ^ (data[i + 1] << 5) ^ data[i + 2]) & ((1 << HASH_BITS) - 1);
+  const insert = (i: number) => {
+    const h = hash(i);
+    prev[i & (WINDOW - 1)] = head[h];
+    head[h] = i;
+  };
+
+  const out = new BitWriter();
+  out.bits(0b011, 3); // final block, fixed Huffman codes
+
+  let i = 0;
+  while (i < n) {
+    let bestLength = 0;
+    let bestDistance = 0;
+    if (i + MIN_MATCH <= n) {
+      const limit = Math.min(MAX_MATCH, n - i);
+      let j = head[hash(i)];
+      for (let chain = MAX_CHAIN; j >= 0 && i - j <= WINDOW && chain > 0; chain--) {
+        if (data[j + bestLength] === data[i + bestLength]) {
+          let length = 0;
+          while (length < limit && data[j + length] === data[i + length]) length++;
+          if (length > bestLength) {
+            bestLength = length;
+            bestDistance = i - j;
+            if (length === limit) break;
+          }
+        }
+        j = prev[j & (WINDOW - 1)];
+      }
+      insert(i);
+    }
+
+    if (bestLength >= MIN_MATCH) {
+      out.match(bestLength, bestDistance);
+      for (let k = i + 1; k < i + bestLength && k + MIN_MATCH <= n; k++) insert(k);
+      i += bestLength;
+    } else {
+      out.symbol(data[i]);
+      i++;
+    }
+  }
+  out.symbol(256);
+  out.flush();
+
+  const crc = crc32(data);
+  const result = new Uint8Array(10 + out.bytes.length + 8);
+  // Magic, deflate, no flags or mtime, unknown OS
+  result.set([0x1f, 0x8b, 8, 0, 0, 0, 0, 0, 0, 0xff]);
+  result.set(out.bytes, 10);
+  const trailer = 10 + out.bytes.length;
+  for (let b = 0; b < 4; b++) {
+    result[trailer + b] = (crc >>> (8 * b)) & 0xff;
+    result[trailer + 4 + b] = (n >>> (8 * b)) & 0xff;
+  }
+  return result;
+}
@@ -4,17 +4,44 @@ import type {
   LogLevel,
   Properties,
   BeforeSendFn,
+  DestinationOptions,
+  EventKey,
+  TrackArgs,
+  UntypedEvents,
+  TellPlugin,
+  SentBatch,
+  SendResult,
+  Transport,
+  StatsKind,
+  TellStats,
+  TellEventName,
+  TellListener,
 } from "@tell-rs/core";
 import {
+  CircuitBreaker,
+  CircuitOpenError,
   ClosedError,
   ConfigurationError,
+  NetworkError,
   ValidationError,
+  Destination,
   validateApiKey,
   validateEventName,
   validateLogMessage,
+  validateProperties,
   validateUserId,
   Batcher,
+  Suppressor,
+  StatsRecorder,
+  statsToProperties,
+  Emitter,
+  DryRunTransport,
   runBeforeSend,
+  enforceTrackingPlan,
+  sampleEvents,
+  sampleLogs,
+  messageId,
+  ClockSkew,
 } from "@tell-rs/core";
 
 import type { TellBrowserConfig, ResolvedBrowserConfig } from "./config.js";
@@ -29,16 +56,37 @@ import type { SessionReason } from "./session.js";
 import { SessionManager } from "./session.js";
 import { BrowserTransport } from "./transport.js";
 import { PreInitQueue } from "./queue.js";
+import { OfflineQueue } from "./offline.js";
 
 // Re-export core types and values
 export { Events, type EventName } from "@tell-rs/core";
-export type { Properties, LogLevel, JsonEvent, JsonLog, BeforeSendFn } from "@tell-rs/core";
+export type { Properties, PropertyValue, LogLevel, JsonEvent, JsonLog, BeforeSendFn } from "@tell-rs/core";
+export type { UntypedEvents, EventKey, TrackArgs } from "@tell-rs/core";
 export { redact, redactLog, SENSITIVE_PARAMS, type RedactOptions } from "@tell-rs/core";
+export type { PiiOptions, PiiDetector, PiiAction } from "@tell-rs/core";
+export type { TellPlugin, SentBatch, SendResult } from "@tell-rs/core";
+export type { Transport, CollectorResponse, ResponseHandlers, RejectionReason, RejectedItem } from "@tell-rs/core";
+export { handleResponse, parsePartialSuccess, retryAfter, retryDelay, encodeEvents, encodeLogs, idempotencyKey } from "@tell-rs/core";
+export { CircuitBreaker, type CircuitBreakerConfig, type CircuitState } from "@tell-rs/core";
+export type { DestinationOptions } from "@tell-rs/core";
+export type { TellStats, PipelineStats, DropReason } from "@tell-rs/core";
+export type { TellEventMap, TellEventName, TellListener, DropInfo, FlushInfo, SessionInfo } from "@tell-rs/core";
+export { sampleEvents, sampleLogs, type SamplingOptions } from "@tell-rs/core";
+export {
+  enforceTrackingPlan,
+  type TrackingPlan,
+  type TrackingPlanMode,
+  type TrackingPlanOptions,
+  type EventSchema,
+  type PropertySchema,
+  type PropertyType,
+} from "@tell-rs/core";
 export {
   TellError,
   ConfigurationError,
   ValidationError,
   NetworkError,
+  CircuitOpenError,
   ClosedError,
   SerializationError,
 } from "@tell-rs/core";
@@ -47,6 +95,8 @@ export {
 export type { TellBrowserConfig } from "./config.js";
 export { development, production } from "./config.js";
 export type { DeviceContext } from "./context.js";
+export { BrowserTransport, type BrowserTransportConfig } from "./transport.js";
+export { ConsoleTransport, type ConsoleTransportConfig } from "./console-transport.js";
 
 // ---------------------------------------------------------------------------
 // Module-level state
@@ -58,22 +108,33 @@ let _disabled = false;
 let _optedOut = false;
 
 let storage: TellStorage;
-let transport: BrowserTransport;
+let transport: Transport;
 let eventBatcher: Batcher<JsonEvent>;
 let logBatcher: Batcher<JsonLog>;
+let eventSuppressor: Suppressor;
+let logSuppressor: Suppressor;
 let sessionManager: SessionManager;
 let resolvedConfig: ResolvedBrowserConfig;
+let offlineQueue: OfflineQueue | null = null;
+let destinations: Destination[] = [];
+/** Collector clock estimate when `correctClockSkew` is on; null otherwise. */
+let clock: ClockSkew | null = null;
+const emitter = new Emitter({
+  onListenerError: (err, name) => sdkDebug(`"${name}" listener failed: ${err instanceof Error ? err.message : String(err)}`),
+});
+let counters = createCounters();
+let statsTimer: ReturnType<typeof setInterval> | null = null;
 
 let _apiKey: string;
 let resolvedService: string;
 let deviceId: string;
 let userId: string | undefined;
 let superProperties: Properties = {};
-let beforeSend: BeforeSendFn<JsonEvent> | BeforeSendFn<JsonEvent>[] | undefined;
-let beforeSendLog:
-  | BeforeSendFn<JsonLog>
-  | BeforeSendFn<JsonLog>[]
-  | undefined;
+let eventStages: BeforeSendFn<JsonEvent>[] = [];
+let logStages: BeforeSendFn<JsonLog>[] = [];
+let beforeSend: BeforeSendFn<JsonEvent>[] | undefined;
+let beforeSendLog: BeforeSendFn<JsonLog>[] | undefined;
+let plugins: TellPlugin<TellInstance>[] = [];
 let sdkLogLevel: number;
 
 const queue = new PreInitQueue(1000);
@@ -82,6 +143,7 @@ let unloadHandler: (() => void) | null = null;
 let visibilityUnloadHandler: (() => void) | null = null;
 let errorHandler: ((event: ErrorEvent) => void) | null = null;
 let rejectionHandler: ((event: PromiseRejectionEvent) => void) | null = null;
+let onlineHandler: (() => void) | null = null;
 
 const LOG_LEVELS: Record<string, number> = {
   error: 0,
@@ -94,22 +156,288 @@ const LOG_LEVELS: Record<string, number> = {
 // Internal helpers
 // ---------------------------------------------------------------------------
 
-function reportError(err: unknown): void {
-  if (resolvedConfig?.onError && err instanceof Error) {
-    resolvedConfig.onError(err);
+/** Destinations pass their own `stats`, so the error shows up as their `lastError`. */
+function reportError(err: unknown, stats: StatsRecorder = counters): void {
+  if (!(err instanceof Error)) return;
+  stats.error(err);
+  if (resolvedConfig?.onError) resolvedConfig.onError(err);
+  emitter.emit("error", err);
+  for (const plugin of plugins) {
+    if (!plugin.onError) continue;
+    // A failing error hook must not recurse back into reportError
+    try {
+      plugin.onError(err);
+    } catch {}
   }
 }
 
+function createCounters(): StatsRecorder {
+  return new StatsRecorder({
+    onDrop: (kind, reason, count) => emitter.emit("drop", { kind, reason, count }),
+  });
+}
+
 function sdkDebug(msg: string): void {
   if (sdkLogLevel >= LOG_LEVELS.debug) {
     console.debug(`[Tell] ${msg}`);
   }
 }
 
+/** Summary for items dropped by the dedupe window or rate limiter. Bypasses beforeSendLog. */
+function logSuppressed(kind: "event" | "message", key: string, suppressed: number): void {
+  sdkDebug(`suppressed ${suppressed} duplicates of ${kind} "${key}"`);
+  addLog({
+    level: "warning",
+    message: `suppressed ${suppressed} duplicates of ${kind} "${key}"`,
+    source: resolvedConfig.source,
+    service: resolvedService,
+    session_id: sessionManager.sessionId,
+    timestamp: Date.now(),
+    data: { [kind]: key, suppressed },
+  });
+}
+
+/** Periodic `statsInterval` self-report. Bypasses beforeSendLog like the suppression summary. */
+function logStats(): void {
+  const stats = tell.stats();
+  addLog({
+    level: "info",
+    message: "sdk stats",
+    source: resolvedConfig.source,
+    service: resolvedService,
+    session_id: sessionManager.sessionId,
+    timestamp: Date.now(),
+    data: statsToProperties(stats),
+  });
+}
+
+/** Queue an SDK-generated log, skipping the hooks. */
+function addLog(log: JsonLog): void {
+  counters.enqueued("logs");
+  log.message_id ??= messageId();
+  queued("logs", log);
+  logBatcher.add(log);
+}
+
+/** Rebuild the hook pipelines: built-in stages, then plugins, then user hooks. */
+function composeHooks(): void {
+  const events = [...eventStages];
+  const logs = [...logStages];
+  for (const plugin of plugins) {
+    if (plugin.beforeEvent) events.push((event) => plugin.beforeEvent!(event));
+    if (plugin.beforeLog) logs.push((log) => plugin.beforeLog!(log));
+  }
+  if (resolvedConfig) {
+    events.push(...[resolvedConfig.beforeSend ?? []].flat());
+    logs.push(...[resolvedConfig.beforeSendLog ?? []].flat());
+  }
+  beforeSend = events.length > 0 ? events : undefined;
+  beforeSendLog = logs.length > 0 ? logs : undefined;
+}
+
+/** Add a plugin to the registry; false if its name is taken. */
+function addPlugin(plugin: TellPlugin<TellInstance>): boolean {
+  if (plugins.some((p) => p.name === plugin.name)) {
+    reportError(new ConfigurationError(`plugin "${plugin.name}" is already registered`));
+    return false;
+  }
+  plugins.push(plugin);
+  return true;
+}
+
+/** Hand a batch to the transport and tell plugins how it went; keep undelivered ones offline. */
+async function sendBatch(batch: SentBatch): Promise<void> {
+  let result: SendResult;
+  try {
+    const delivered = batch.kind === "events"
+      ? await transport.sendEvents(batch.items)
+      : await transport.sendLogs(batch.items);
+    if (!delivered && offlineQueue) {
+      sdkDebug(`persisting ${batch.items.length} undelivered ${batch.kind}`);
+      const put = batch.kind === "events"
+        ? offlineQueue.put(batch.items, [])
+        : offlineQueue.put([], batch.items);
+      put.catch(() => {});
+    } else if (!delivered) {
+      counters.dropped(batch.kind, "retriesExhausted", batch.items.length);
+    } else if (!(transport instanceof BrowserTransport)) {
+      // The built-in transport counts accepted items itself, net of rejections
+      counters.sent(batch.kind, batch.items.length);
+    }
+    result = { delivered };
+  } catch (err) {
+    if (err instanceof CircuitOpenError) {
+      sdkDebug(`${err.message}, keeping ${batch.items.length} ${batch.kind} queued`);
+    } else if (err instanceof NetworkError && err.statusCode === 413) {
+      eventBatcher.halveBatchSize();
+      logBatcher.halveBatchSize();
+      sdkDebug("413 received, halved batch size");
+    } else {
+      // Custom transports report failures by throwing; the batch stays queued
+      reportError(err);
+    }
+    afterSend(batch, { delivered: false, error: err instanceof Error ? err : new Error(String(err)) });
+    throw err;
+  }
+  afterSend(batch, result);
+}
+
+function afterSend(batch: SentBatch, result: SendResult): void {
+  emitter.emit("flush", { ...batch, ...result });
+  for (const plugin of plugins) {
+    if (!plugin.afterSend) continue;
+    try {
+      plugin.afterSend(batch, result);
+    } catch (err) {
+      reportError(err);
+    }
+  }
+}
+
+/** Run beforeSend hooks and queue the result; async hooks keep the item's place in line. */
+function enqueue<T extends JsonEvent | JsonLog>(
+  kind: StatsKind,
+  batcher: Batcher<T>,
+  item: T,
+  hooks: BeforeSendFn<T> | BeforeSendFn<T>[] | undefined
+): void {
+  counters.enqueued(kind);
+  // Before the hooks, so they see the id that retries and offline replays reuse
+  item.message_id ??= messageId();
+  const result = hooks
+    ? runBeforeSend(item, hooks, {
+        timeout: resolvedConfig.beforeSendTimeout,
+        onTimeout: resolvedConfig.beforeSendTimeoutAction,
+        onError: reportError,
+      })
+    : item;
+  if (result === null) {
+    counters.dropped(kind, "beforeSend");
+    return;
+  }
+  if (result instanceof Promise) {
+    batcher.addPending(
+      result.then((resolved) => {
+        if (resolved === null) counters.dropped(kind, "beforeSend");
+        else queued(kind, resolved);
+        return resolved;
+      })
+    );
+  } else {
+    queued(kind, result);
+    batcher.add(result);
+  }
+}
+
+/** Corrected copies at send time; queued and persisted items keep the client clock. */
+function corrected<T extends JsonEvent | JsonLog>(items: T[]): T[] {
+  return clock ? clock.correct(items) : items;
+}
+
+/** Tell listeners about an item that passed the hooks, and hand it to each destination. */
+function queued(kind: StatsKind, item: JsonEvent | JsonLog): void {
+  if (kind === "events") {
+    emitter.emit("event", item as JsonEvent);
+    for (const destination of destinations) destination.addEvent(item as JsonEvent);
+  } else {
+    emitter.emit("log", item as JsonLog);
+    for (const destination of destinations) destination.addLog(item as JsonLog);
+  }
+}
+
+/**
+ * A destination delivers through its own transport and circuit breaker,
+ * so an outage there never holds up the main endpoint. Settings it does
+ * not override come from the main config.
+ */
+function createDestination(options: DestinationOptions, index: number): Destination {
+  if (options.apiKey !== undefined) validateApiKey(options.apiKey);
+  const endpoint = options.endpoint ?? resolvedConfig.endpoint;
+  const name = options.name ?? (options.transport ? `destination ${index + 1}` : [endpoint].flat()[0]);
+  const stats = new StatsRecorder();
+  const debug = (msg: string) => sdkDebug(`destination "${name}": ${msg}`);
+
+  let destinationTransport: Transport;
+  if (resolvedConfig.dryRun) {
+    destinationTransport = new DryRunTransport({ log: debug });
+  } else {
+    destinationTransport = options.transport ?? new BrowserTransport({
+      endpoint,
+      apiKey: options.apiKey ?? _apiKey,
+      maxRetries: resolvedConfig.maxRetries,
+      networkTimeout: resolvedConfig.networkTimeout,
+      flatten: resolvedConfig.flattenProperties,
+      gzip: resolvedConfig.gzip,
+      onError: (err) => reportError(err, stats),
+      onEndpointChange: (url) => debug(`sending to ${url}`),
+      stats,
+      clock: clock ?? undefined,
+      breaker: new CircuitBreaker({
+        threshold: resolvedConfig.circuitBreakerThreshold,
+        cooldown: resolvedConfig.circuitBreakerCooldown,
+        onStateChange: (state) => debug(`circuit ${state}`),
+      }),
+    });
+  }
+
+  return new Destination({
+    name,
+    transport: destinationTransport,
+    countsSent: destinationTransport instanceof BrowserTransport,
+    stats,
+    beforeSend: [options.beforeSend ?? []].flat(),
+    beforeSendLog: [options.beforeSendLog ?? []].flat(),
+    beforeSendOptions: {
+      timeout: resolvedConfig.beforeSendTimeout,
+      onTimeout: resolvedConfig.beforeSendTimeoutAction,
+      onError: reportError,
+    },
+    batchSize: options.batchSize ?? resolvedConfig.batchSize,
+    flushInterval: options.flushInterval ?? resolvedConfig.flushInterval,
+    maxQueueSize: options.maxQueueSize ?? resolvedConfig.maxQueueSize,
+    maxBatchBytes: options.maxBatchBytes ?? resolvedConfig.maxBatchBytes,
+    clock,
+    onError: (err) => reportError(err, stats),
+    debug: sdkDebug,
+  });
+}
+
 function handleUnload(): void {
+  // The page may not come back — report suppression counts now
+  eventSuppressor.sweep(Infinity);
+  logSuppressor.sweep(Infinity);
+  // Destinations keep nothing offline; theirs go out now or not at all
+  for (const destination of destinations) destination.unload();
   const events = eventBatcher.drain();
   const logs = logBatcher.drain();
-  transport.beacon(events, logs);
+  // sendBeacon cannot succeed offline — keep the batch for the next load
+  if (offlineQueue && typeof navigator !== "undefined" && !navigator.onLine) {
+    offlineQueue.put(events, logs).catch(() => {});
+    return;
+  }
+  if (transport.beacon) {
+    transport.beacon(corrected(events), corrected(logs));
+    return;
+  }
+  // No beacon: start regular sends and hope they finish before the page goes
+  transport.sendEvents(corrected(events)).catch(() => {});
+  transport.sendLogs(corrected(logs)).catch(() => {});
+}
+
+function replayOffline(): void {
+  if (!offlineQueue || closed) return;
+  offlineQueue
+    .takeAll()
+    .then(({ events, logs }) => {
+      if (events.length === 0 && logs.length === 0) return;
+      sdkDebug(`replaying ${events.length} events and ${logs.length} logs from offline queue`);
+      counters.enqueued("events", events.length);
+      counters.enqueued("logs", logs.length);
+      for (const event of events) eventBatcher.add(event);
+      for (const log of logs) logBatcher.add(log);
+      return tell.flush();
+    })
+    .catch(() => {});
 }
 
 function handleVisibilityUnload(): void {
@@ -119,6 +447,7 @@ function handleVisibilityUnload(): void {
 }
 
 function onNewSession(reason: SessionReason, sessionId: string): void {
+  emitter.emit("session", { sessionId, reason });
   if (_disabled || _optedOut || closed) return;
   const ctx = captureContext();
   const event: JsonEvent = {
@@ -128,9 +457,12 @@ function onNewSession(reason: SessionReason, sessionId: string): void {
     session_id: sessionId,
     user_id: userId,
     timestamp: Date.now(),
+    message_id: messageId(),
     reason,
     ...ctx,
   };
+  counters.enqueued("events");
+  queued("events", event);
   eventBatcher.add(event);
 }
 
@@ -153,9 +485,14 @@ function loadSuperProps(): Properties {
 // Public API
 // ---------------------------------------------------------------------------
 
-export interface TellInstance {
+/**
+ * Pass a tracking plan as `E` to type-check `track()` calls, e.g.
+ * `export const typedTell = tell as TellInstance<MyEvents>`.
+ * Without it any event name and properties are accepted.
+ */
+export interface TellInstance<E extends object = UntypedEvents> {
   configure(apiKey: string, options?: TellBrowserConfig): void;
-  track(eventName: string, properties?: Properties): void;
+  track<K extends EventKey<E>>(eventName: K, ...args: TrackArgs<E, K>): void;
   identify(userId: string, traits?: Properties): void;
   group(groupId: string, properties?: Properties): void;
   revenue(
@@ -185,6 +522,20 @@ export interface TellInstance {
   reset(): void;
   enable(): void;
   disable(): void;
+  /**
+   * Register a plugin. Its `beforeEvent`/`beforeLog` hooks run after those of
+   * plugins registered earlier; `setup` runs once the client is configured.
+   */
+  use(plugin: TellPlugin<TellInstance<E>>): void;
+  /** Delivery counters since `configure()`, plus current queue depths. */
+  stats(): TellStats;
+  /**
+   * Observe the pipeline in-process: "event" and "log" receive items as they
+   * are queued, after every hook. Works before `configure()`. Returns a
+   * function that unsubscribes.
+   */
+  on<K extends TellEventName>(name: K, listener: TellListener<K>): () => void;
+  off<K extends TellEventName>(name: K, listener: TellListener<K>): void;
   /** @internal Reset all module state. Only for testing. */
   _resetForTesting(): void;
 }
@@ -202,14 +553,32 @@ const tell: TellInstance = {
 
     validateApiKey(apiKey);
     _apiKey = apiKey;
+    counters = createCounters();
     resolvedConfig = resolveConfig(options);
     resolvedService =
       options?.service ??
       (typeof window !== "undefined" ? window.location?.hostname : undefined) ??
       "browser";
     sdkLogLevel = LOG_LEVELS[resolvedConfig.logLevel] ?? 0;
-    beforeSend = resolvedConfig.beforeSend;
-    beforeSendLog = resolvedConfig.beforeSendLog;
+    // Built-in stages run before user hooks: sampling first, then the tracking
+    // plan so violations reflect what the caller sent
+    eventStages = [];
+    logStages = [];
+    if (resolvedConfig.sampling) {
+      eventStages.push(sampleEvents(resolvedConfig.sampling));
+      logStages.push(sampleLogs(resolvedConfig.sampling));
+    }
+    if (resolvedConfig.trackingPlan) {
+      eventStages.push(
+        enforceTrackingPlan({
+          events: resolvedConfig.trackingPlan,
+          mode: resolvedConfig.trackingPlanMode,
+          onViolation: reportError,
+        })
+      );
+    }
+    for (const plugin of resolvedConfig.plugins) addPlugin(plugin);
+    composeHooks();
     _disabled = resolvedConfig.disabled;
 
     // Persistence
@@ -243,18 +612,56 @@ const tell: TellInstance = {
       sdkDebug("Do Not Track enabled, disabling");
     }
 
+    // Dedupe and rate limiting
+    const suppression = {
+      dedupeWindow: resolvedConfig.dedupeWindow,
+      rateLimit: resolvedConfig.rateLimit,
+      rateLimitWindow: resolvedConfig.rateLimitWindow,
+    };
+    eventSuppressor = new Suppressor({
+      ...suppression,
+      onSummary: (eventName, suppressed) => logSuppressed("event", eventName, suppressed),
+    });
+    logSuppressor = new Suppressor({
+      ...suppression,
+      onSummary: (message, suppressed) => logSuppressed("message", message, suppressed),
+    });
+
     // Transport
-    transport = new BrowserTransport({
-      endpoint: resolvedConfig.endpoint,
-      apiKey: _apiKey,
-      maxRetries: resolvedConfig.maxRetries,
-      networkTimeout: resolvedConfig.networkTimeout,
-      onError: resolvedConfig.onError,
-      onPayloadTooLarge: () => {
-        eventBatcher.halveBatchSize();
-        logBatcher.halveBatchSize();
-        sdkDebug("413 received, halved batch size");
-      },
+    clock = resolvedConfig.correctClockSkew
+      ? new ClockSkew({ onChange: (offset) => sdkDebug(`clock skew ${offset}ms, correcting timestamps`) })
+      : null;
+    if (resolvedConfig.dryRun) {
+      transport = new DryRunTransport({ log: sdkDebug });
+    } else {
+      transport = resolvedConfig.transport ?? new BrowserTransport({
+        endpoint: resolvedConfig.endpoint,
+        apiKey: _apiKey,
+        maxRetries: resolvedConfig.maxRetries,
+        networkTimeout: resolvedConfig.networkTimeout,
+        flatten: resolvedConfig.flattenProperties,
+        gzip: resolvedConfig.gzip,
+        onError: reportError,
+        onRejected: resolvedConfig.onRejected,
+        onEndpointChange: (endpoint) => sdkDebug(`sending to ${endpoint}`),
+        stats: counters,
+        clock: clock ?? undefined,
+        // One breaker for events and logs
+        breaker: new CircuitBreaker({
+          threshold: resolvedConfig.circuitBreakerThreshold,
+          cooldown: resolvedConfig.circuitBreakerCooldown,
+          onStateChange: (state) => sdkDebug(`circuit ${state}`),
+        }),
+      });
+    }
+
+    destinations = [];
+    resolvedConfig.destinations.forEach((destinationOptions, index) => {
+      const destination = createDestination(destinationOptions, index);
+      if (destinations.some((d) => d.name === destination.name)) {
+        throw new ConfigurationError(`destination "${destination.name}" is configured twice; give each a unique name`);
+      }
+      destinations.push(destination);
     });
 
     // Batchers
@@ -262,18 +669,49 @@ const tell: TellInstance = {
       size: resolvedConfig.batchSize,
       interval: resolvedConfig.flushInterval,
       maxQueueSize: resolvedConfig.maxQueueSize,
-      send: (items) => transport.sendEvents(items),
-      onOverflow: () => sdkDebug("event queue overflow, dropping oldest"),
+      maxBatchBytes: resolvedConfig.maxBatchBytes,
+      send: (items) => sendBatch({ kind: "events", items: corrected(items) }),
+      isPriority: (event) =>
+        event.event !== undefined && resolvedConfig.priorityEvents.includes(event.event),
+      onOverflow: () => {
+        counters.dropped("events", "overflow");
+        sdkDebug("event queue overflow, dropping oldest");
+      },
+      onError: (err) => {
+        counters.dropped("events", "validation");
+        reportError(err);
+      },
     });
 
     logBatcher = new Batcher<JsonLog>({
       size: resolvedConfig.batchSize,
       interval: resolvedConfig.flushInterval,
       maxQueueSize: resolvedConfig.maxQueueSize,
-      send: (items) => transport.sendLogs(items),
-      onOverflow: () => sdkDebug("log queue overflow, dropping oldest"),
+      maxBatchBytes: resolvedConfig.maxBatchBytes,
+      send: (items) => sendBatch({ kind: "logs", items: corrected(items) }),
+      isPriority: (log) => resolvedConfig.priorityLevels.includes(log.level),
+      onOverflow: () => {
+        counters.dropped("logs", "overflow");
+        sdkDebug("log queue overflow, dropping oldest");
+      },
+      onError: (err) => {
+        counters.dropped("logs", "validation");
+        reportError(err);
+      },
     });
 
+    // Offline queue
+    if (resolvedConfig.offlineQueue && OfflineQueue.isSupported()) {
+      offlineQueue = new OfflineQueue({
+        maxAge: resolvedConfig.offlineMaxAge,
+        maxItems: resolvedConfig.maxQueueSize,
+      });
+      if (typeof window !== "undefined") {
+        onlineHandler = replayOffline;
+        window.addEventListener("online", onlineHandler);
+      }
+    }
+
     // Session management
     sessionManager = new SessionManager({
       timeout: resolvedConfig.sessionTimeout,
@@ -319,6 +757,10 @@ const tell: TellInstance = {
       window.addEventListener("unhandledrejection", rejectionHandler);
     }
 
+    if (resolvedConfig.statsInterval > 0) {
+      statsTimer = setInterval(logStats, resolvedConfig.statsInterval);
+    }
+
     configured = true;
     closed = false;
 
@@ -326,8 +768,16 @@ const tell: TellInstance = {
       `configured (endpoint=${resolvedConfig.endpoint}, batch=${resolvedConfig.batchSize})`
     );
 
+    // Plugins registered before configure are set up once the client is ready
+    for (const plugin of plugins) {
+      if (plugin.setup) plugin.setup(tell);
+    }
+
     // Replay pre-init queue
     queue.replay(tell as unknown as Record<string, (...args: any[]) => any>);
+
+    // Replay batches persisted by a previous page load
+    replayOffline();
   },
 
   // -----------------------------------------------------------------------
@@ -339,21 +789,33 @@ const tell: TellInstance = {
       queue.push({ method: "track", args: [eventName, properties] });
       return;
     }
-    if (_disabled || _optedOut) return;
+    if (_disabled || _optedOut) {
+      counters.dropped("events", "optOut");
+      return;
+    }
     if (closed) {
       reportError(new ClosedError());
       return;
     }
     try {
       validateEventName(eventName);
+      validateProperties(properties);
     } catch (err) {
+      counters.dropped("events", "validation");
       reportError(err);
       return;
     }
+    if (
+      eventSuppressor.enabled &&
+      !eventSuppressor.admit(eventName, JSON.stringify([userId, eventName, properties ?? null]))
+    ) {
+      counters.dropped("events", "suppressed");
+      return;
+    }
 
     sessionManager.touch();
 
-    let event: JsonEvent | null = {
+    const event: JsonEvent = {
       type: "track",
       event: eventName,
       service: resolvedService,
@@ -365,12 +827,7 @@ const tell: TellInstance = {
       ...properties,
     };
 
-    if (beforeSend) {
-      event = runBeforeSend(event, beforeSend);
-      if (event === null) return;
-    }
-
-    eventBatcher.add(event);
+    enqueue("events", eventBatcher, event, beforeSend);
   },
 
   identify(newUserId: string, traits?: Properties): void {
@@ -378,14 +835,19 @@ const tell: TellInstance = {
       queue.push({ method: "identify", args: [newUserId, traits] });
       return;
     }
-    if (_disabled || _optedOut) return;
+    if (_disabled || _optedOut) {
+      counters.dropped("events", "optOut");
+      return;
+    }
     if (closed) {
       reportError(new ClosedError());
       return;
     }
     try {
       validateUserId(newUserId);
+      validateProperties(traits);
     } catch (err) {
+      counters.dropped("events", "validation");
       reportError(err);
       return;
     }
@@ -395,7 +857,7 @@ const tell: TellInstance = {
 
     sessionManager.touch();
 
-    let event: JsonEvent | null = {
+    const event: JsonEvent = {
       type: "identify",
       service: resolvedService,
       device_id: deviceId,
@@ -405,12 +867,7 @@ const tell: TellInstance = {
       ...traits,
     };
 
-    if (beforeSend) {
-      event = runBeforeSend(event, beforeSend);
-      if (event === null) return;
-    }
-
-    eventBatcher.add(event);
+    enqueue("events", eventBatcher, event, beforeSend);
   },
 
   group(groupId: string, properties?: Properties): void {
@@ -418,21 +875,26 @@ const tell: TellInstance = {
       queue.push({ method: "group", args: [groupId, properties] });
       return;
     }
-    if (_disabled || _optedOut) return;
+    if (_disabled || _optedOut) {
+      counters.dropped("events", "optOut");
+      return;
+    }
     if (closed) {
       reportError(new ClosedError());
       return;
     }
     try {
       if (!groupId) throw new ValidationError("groupId", "is required");
+      validateProperties(properties);
     } catch (err) {
+      counters.dropped("events", "validation");
       reportError(err);
       return;
     }
 
     sessionManager.touch();
 
-    let event: JsonEvent | null = {
+    const event: JsonEvent = {
       type: "group",
       service: resolvedService,
       device_id: deviceId,
@@ -444,12 +906,7 @@ const tell: TellInstance = {
       ...properties,
     };
 
-    if (beforeSend) {
-      event = runBeforeSend(event, beforeSend);
-      if (event === null) return;
-    }
-
-    eventBatcher.add(event);
+    enqueue("events", eventBatcher, event, beforeSend);
   },
 
   revenue(
@@ -462,7 +919,10 @@ const tell: TellInstance = {
       queue.push({ method: "revenue", args: [amount, currency, orderId, properties] });
       return;
     }
-    if (_disabled || _optedOut) return;
+    if (_disabled || _optedOut) {
+      counters.dropped("events", "optOut");
+      return;
+    }
     if (closed) {
       reportError(new ClosedError());
       return;
@@ -471,14 +931,16 @@ const tell: TellInstance = {
       if (amount <= 0) throw new ValidationError("amount", "must be positive");
       if (!currency) throw new ValidationError("currency", "is required");
       if (!orderId) throw new ValidationError("orderId", "is required");
+      validateProperties(properties);
     } catch (err) {
+      counters.dropped("events", "validation");
       reportError(err);
       return;
     }
 
     sessionManager.touch();
 
-    let event: JsonEvent | null = {
+    const event: JsonEvent = {
       type: "track",
       event: "Order Completed",
       service: resolvedService,
@@ -493,12 +955,7 @@ const tell: TellInstance = {
       currency,
     };
 
-    if (beforeSend) {
-      event = runBeforeSend(event, beforeSend);
-      if (event === null) return;
-    }
-
-    eventBatcher.add(event);
+    enqueue("events", eventBatcher, event, beforeSend);
   },
 
   alias(previousId: string, newUserId: string): void {
@@ -506,7 +963,10 @@ const tell: TellInstance = {
       queue.push({ method: "alias", args: [previousId, newUserId] });
       return;
     }
-    if (_disabled || _optedOut) return;
+    if (_disabled || _optedOut) {
+      counters.dropped("events", "optOut");
+      return;
+    }
     if (closed) {
       reportError(new ClosedError());
       return;
@@ -516,13 +976,14 @@ const tell: TellInstance = {
         throw new ValidationError("previousId", "is required");
       validateUserId(newUserId);
     } catch (err) {
+      counters.dropped("events", "validation");
       reportError(err);
       return;
     }
 
     sessionManager.touch();
 
-    let event: JsonEvent | null = {
+    const event: JsonEvent = {
       type: "alias",
       service: resolvedService,
       device_id: deviceId,
@@ -532,12 +993,7 @@ const tell: TellInstance = {
       previous_id: previousId,
     };
 
-    if (beforeSend) {
-      event = runBeforeSend(event, beforeSend);
-      if (event === null) return;
-    }
-
-    eventBatcher.add(event);
+    enqueue("events", eventBatcher, event, beforeSend);
   },
 
   // -----------------------------------------------------------------------
@@ -549,19 +1005,31 @@ const tell: TellInstance = {
       queue.push({ method: "log", args: [level, message, data] });
       return;
     }
-    if (_disabled || _optedOut) return;
+    if (_disabled || _optedOut) {
+      counters.dropped("logs", "optOut");
+      return;
+    }
     if (closed) {
       reportError(new ClosedError());
       return;
     }
     try {
       validateLogMessage(message);
+      validateProperties(data);
     } catch (err) {
+      counters.dropped("logs", "validation");
       reportError(err);
       return;
     }
+    if (
+      logSuppressor.enabled &&
+      !logSuppressor.admit(message, JSON.stringify([level, message, data ?? null]))
+    ) {
+      counters.dropped("logs", "suppressed");
+      return;
+    }
 
-    let logEntry: JsonLog | null = {
+    const logEntry: JsonLog = {
       level,
       message,
       source: resolvedConfig.source,
@@ -571,12 +1039,7 @@ const tell: TellInstance = {
       data,
     };
 
-    if (beforeSendLog) {
-      logEntry = runBeforeSend(logEntry, beforeSendLog);
-      if (logEntry === null) return;
-    }
-
-    logBatcher.add(logEntry);
+    enqueue("logs", logBatcher, logEntry, beforeSendLog);
   },
 
   logEmergency(message: string, data?: Properties): void {
@@ -667,20 +1130,73 @@ const tell: TellInstance = {
     _disabled = true;
   },
 
+  // -----------------------------------------------------------------------
+  // Plugins
+  // -----------------------------------------------------------------------
+
+  use(plugin: TellPlugin<TellInstance>): void {
+    if (closed) {
+      reportError(new ClosedError());
+      return;
+    }
+    if (!addPlugin(plugin)) return;
+    composeHooks();
+    // Before configure, setup is deferred until the client is ready
+    if (configured && plugin.setup) plugin.setup(tell);
+    sdkDebug(`plugin registered: ${plugin.name}`);
+  },
+
+  // -----------------------------------------------------------------------
+  // Listeners
+  // -----------------------------------------------------------------------
+
+  on<K extends TellEventName>(name: K, listener: TellListener<K>): () => void {
+    return emitter.on(name, listener);
+  },
+
+  off<K extends TellEventName>(name: K, listener: TellListener<K>): void {
+    emitter.off(name, listener);
+  },
+
+  // -----------------------------------------------------------------------
+  // Stats
+  // -----------------------------------------------------------------------
+
+  stats(): TellStats {
+    const stats = counters.snapshot({
+      events: eventBatcher?.pending ?? 0,
+      logs: logBatcher?.pending ?? 0,
+    });
+    if (destinations.length > 0) {
+      stats.destinations = Object.fromEntries(destinations.map((d) => [d.name, d.stats()]));
+    }
+    return stats;
+  },
+
   // -----------------------------------------------------------------------
   // Lifecycle
   // -----------------------------------------------------------------------
 
   async flush(): Promise<void> {
     if (!configured) return;
-    await Promise.all([eventBatcher.flush(), logBatcher.flush()]);
+    eventSuppressor.sweep();
+    logSuppressor.sweep();
+    await Promise.all([eventBatcher.flush(), logBatcher.flush(), ...destinations.map((d) => d.flush())]);
   },
 
   async close(): Promise<void> {
     if (!configured || closed) return;
     closed = true;
 
+    // Report suppression counts from windows that have not ended yet
+    eventSuppressor.sweep(Infinity);
+    logSuppressor.sweep(Infinity);
+
     if (sessionManager) sessionManager.destroy();
+    if (statsTimer !== null) {
+      clearInterval(statsTimer);
+      statsTimer = null;
+    }
 
     if (typeof window !== "undefined" && unloadHandler) {
       window.removeEventListener("beforeunload", unloadHandler);
@@ -699,9 +1215,13 @@ const tell: TellInstance = {
         window.removeEventListener("unhandledrejection", rejectionHandler);
         rejectionHandler = null;
       }
+      if (onlineHandler) {
+        window.removeEventListener("online", onlineHandler);
+        onlineHandler = null;
+      }
     }
 
-    const work = Promise.all([eventBatcher.close(), logBatcher.close()]);
+    const work = Promise.all([eventBatcher.close(), logBatcher.close(), ...destinations.map((d) => d.close())]);
     const timeout = new Promise<never>((_, reject) =>
       setTimeout(
         () => reject(new Error("close timed out")),
@@ -711,10 +1231,27 @@ const tell: TellInstance = {
 
     try {
       await Promise.race([work, timeout]);
+      await transport.close();
     } catch (err) {
       reportError(err);
     }
 
+    if (offlineQueue) {
+      await offlineQueue.close();
+      offlineQueue = null;
+    }
+
+    // Tear down in reverse so later plugins can still rely on earlier ones
+    for (const plugin of [...plugins].reverse()) {
+      if (!plugin.teardown) continue;
+      try {
+        await plugin.teardown();
+      } catch (err) {
+        reportError(err);
+      }
+    }
+    plugins = [];
+
     configured = false;
   },
 
@@ -730,6 +1267,7 @@ const tell: TellInstance = {
 
     if (sessionManager) {
       sessionManager.sessionId = generateId();
+      emitter.emit("session", { sessionId: sessionManager.sessionId, reason: "reset" });
     }
   },
 
@@ -741,6 +1279,7 @@ const tell: TellInstance = {
     if (configured && !closed) {
       // Synchronously tear down timers
       if (sessionManager) sessionManager.destroy();
+      if (statsTimer !== null) clearInterval(statsTimer);
       if (eventBatcher) {
         eventBatcher.drain();
         eventBatcher.close().catch(() => {});
@@ -762,7 +1301,10 @@ const tell: TellInstance = {
         if (errorHandler) window.removeEventListener("error", errorHandler);
         if (rejectionHandler)
           window.removeEventListener("unhandledrejection", rejectionHandler);
+        if (onlineHandler) window.removeEventListener("online", onlineHandler);
       }
+      if (offlineQueue) offlineQueue.close().catch(() => {});
+      for (const destination of destinations) destination.discard();
     }
 
     configured = false;
@@ -772,13 +1314,23 @@ const tell: TellInstance = {
     userId = undefined;
     deviceId = "";
     superProperties = {};
+    eventStages = [];
+    logStages = [];
     beforeSend = undefined;
     beforeSendLog = undefined;
+    plugins = [];
     sdkLogLevel = 0;
     unloadHandler = null;
     visibilityUnloadHandler = null;
     errorHandler = null;
     rejectionHandler = null;
+    onlineHandler = null;
+    offlineQueue = null;
+    destinations = [];
+    clock = null;
+    counters = createCounters();
+    statsTimer = null;
+    emitter.clear();
     queue.clear();
   },
 };
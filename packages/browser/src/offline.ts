@@ -0,0 +1,148 @@
+import type { JsonEvent, JsonLog } from "@tell-rs/core";
+
+export interface OfflineQueueConfig {
+  maxAge: number; // ms — stored items older than this are discarded on read
+  maxItems: number; // oldest items are evicted beyond this count
+}
+
+export interface OfflineBatch {
+  events: JsonEvent[];
+  logs: JsonLog[];
+}
+
+// `storedAt` is when the item was first queued, so re-persisting after a failed replay does not reset its age
+type StoredItem =
+  | { kind: "events"; item: JsonEvent; storedAt: number }
+  | { kind: "logs"; item: JsonLog; storedAt: number };
+
+const DB_NAME = "tell";
+const DB_VERSION = 1;
+const STORE = "offline_queue";
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function done(tx: IDBTransaction): Promise<void> {
+  const promise = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  // A failed request also rejects its own promise; avoid a second unhandled rejection
+  promise.catch(() => {});
+  return promise;
+}
+
+/** The item's own timestamp, before any clock-skew correction; `now` if it has none. */
+function queuedAt(item: JsonEvent | JsonLog, now: number): number {
+  return Math.min(item.client_timestamp ?? item.timestamp ?? now, now);
+}
+
+/**
+ * Durable store for batches the transport could not deliver.
+ * Backed by IndexedDB; every method degrades to a no-op when the
+ * database cannot be opened (private mode, blocked storage).
+ */
+export class OfflineQueue {
+  private readonly maxAge: number;
+  private readonly maxItems: number;
+  private db: Promise<IDBDatabase | null>;
+
+  constructor(config: OfflineQueueConfig) {
+    this.maxAge = config.maxAge;
+    this.maxItems = config.maxItems;
+    this.db = this.open();
+  }
+
+  /** Returns true if IndexedDB exists in this environment. */
+  static isSupported(): boolean {
+    return typeof indexedDB !== "undefined";
+  }
+
+  /** Persist undelivered items for a later replay. */
+  async put(events: JsonEvent[], logs: JsonLog[]): Promise<void> {
+    if (events.length === 0 && logs.length === 0) return;
+    const db = await this.db;
+    if (!db) return;
+
+    try {
+      const tx = db.transaction(STORE, "readwrite");
+      const committed = done(tx);
+      const store = tx.objectStore(STORE);
+      const now = Date.now();
+      for (const item of events) {
+        store.add({ kind: "events", item, storedAt: queuedAt(item, now) } satisfies StoredItem);
+      }
+      for (const item of logs) {
+        store.add({ kind: "logs", item, storedAt: queuedAt(item, now) } satisfies StoredItem);
+      }
+
+      // Evict oldest beyond the cap (keys are auto-incrementing)
+      const count = await request(store.count());
+      let excess = count - this.maxItems;
+      if (excess > 0) {
+        const cursorReq = store.openCursor();
+        cursorReq.onsuccess = () => {
+          const cursor = cursorReq.result;
+          if (!cursor || excess <= 0) return;
+          cursor.delete();
+          excess--;
+          cursor.continue();
+        };
+      }
+
+      await committed;
+    } catch {
+      // quota exceeded or transaction aborted — best effort
+    }
+  }
+
+  /** Remove and return every stored item that has not expired. */
+  async takeAll(): Promise<OfflineBatch> {
+    const batch: OfflineBatch = { events: [], logs: [] };
+    const db = await this.db;
+    if (!db) return batch;
+
+    try {
+      const tx = db.transaction(STORE, "readwrite");
+      const committed = done(tx);
+      const store = tx.objectStore(STORE);
+      const stored = (await request(store.getAll())) as StoredItem[];
+      store.clear();
+      await committed;
+
+      const cutoff = Date.now() - this.maxAge;
+      for (const entry of stored) {
+        if (entry.storedAt < cutoff) continue;
+        if (entry.kind === "events") batch.events.push(entry.item);
+        else batch.logs.push(entry.item);
+      }
+    } catch {
+      // unreadable store — nothing to replay
+    }
+    return batch;
+  }
+
+  /** Close the underlying database connection. */
+  async close(): Promise<void> {
+    const db = await this.db;
+    if (db) db.close();
+  }
+
+  private async open(): Promise<IDBDatabase | null> {
+    if (!OfflineQueue.isSupported()) return null;
+    try {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        req.result.createObjectStore(STORE, { autoIncrement: true });
+      };
+      return await request(req);
+    } catch {
+      return null;
+    }
+  }
+}
@@ -1,96 +1,200 @@
-import type { JsonEvent, JsonLog } from "@tell-rs/core";
-import { NetworkError } from "@tell-rs/core";
+import type { CircuitBreaker, ClockSkew, JsonEvent, JsonLog, RejectedItem, RejectionReason, StatsKind, StatsRecorder, Transport } from "@tell-rs/core";
+import { CircuitOpenError, Failover, NetworkError, byteLength, encodeEvents, encodeLogs, handleResponse, idempotencyKey, retryAfter, retryDelay } from "@tell-rs/core";
+import { gzip, gzipSync } from "./gzip.js";
 
 export interface BrowserTransportConfig {
-  endpoint: string;
+  /** Collector URL, or a list tried in order when one cannot be reached. */
+  endpoint: string | string[];
   apiKey: string;
   maxRetries: number;
   networkTimeout: number;
+  /** Flatten nested properties into dot-separated keys on the wire. */
+  flatten?: boolean;
+  /** Gzip bodies where the browser supports CompressionStream; beacons always can. */
+  gzip?: boolean;
   onError?: (error: Error) => void;
   onPayloadTooLarge?: () => void;
+  /** Called on 207 with the refused items and why, index-aligned. */
+  onRejected?: (items: RejectedItem[], reasons: RejectionReason[]) => void;
+  /** Called when sends move to another endpoint of the list. */
+  onEndpointChange?: (endpoint: string) => void;
+  /** Refuses sends after repeated failures; sends throw CircuitOpenError while it is open. */
+  breaker?: CircuitBreaker;
+  /** Records sent and rejected items, retries and bytes. */
+  stats?: StatsRecorder;
+  /** Learns the collector's clock from the `Date` header of each response. */
+  clock?: ClockSkew;
 }
 
-export class BrowserTransport {
-  private readonly endpoint: string;
+// Longest Retry-After waited out between attempts; longer ones open the circuit instead
+const MAX_RETRY_WAIT = 30_000;
+
+/** A batch on its way out, shared by the attempts on each endpoint. */
+interface OutgoingRequest {
+  kind: StatsKind;
+  body: string;
+  /** Gzipped body, or null to send `body` as is. */
+  compressed: Uint8Array<ArrayBuffer> | null;
+  items: RejectedItem[];
+  key: string | undefined;
+}
+
+export class BrowserTransport implements Transport {
+  private readonly failover: Failover;
   private readonly apiKey: string;
   private readonly maxRetries: number;
   private readonly networkTimeout: number;
+  private readonly flatten: boolean;
+  private readonly gzip: boolean;
   private readonly onError?: (error: Error) => void;
   private readonly onPayloadTooLarge?: () => void;
+  private readonly onRejected?: (items: RejectedItem[], reasons: RejectionReason[]) => void;
+  private readonly breaker?: CircuitBreaker;
+  private readonly stats?: StatsRecorder;
+  private readonly clock?: ClockSkew;
 
   constructor(config: BrowserTransportConfig) {
-    this.endpoint = config.endpoint;
+    this.failover = new Failover(config.endpoint, { onSwitch: config.onEndpointChange });
     this.apiKey = config.apiKey;
     this.maxRetries = config.maxRetries;
     this.networkTimeout = config.networkTimeout;
+    this.flatten = config.flatten ?? false;
+    this.gzip = config.gzip ?? false;
     this.onError = config.onError;
     this.onPayloadTooLarge = config.onPayloadTooLarge;
+    this.onRejected = config.onRejected;
+    this.breaker = config.breaker;
+    this.stats = config.stats;
+    this.clock = config.clock;
   }
 
-  async sendEvents(events: JsonEvent[]): Promise<void> {
-    if (events.length === 0) return;
-    const body = events.map((e) => JSON.stringify(e)).join("\n");
-    await this.send("/v1/events", body);
+  /** Resolves true once the server answered, false if it was never reached. */
+  async sendEvents(events: JsonEvent[]): Promise<boolean> {
+    if (events.length === 0) return true;
+    const body = this.encodeEvents(events);
+    return this.send("events", body, events);
   }
 
-  async sendLogs(logs: JsonLog[]): Promise<void> {
-    if (logs.length === 0) return;
-    const body = logs.map((l) => JSON.stringify(l)).join("\n");
-    await this.send("/v1/logs", body);
+  /** Resolves true once the server answered, false if it was never reached. */
+  async sendLogs(logs: JsonLog[]): Promise<boolean> {
+    if (logs.length === 0) return true;
+    const body = this.encodeLogs(logs);
+    return this.send("logs", body, logs);
   }
 
   /** Best-effort flush via sendBeacon for page unload. */
   beacon(events: JsonEvent[], logs: JsonLog[]): void {
     if (typeof navigator === "undefined" || !navigator.sendBeacon) return;
 
-    if (events.length > 0) {
-      const body = events.map((e) => JSON.stringify(e)).join("\n");
-      const blob = new Blob([body], { type: "text/plain" });
-      const url = `${this.endpoint}/v1/events?token=${encodeURIComponent(this.apiKey)}`;
-      navigator.sendBeacon(url, blob);
-    }
+    if (events.length > 0) this.sendBeacon("events", this.encodeEvents(events), idempotencyKey(events));
+    if (logs.length > 0) this.sendBeacon("logs", this.encodeLogs(logs), idempotencyKey(logs));
+  }
 
-    if (logs.length > 0) {
-      const body = logs.map((l) => JSON.stringify(l)).join("\n");
-      const blob = new Blob([body], { type: "text/plain" });
-      const url = `${this.endpoint}/v1/logs?token=${encodeURIComponent(this.apiKey)}`;
-      navigator.sendBeacon(url, blob);
-    }
+  async close(): Promise<void> {
+    // Nothing to release: every request is awaited by the batcher
   }
 
-  private resolvePort(): string {
-    try {
-      const u = new URL(this.endpoint);
-      if (u.port) return u.port;
-      return u.protocol === "https:" ? "443" : "80";
-    } catch {
-      return "unknown";
+  /** The page is going away, so there is no time for CompressionStream; gzip synchronously instead. */
+  private sendBeacon(kind: StatsKind, body: string, key: string | undefined): void {
+    const compressed = this.gzip ? smaller(gzipSync(body), body) : null;
+    const blob = new Blob([compressed ?? body], { type: "text/plain" });
+    navigator.sendBeacon(this.url(this.failover.current, kind, key, Date.now(), compressed !== null), blob);
+  }
+
+  private encodeEvents(events: JsonEvent[]): string {
+    return encodeEvents(events, this.flatten).join("\n");
+  }
+
+  private encodeLogs(logs: JsonLog[]): string {
+    return encodeLogs(logs, this.flatten).join("\n");
+  }
+
+  /**
+   * Auth, the idempotency key, the send time and the body's encoding go in
+   * the query string: together with the text/plain content type this keeps
+   * requests CORS "simple" — no preflight OPTIONS, which a Content-Encoding
+   * header would trigger — and works for sendBeacon, which cannot set headers.
+   */
+  private url(endpoint: string, kind: StatsKind, key: string | undefined, sentAt: number, gzipped: boolean): string {
+    let url = `${endpoint}/v1/${kind}?token=${encodeURIComponent(this.apiKey)}`;
+    if (key) url += `&idempotency_key=${key}`;
+    if (gzipped) url += "&content_encoding=gzip";
+    return `${url}&sent_at=${sentAt}`;
+  }
+
+  /**
+   * POST a batch with retries, moving down the endpoint list when an
+   * endpoint cannot be reached. Resolves true once a server has answered
+   * (accepted or permanently rejected), false if none was reached.
+   * Throws CircuitOpenError instead while the circuit breaker is open.
+   */
+  private async send(kind: StatsKind, body: string, items: RejectedItem[]): Promise<boolean> {
+    if (this.breaker && !this.breaker.allow()) {
+      throw new CircuitOpenError(this.breaker.retryIn());
+    }
+    // A probe through a half-open circuit gets a single attempt
+    const maxRetries = this.breaker?.state === "half-open" ? 0 : this.maxRetries;
+    // Compressed once for all attempts; sent as is where CompressionStream is missing
+    const compressed = this.gzip ? smaller(await gzip(body), body) : null;
+    const request: OutgoingRequest = {
+      kind,
+      body,
+      compressed,
+      items,
+      // Same key on every attempt, so the collector can drop a batch it already accepted
+      key: idempotencyKey(items),
+    };
+
+    // The breaker counts a failure only once every endpoint has failed
+    let wait = 0;
+    for (const index of this.failover.order()) {
+      const result = await this.sendTo(this.failover.endpoints[index], request, this.failover.probing(index) ? 0 : maxRetries);
+      if (result === true) {
+        this.failover.answered(index);
+        return true;
+      }
+      // Being offline says nothing about the collector's health, nor about the other endpoints
+      if (result === null) return false;
+      wait = result;
     }
+    return this.failed(wait);
   }
 
-  private async send(path: string, body: string): Promise<void> {
-    // Auth via query param + text/plain content-type keeps this a CORS
-    // "simple request" — no preflight OPTIONS needed.  This matches the
-    // pattern used by beacon() and by every major analytics SDK.
-    const url = `${this.endpoint}${path}?token=${encodeURIComponent(this.apiKey)}`;
-    const port = this.resolvePort();
+  /**
+   * Attempt one endpoint up to `1 + maxRetries` times. Resolves true once it
+   * answered, with the Retry-After wait in ms (0 if none) when it did not,
+   * or null when the browser stayed offline throughout.
+   */
+  private async sendTo(endpoint: string, request: OutgoingRequest, maxRetries: number): Promise<true | number | null> {
+    const { kind, body, compressed, items, key } = request;
+    const payload = compressed ?? body;
+    let url = this.url(endpoint, kind, key, Date.now(), compressed !== null);
+    const port = resolvePort(endpoint);
     const headers: Record<string, string> = {
       "Content-Type": "text/plain",
     };
 
     let lastError: Error | undefined;
+    let wait = 0;
+    let reached = false;
 
-    for (let attempt = 0; attempt <= this.maxRetries; attempt++) {
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
       if (attempt > 0) {
-        await this.backoff(attempt);
+        if (this.stats) this.stats.retried();
+        await this.backoff(attempt, wait);
       }
 
       // Skip attempt if browser reports offline
       if (typeof navigator !== "undefined" && !navigator.onLine) {
         lastError = new NetworkError(`Browser is offline (endpoint: ${url}, port: ${port})`);
+        wait = 0;
         continue;
       }
+      reached = true;
 
+      // Raw local time, so the collector can measure skew itself
+      const sentAt = Date.now();
+      url = this.url(endpoint, kind, key, sentAt, compressed !== null);
       const controller = new AbortController();
       const timer = setTimeout(
         () => controller.abort(),
@@ -101,64 +205,46 @@ export class BrowserTransport {
         const response = await fetch(url, {
           method: "POST",
           headers,
-          body,
+          body: payload,
           signal: controller.signal,
           keepalive: true,
         });
+        if (this.clock) this.clock.observe(response.headers?.get("date"), sentAt, Date.now());
 
-        if (response.status === 202) {
-          return;
-        }
-
-        if (response.status === 207) {
-          if (this.onError) {
-            this.onError(
-              new NetworkError(
-                `Partial success: some items rejected`,
-                207
-              )
-            );
-          }
-          return;
-        }
-
-        if (response.status === 413) {
-          if (this.onPayloadTooLarge) {
-            this.onPayloadTooLarge();
+        let refused = 0;
+        const answered = await handleResponse(response, {
+          onError: this.onError,
+          onPayloadTooLarge: this.onPayloadTooLarge,
+          onRejected: (reasons, rejected) => {
+            refused = rejected;
+            const known = reasons.filter((r) => r.index < items.length);
+            if (this.onRejected && known.length > 0) this.onRejected(known.map((r) => items[r.index]), known);
+          },
+        });
+        if (answered) {
+          if (this.breaker) this.breaker.success();
+          if (this.stats) {
+            // Answered with anything but 202/207 means the whole batch was refused
+            const rejected = response.status === 202 || response.status === 207 ? Math.min(refused, items.length) : items.length;
+            this.stats.sent(kind, items.length - rejected, compressed ? compressed.length : byteLength(body));
+            if (rejected > 0) this.stats.dropped(kind, "rejected", rejected);
           }
-          throw new NetworkError("Payload too large", 413);
-        }
-
-        if (response.status === 401) {
-          throw new NetworkError("Invalid API key", 401);
-        }
-
-        if (response.status >= 400 && response.status < 500) {
-          throw new NetworkError(
-            `HTTP ${response.status}: ${response.statusText}`,
-            response.status
-          );
+          return true;
         }
 
-        // 5xx — retryable
+        // 429 or 5xx — retryable
         lastError = new NetworkError(
           `HTTP ${response.status} from ${url} (port ${port}): ${response.statusText}`,
           response.status
         );
+        wait = retryAfter(response);
+        if (wait > MAX_RETRY_WAIT) break;
       } catch (err) {
         if (err instanceof NetworkError && err.statusCode === 413) {
+          if (this.breaker) this.breaker.success();
           throw err;
         }
 
-        if (
-          err instanceof NetworkError &&
-          err.statusCode &&
-          err.statusCode < 500
-        ) {
-          if (this.onError) this.onError(err);
-          return;
-        }
-
         // DNS failures, connection refused, and CORS errors surface as
         // TypeError from fetch. Include the full URL so the developer can
         // verify the endpoint and port. These won't resolve by retrying.
@@ -169,11 +255,12 @@ export class BrowserTransport {
                 `Failed to connect to ${url} (port ${port}): ${err.message}`
               )
             );
-          return;
+          return 0;
         }
 
         lastError =
           err instanceof Error ? err : new NetworkError(String(err));
+        wait = 0;
       } finally {
         clearTimeout(timer);
       }
@@ -182,12 +269,34 @@ export class BrowserTransport {
     if (lastError && this.onError) {
       this.onError(lastError);
     }
+    return reached ? wait : null;
+  }
+
+  /** Record a send that got no answer. Once the circuit opens, throw so the batch stays queued. */
+  private failed(retryAfterMs: number): false {
+    if (!this.breaker) return false;
+    if (retryAfterMs > 0) this.breaker.pause(retryAfterMs);
+    else this.breaker.failure();
+    if (this.breaker.state === "open") throw new CircuitOpenError(this.breaker.retryIn());
+    return false;
   }
 
-  private backoff(attempt: number): Promise<void> {
-    const base = 1000 * Math.pow(1.5, attempt - 1);
-    const jitter = base * 0.2 * Math.random();
-    const delay = Math.min(base + jitter, 30_000);
-    return new Promise((resolve) => setTimeout(resolve, delay));
+  private backoff(attempt: number, minDelay = 0): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, Math.max(retryDelay(attempt), minDelay)));
+  }
+}
+
+/** The compressed body, unless compressing failed or did not make it smaller. */
+function smaller(compressed: Uint8Array<ArrayBuffer> | null, body: string): Uint8Array<ArrayBuffer> | null {
+  return compressed && compressed.length < byteLength(body) ? compressed : null;
+}
+
+function resolvePort(endpoint: string): string {
+  try {
+    const u = new URL(endpoint);
+    if (u.port) return u.port;
+    return u.protocol === "https:" ? "443" : "80";
+  } catch {
+    return "unknown";
   }
 }
@@ -0,0 +1,43 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { ConsoleTransport } from "../src/index.js";
+
+describe("ConsoleTransport", () => {
+  let calls: { method: string; args: unknown[] }[];
+  const saved = { log: console.log, group: console.group, groupCollapsed: console.groupCollapsed, groupEnd: console.groupEnd };
+
+  beforeEach(() => {
+    calls = [];
+    for (const method of ["log", "group", "groupCollapsed", "groupEnd"] as const) {
+      console[method] = (...args: unknown[]) => calls.push({ method, args });
+    }
+  });
+
+  afterEach(() => {
+    Object.assign(console, saved);
+  });
+
+  it("logs one collapsed group per batch with the item properties", async () => {
+    const transport = new ConsoleTransport();
+
+    const ok = await transport.sendEvents([
+      { type: "track", event: "Page Viewed", device_id: "d_1", user_id: "u_1", url: "/home" },
+    ]);
+
+    assert.equal(ok, true);
+    assert.deepEqual(calls.map((c) => c.method), ["groupCollapsed", "log", "groupEnd"]);
+    assert.ok(String(calls[0].args[0]).includes("1 event"));
+    assert.deepEqual(calls[1].args, ['track "Page Viewed" user=u_1', { url: "/home" }]);
+  });
+
+  it("styles logs by level", async () => {
+    const transport = new ConsoleTransport({ collapsed: false });
+
+    await transport.sendLogs([{ level: "error", message: "boom", data: { code: 42 } }]);
+
+    assert.equal(calls[0].method, "group");
+    assert.equal(calls[1].args[0], "%c[error] boom");
+    assert.ok(String(calls[1].args[1]).includes("color"));
+    assert.deepEqual(calls[1].args[2], { code: 42 });
+  });
+});
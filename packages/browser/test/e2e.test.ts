@@ -1,23 +1,39 @@
-//! End-to-end smoke test — sends every API method to a real collector.
+//! End-to-end smoke test — sends every API method to a collector.
 //!
-//! Start your Tell server, then:
+//! Runs against a mock collector by default:
 //!
 //!   npm run test:e2e -w packages/browser
 //!
+//! Start your Tell server and set TELL_E2E_ENDPOINT=http://localhost:8080
+//! to send to it instead.
+//!
 
-import { describe, it, afterEach } from "node:test";
+import { describe, it, before, after, afterEach } from "node:test";
+import assert from "node:assert/strict";
 import { setGlobal, restoreGlobal } from "./helpers.js";
 import tell from "../src/index.js";
+// From source: @tell-rs/testing builds after the SDKs
+import { MockCollector } from "../../testing/src/collector.js";
 
 const API_KEY = "feed1e11feed1e11feed1e11feed1e11";
 const USER = "e2e_user_js_browser";
-const ENDPOINT = "http://localhost:8080";
+// A real collector when set, otherwise the mock one the suite starts
+const REAL_ENDPOINT = process.env.TELL_E2E_ENDPOINT;
 
 function send(label: string): void {
   console.log(`  -> ${label}`);
 }
 
 describe("tell-js browser e2e", { skip: !process.env.TELL_E2E }, () => {
+  const collector = new MockCollector();
+  let endpoint = REAL_ENDPOINT ?? "";
+
+  before(async () => {
+    if (!REAL_ENDPOINT) endpoint = await collector.start();
+  });
+
+  after(() => collector.stop());
+
   afterEach(() => {
     tell._resetForTesting();
     restoreGlobal("navigator");
@@ -53,13 +69,13 @@ describe("tell-js browser e2e", { skip: !process.env.TELL_E2E }, () => {
 
     console.log();
     console.log("  Tell Browser SDK — E2E smoke test");
-    console.log(`  Endpoint: ${ENDPOINT}`);
+    console.log(`  Endpoint: ${endpoint}`);
     console.log();
 
     // ── Configure ─────────────────────────────────────────────────────
     send("configure");
     tell.configure(API_KEY, {
-      endpoint: ENDPOINT,
+      endpoint,
       service: "browser-e2e",
       batchSize: 10,
       flushInterval: 60_000, // long interval — we flush manually
@@ -218,8 +234,39 @@ describe("tell-js browser e2e", { skip: !process.env.TELL_E2E }, () => {
     await tell.close();
     console.log("  .. close ok");
 
+    if (!REAL_ENDPOINT) {
+      assert.deepEqual(
+        collector.events.map((e) => e.event ?? e.type),
+        [
+          "context",
+          "Page Viewed",
+          "Feature Used",
+          "App Opened",
+          "identify",
+          "Search Performed",
+          "group",
+          "Order Completed",
+          "Order Completed",
+          "alias",
+          "Post Unregister",
+          "Post Reset",
+          "Post Opt In",
+        ]
+      );
+      assert.deepEqual(
+        collector.logs.map((l) => l.level),
+        ["emergency", "alert", "critical", "error", "warning", "notice", "info", "debug", "trace", "info"]
+      );
+      assert.ok(collector.requests.every((r) => r.status === 202 && r.apiKey === API_KEY));
+      const unregistered = collector.events.find((e) => e.event === "Post Unregister")!;
+      const reset = collector.events.find((e) => e.event === "Post Reset")!;
+      assert.equal(unregistered.test, undefined);
+      assert.notEqual(reset.device_id, unregistered.device_id);
+      assert.notEqual(reset.session_id, unregistered.session_id);
+    }
+
     console.log();
-    console.log("  Done — 29 calls sent. Verify on the collector.");
+    console.log(`  Done — 29 calls sent.${REAL_ENDPOINT ? " Verify on the collector." : ""}`);
     console.log();
   });
 });
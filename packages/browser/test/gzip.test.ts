@@ -0,0 +1,43 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { gunzipSync } from "node:zlib";
+import { gzip, gzipSync } from "../src/gzip.js";
+import { setGlobal, restoreGlobal } from "./helpers.js";
+
+const NDJSON = Array.from({ length: 200 }, (_, i) =>
+  JSON.stringify({
+    type: "track",
+    event: "Product Viewed",
+    device_id: `d_${i % 5}`,
+    timestamp: 1_700_000_000_000 + i * 137,
+    properties: { path: `/products/${i}`, title: "Crème brûlée — 🍮" },
+  })
+).join("\n");
+
+describe("gzipSync", () => {
+  it("produces gzip that zlib decodes", () => {
+    for (const text of ["", "a", "abcabcabcabcabcabc", "x".repeat(70_000), NDJSON]) {
+      assert.equal(gunzipSync(gzipSync(text)).toString("utf8"), text);
+    }
+  });
+
+  it("shrinks NDJSON batches severalfold", () => {
+    assert.ok(gzipSync(NDJSON).length * 4 < Buffer.byteLength(NDJSON));
+  });
+});
+
+describe("gzip", () => {
+  it("compresses with CompressionStream", async () => {
+    const compressed = await gzip(NDJSON);
+    assert.equal(gunzipSync(compressed!).toString("utf8"), NDJSON);
+  });
+
+  it("is null without CompressionStream", async () => {
+    setGlobal("CompressionStream", undefined);
+    try {
+      assert.equal(await gzip(NDJSON), null);
+    } finally {
+      restoreGlobal("CompressionStream");
+    }
+  });
+});
@@ -27,6 +27,18 @@ export function resetFetchMock(): void {
   fetchResponse = { status: 202, statusText: "Accepted" };
 }
 
+/** Poll until the predicate holds, for work that settles across several ticks. */
+export async function waitFor(
+  predicate: () => boolean,
+  timeout = 2_000
+): Promise<void> {
+  const deadline = Date.now() + timeout;
+  while (!predicate()) {
+    if (Date.now() > deadline) throw new Error("waitFor timed out");
+    await new Promise((r) => setTimeout(r, 10));
+  }
+}
+
 // ---- localStorage mock ----
 
 export function createMockLocalStorage(): Storage {
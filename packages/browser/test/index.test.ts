@@ -1,7 +1,8 @@
 import { describe, it, beforeEach, afterEach } from "node:test";
 import assert from "node:assert/strict";
-import tell from "../src/index.js";
-import { fetchCalls, setupBrowserGlobals, setGlobal } from "./helpers.js";
+import tell, { type Transport } from "../src/index.js";
+import { IDBFactory } from "fake-indexeddb";
+import { fetchCalls, setupBrowserGlobals, setGlobal, restoreGlobal, waitFor } from "./helpers.js";
 
 const API_KEY = "feed1e11feed1e11feed1e11feed1e11";
 
@@ -393,6 +394,300 @@ describe("tell (browser singleton)", () => {
     assert.ok(pub);
   });
 
+  it("trackingPlan annotates violating events", async () => {
+    tell.configure(API_KEY, {
+      botDetection: false,
+      trackingPlan: { Signup: { plan: { enum: ["free", "pro"] } } },
+      trackingPlanMode: "annotate",
+    });
+
+    tell.track("Signup", { plan: "enterprise" });
+    await tell.flush();
+
+    const bodies = fetchCalls.flatMap((c) =>
+      (c.init.body as string).split("\n").map((l) => JSON.parse(l))
+    );
+    const event = bodies.find((b: any) => b.event === "Signup");
+    assert.equal(event?._violations.length, 1);
+    assert.match(event?._violations[0], /^properties\.plan: must be one of/);
+  });
+
+  it("sampling keyed by device_id stamps sample_rate", async () => {
+    tell.configure(API_KEY, {
+      botDetection: false,
+      sampling: { rate: 0.999999, key: "device_id" },
+    });
+
+    tell.track("Page Viewed");
+    await tell.flush();
+
+    const bodies = fetchCalls.flatMap((c) =>
+      (c.init.body as string).split("\n").map((l) => JSON.parse(l))
+    );
+    const event = bodies.find((b: any) => b.event === "Page Viewed");
+    assert.equal(event?.sample_rate, 0.999999);
+  });
+
+  it("dedupeWindow collapses double-fired track calls", async () => {
+    tell.configure(API_KEY, { botDetection: false, dedupeWindow: 1000 });
+
+    tell.track("Modal Opened", { id: "m1" });
+    tell.track("Modal Opened", { id: "m1" });
+    tell.track("Modal Opened", { id: "m2" });
+    await tell.close();
+
+    const bodies = fetchCalls.flatMap((c) =>
+      (c.init.body as string).split("\n").map((l) => JSON.parse(l))
+    );
+    assert.equal(bodies.filter((b: any) => b.event === "Modal Opened").length, 2);
+    const summary = bodies.find((b: any) => b.level === "warning");
+    assert.equal(summary?.message, 'suppressed 1 duplicates of event "Modal Opened"');
+  });
+
+  it("async beforeSend preserves order and times out to drop", async () => {
+    const errors: Error[] = [];
+    tell.configure(API_KEY, {
+      botDetection: false,
+      beforeSendTimeout: 20,
+      onError: (err) => errors.push(err),
+      beforeSend: async (event) => {
+        if (event.event === "Never") return new Promise<null>(() => {});
+        await new Promise((r) => setTimeout(r, event.event === "First" ? 10 : 0));
+        return event;
+      },
+    });
+
+    tell.track("First");
+    tell.track("Never");
+    tell.track("Second");
+    await tell.flush();
+
+    const names = fetchCalls
+      .flatMap((c) => (c.init.body as string).split("\n").map((l) => JSON.parse(l)))
+      .filter((b: any) => b.type === "track")
+      .map((b: any) => b.event);
+    assert.deepEqual(names, ["First", "Second"]);
+    assert.equal(errors.length, 1);
+  });
+
+  // --- Plugins ---
+
+  it("plugins registered before configure are set up and torn down", async () => {
+    const calls: string[] = [];
+    tell.use({
+      name: "tagger",
+      setup: (client) => {
+        calls.push("setup");
+        client.register({ tagged_by: "setup" });
+      },
+      beforeEvent: (event) => ({ ...event, tagged: true }),
+      afterSend: (batch, result) => { calls.push(`afterSend:${batch.kind}:${result.delivered}`); },
+      teardown: () => { calls.push("teardown"); },
+    });
+    tell.track("Early");
+    assert.deepEqual(calls, []);
+
+    tell.configure(API_KEY, { botDetection: false });
+    await tell.close();
+
+    const early = fetchCalls
+      .flatMap((c) => (c.init.body as string).split("\n").map((l) => JSON.parse(l)))
+      .find((b: any) => b.event === "Early");
+    assert.equal(early.tagged, true);
+    assert.equal(early.tagged_by, "setup");
+    assert.deepEqual(calls, ["setup", "afterSend:events:true", "teardown"]);
+  });
+
+  // --- Custom transport ---
+
+  it("transport option replaces fetch and falls back to sendEvents on unload", async () => {
+    const sent: string[] = [];
+    let closed = false;
+    const transport: Transport = {
+      sendEvents: async (events) => {
+        sent.push(...events.filter((e) => e.type === "track").map((e) => e.event!));
+        return true;
+      },
+      sendLogs: async () => true,
+      close: async () => { closed = true; },
+    };
+    tell.configure(API_KEY, { botDetection: false, transport });
+
+    tell.track("Before Unload");
+    (window as any).dispatchEvent("beforeunload");
+    tell.track("After Unload");
+    await tell.close();
+
+    assert.equal(fetchCalls.length, 0);
+    assert.deepEqual(sent, ["Before Unload", "After Unload"]);
+    assert.equal(closed, true);
+  });
+
+  // --- Destinations ---
+
+  it("destinations get every item through their own key, hooks and transport", async () => {
+    const archived: string[] = [];
+    tell.configure(API_KEY, {
+      botDetection: false,
+      endpoint: "https://main.example.com",
+      destinations: [
+        {
+          name: "eu",
+          endpoint: "https://eu.example.com",
+          apiKey: "0123456789abcdef0123456789abcdef",
+          beforeSend: (event) => (event.type === "track" ? { ...event, region: "eu" } : null),
+        },
+        {
+          name: "archive",
+          transport: {
+            sendEvents: async (events) => { archived.push(...events.map((e) => e.type)); return true; },
+            sendLogs: async () => true,
+            close: async () => {},
+          },
+        },
+      ],
+    });
+
+    tell.track("Page Viewed");
+    await tell.flush();
+
+    const main = fetchCalls.filter((c) => c.url.startsWith("https://main.example.com/v1/events"));
+    const eu = fetchCalls.filter((c) => c.url.startsWith("https://eu.example.com/v1/events"));
+    assert.equal(main.length, 1);
+    assert.ok(!(main[0].init.body as string).includes("region"));
+    assert.equal(eu.length, 1);
+    assert.ok(eu[0].url.includes("token=0123456789abcdef0123456789abcdef"));
+    assert.deepEqual(JSON.parse(eu[0].init.body as string).region, "eu");
+    // The session-start context event goes everywhere too
+    assert.deepEqual(archived, ["context", "track"]);
+
+    const stats = tell.stats();
+    assert.equal(stats.destinations!.eu.events.sent, 1);
+    assert.equal(stats.destinations!.eu.events.dropped.beforeSend, 1);
+    assert.equal(stats.destinations!.archive.events.sent, 2);
+  });
+
+  it("a failing destination does not hold up the main endpoint", async () => {
+    const errors: Error[] = [];
+    tell.configure(API_KEY, {
+      botDetection: false,
+      onError: (err) => errors.push(err),
+      destinations: [
+        {
+          name: "broken",
+          transport: {
+            sendEvents: async () => { throw new Error("archive unavailable"); },
+            sendLogs: async () => true,
+            close: async () => {},
+          },
+        },
+      ],
+    });
+
+    tell.track("Page Viewed");
+    await tell.flush();
+
+    assert.equal(fetchCalls.length, 1);
+    const stats = tell.stats();
+    assert.equal(stats.events.sent, 2);
+    assert.equal(stats.lastError, null);
+    assert.equal(stats.destinations!.broken.events.queued, 2);
+    assert.equal(stats.destinations!.broken.lastError!.message, "archive unavailable");
+    assert.deepEqual(errors.map((e) => e.message), ["archive unavailable"]);
+  });
+
+  it("destinations are flushed on unload", () => {
+    const beacons: string[] = [];
+    setGlobal("navigator", { onLine: true, userAgent: "test", sendBeacon: (url: string) => beacons.push(url) > 0 });
+    tell.configure(API_KEY, {
+      botDetection: false,
+      destinations: [{ endpoint: "https://eu.example.com", apiKey: "0123456789abcdef0123456789abcdef" }],
+    });
+
+    tell.track("Page Viewed");
+    (window as any).dispatchEvent("beforeunload");
+
+    assert.equal(beacons.filter((url) => url.startsWith("https://eu.example.com/v1/events")).length, 1);
+    assert.equal(beacons.filter((url) => url.startsWith("https://collect.tell.app/v1/events")).length, 1);
+  });
+
+  // --- Stats ---
+
+  it("stats() counts enqueued, sent and dropped items", async () => {
+    tell.configure(API_KEY, {
+      botDetection: false,
+      beforeSend: (event) => (event.event === "Internal" ? null : event),
+    });
+
+    tell.track("Page Viewed");
+    tell.track("Internal");
+    tell.logInfo("hello");
+    await tell.flush();
+    tell.optOut();
+    tell.track("Opted Out");
+
+    const stats = tell.stats();
+    // The session-start context event is counted too
+    assert.equal(stats.events.enqueued, 3);
+    assert.equal(stats.events.sent, 2);
+    assert.equal(stats.events.dropped.beforeSend, 1);
+    assert.equal(stats.events.dropped.optOut, 1);
+    assert.equal(stats.events.queued, 0);
+    assert.equal(stats.logs.sent, 1);
+    assert.ok(stats.bytesSent > 0);
+  });
+
+  it("stats() starts over after _resetForTesting", async () => {
+    tell.configure(API_KEY, { botDetection: false });
+    tell.track("Page Viewed");
+    tell._resetForTesting();
+    assert.equal(tell.stats().events.enqueued, 0);
+    assert.equal(tell.stats().events.queued, 0);
+  });
+
+  // --- Listeners ---
+
+  it("on() works before configure and sees the final payload", async () => {
+    const seen: string[] = [];
+    tell.on("session", (session) => seen.push(`session:${session.reason}`));
+    tell.on("event", (event) => seen.push(`event:${event.type}:${event.event ?? ""}:${event.tagged ?? ""}`));
+    tell.on("event", () => {
+      throw new Error("listener");
+    });
+    tell.on("flush", (batch) => seen.push(`flush:${batch.kind}:${batch.delivered}`));
+
+    tell.configure(API_KEY, {
+      botDetection: false,
+      beforeSend: (event) => ({ ...event, tagged: true }),
+    });
+    tell.track("Page Viewed");
+    await tell.flush();
+
+    assert.deepEqual(seen, [
+      "session:session_start",
+      "event:context::",
+      "event:track:Page Viewed:true",
+      "flush:events:true",
+    ]);
+    assert.equal(tell.stats().events.sent, 2);
+  });
+
+  // --- Dry run ---
+
+  it("dryRun runs the pipeline without sending", async () => {
+    const kinds: string[] = [];
+    tell.on("flush", (batch) => kinds.push(`${batch.kind}:${batch.delivered}`));
+    tell.configure(API_KEY, { botDetection: false, dryRun: true });
+
+    tell.track("Page Viewed");
+    tell.logInfo("hello");
+    await tell.flush();
+
+    assert.equal(fetchCalls.length, 0);
+    assert.deepEqual(kinds, ["events:true", "logs:true"]);
+    assert.equal(tell.stats().events.sent, 2);
+  });
+
   // --- beforeSendLog ---
 
   it("beforeSendLog modifies logs", async () => {
@@ -566,4 +861,97 @@ describe("tell (browser singleton)", () => {
     assert.equal(ctx.reason, "session_start");
     assert.equal(ctx.context, undefined);
   });
+
+  it("stamps every event and log with a message_id", async () => {
+    tell.configure(API_KEY, { botDetection: false });
+    tell.track("Click");
+    tell.logInfo("Clicked");
+    await tell.flush();
+
+    const bodies = fetchCalls.flatMap((c) =>
+      (c.init.body as string).split("\n").map((l) => JSON.parse(l))
+    );
+    assert.deepEqual(
+      bodies.map((b: any) => b.event ?? b.type ?? b.message),
+      ["context", "Click", "Clicked"]
+    );
+    for (const body of bodies) assert.match(body.message_id, /^[0-9A-HJKMNP-TV-Z]{26}$/);
+    assert.ok(bodies[1].message_id > bodies[0].message_id);
+    assert.ok(fetchCalls.every((c) => /&idempotency_key=[0-9a-f]{32}&/.test(c.url)));
+  });
+
+  it("correctClockSkew shifts timestamps to the collector clock at send time", async () => {
+    const collectorNow = Date.now() - 7_200_000;
+    globalThis.fetch = ((url: string | URL | Request, init?: RequestInit) => {
+      fetchCalls.push({ url: String(url), init: init! });
+      return Promise.resolve({
+        status: 202,
+        statusText: "Accepted",
+        headers: new Headers({ Date: new Date(collectorNow).toUTCString() }),
+      } as Response);
+    }) as typeof globalThis.fetch;
+    tell.configure(API_KEY, { botDetection: false, correctClockSkew: true });
+
+    // The context event teaches the SDK the offset; it goes out uncorrected
+    await tell.flush();
+    tell.track("Click");
+    await tell.flush();
+
+    const [context, click] = fetchCalls.map((c) => JSON.parse(c.init.body as string));
+    assert.equal(context.client_timestamp, undefined);
+    assert.equal(click.event, "Click");
+    assert.ok(Math.abs(click.timestamp - click.client_timestamp + 7_200_000) < 2000);
+  });
+
+  // --- Offline queue ---
+
+  describe("offlineQueue", () => {
+    beforeEach(() => {
+      setGlobal("indexedDB", new IDBFactory());
+      (navigator as any).onLine = false;
+    });
+
+    afterEach(() => {
+      restoreGlobal("indexedDB");
+    });
+
+    it("persists undelivered events and replays when back online", async () => {
+      tell.configure(API_KEY, { botDetection: false, offlineQueue: true, maxRetries: 0 });
+      let messageId: string | undefined;
+      tell.on("event", (event) => {
+        if (event.event === "Offline Click") messageId = event.message_id;
+      });
+      tell.track("Offline Click");
+      await tell.flush();
+      assert.equal(fetchCalls.length, 0);
+
+      (navigator as any).onLine = true;
+      (window as any).dispatchEvent("online");
+      await waitFor(() => fetchCalls.length > 0);
+
+      const bodies = fetchCalls.flatMap((c) =>
+        (c.init.body as string).split("\n").map((l) => JSON.parse(l))
+      );
+      const replayed = bodies.find((b: any) => b.event === "Offline Click");
+      assert.ok(replayed);
+      assert.ok(messageId);
+      assert.equal(replayed.message_id, messageId);
+    });
+
+    it("replays persisted events on the next configure", async () => {
+      tell.configure(API_KEY, { botDetection: false, offlineQueue: true, maxRetries: 0 });
+      tell.track("Queued Click");
+      await tell.close();
+      assert.equal(fetchCalls.length, 0);
+
+      (navigator as any).onLine = true;
+      tell.configure(API_KEY, { botDetection: false, offlineQueue: true });
+      await waitFor(() => fetchCalls.length > 0);
+
+      const bodies = fetchCalls.flatMap((c) =>
+        (c.init.body as string).split("\n").map((l) => JSON.parse(l))
+      );
+      assert.ok(bodies.find((b: any) => b.event === "Queued Click"));
+    });
+  });
 });
@@ -0,0 +1,111 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { IDBFactory } from "fake-indexeddb";
+import { OfflineQueue } from "../src/offline.js";
+import { setGlobal, restoreGlobal } from "./helpers.js";
+
+describe("OfflineQueue", () => {
+  beforeEach(() => {
+    setGlobal("indexedDB", new IDBFactory());
+  });
+
+  afterEach(() => {
+    restoreGlobal("indexedDB");
+  });
+
+  it("stores and returns events and logs", async () => {
+    const q = new OfflineQueue({ maxAge: 60_000, maxItems: 100 });
+    const now = Date.now();
+    await q.put(
+      [{ type: "track", event: "Click", device_id: "d", timestamp: now }],
+      [{ level: "info", message: "hello", timestamp: now }]
+    );
+
+    const batch = await q.takeAll();
+    assert.equal(batch.events.length, 1);
+    assert.equal(batch.events[0].event, "Click");
+    assert.equal(batch.logs.length, 1);
+    assert.equal(batch.logs[0].message, "hello");
+    await q.close();
+  });
+
+  it("takeAll empties the store", async () => {
+    const q = new OfflineQueue({ maxAge: 60_000, maxItems: 100 });
+    await q.put([{ type: "track", event: "A", device_id: "d" }], []);
+    await q.takeAll();
+
+    const second = await q.takeAll();
+    assert.equal(second.events.length, 0);
+    await q.close();
+  });
+
+  it("survives reopening the database", async () => {
+    const first = new OfflineQueue({ maxAge: 60_000, maxItems: 100 });
+    await first.put([{ type: "track", event: "A", device_id: "d" }], []);
+    await first.close();
+
+    const second = new OfflineQueue({ maxAge: 60_000, maxItems: 100 });
+    const batch = await second.takeAll();
+    assert.equal(batch.events.length, 1);
+    await second.close();
+  });
+
+  it("discards items older than maxAge", async () => {
+    const q = new OfflineQueue({ maxAge: 1_000, maxItems: 100 });
+    const realNow = Date.now;
+    Date.now = () => realNow() - 5_000;
+    try {
+      await q.put([{ type: "track", event: "Old", device_id: "d" }], []);
+    } finally {
+      Date.now = realNow;
+    }
+    await q.put([{ type: "track", event: "New", device_id: "d" }], []);
+
+    const batch = await q.takeAll();
+    assert.deepEqual(batch.events.map((e) => e.event), ["New"]);
+    await q.close();
+  });
+
+  it("ages items from their own timestamp, so replays that fail again still expire", async () => {
+    const q = new OfflineQueue({ maxAge: 1_000, maxItems: 100 });
+    const now = Date.now();
+    await q.put(
+      [
+        { type: "track", event: "Retried", device_id: "d", timestamp: now - 5_000 },
+        { type: "track", event: "Corrected", device_id: "d", timestamp: now, client_timestamp: now - 5_000 },
+        { type: "track", event: "Fresh", device_id: "d", timestamp: now },
+      ],
+      []
+    );
+
+    const batch = await q.takeAll();
+    assert.deepEqual(batch.events.map((e) => e.event), ["Fresh"]);
+    await q.close();
+  });
+
+  it("evicts oldest items beyond maxItems", async () => {
+    const q = new OfflineQueue({ maxAge: 60_000, maxItems: 2 });
+    await q.put(
+      [
+        { type: "track", event: "A", device_id: "d" },
+        { type: "track", event: "B", device_id: "d" },
+        { type: "track", event: "C", device_id: "d" },
+      ],
+      []
+    );
+
+    const batch = await q.takeAll();
+    assert.deepEqual(batch.events.map((e) => e.event), ["B", "C"]);
+    await q.close();
+  });
+
+  it("is a no-op when IndexedDB is unavailable", async () => {
+    restoreGlobal("indexedDB");
+    assert.equal(OfflineQueue.isSupported(), false);
+
+    const q = new OfflineQueue({ maxAge: 60_000, maxItems: 100 });
+    await q.put([{ type: "track", event: "A", device_id: "d" }], []);
+    const batch = await q.takeAll();
+    assert.equal(batch.events.length, 0);
+  });
+});
@@ -1,6 +1,8 @@
 import { describe, it, beforeEach, afterEach } from "node:test";
 import assert from "node:assert/strict";
+import { gunzipSync } from "node:zlib";
 import { BrowserTransport } from "../src/transport.js";
+import { CircuitBreaker, CircuitOpenError, ClockSkew } from "@tell-rs/core";
 import type { JsonEvent, JsonLog } from "@tell-rs/core";
 import { fetchCalls, resetFetchMock, mockFetch, setGlobal, restoreGlobal } from "./helpers.js";
 
@@ -152,6 +154,246 @@ describe("BrowserTransport", () => {
     assert.equal(callCount, 3);
   });
 
+  it("puts the same idempotency_key in the query string on every retry", async () => {
+    const urls: string[] = [];
+    globalThis.fetch = (async (url: string) => {
+      urls.push(url);
+      return (urls.length === 1
+        ? { status: 503, statusText: "Service Unavailable" }
+        : { status: 202, statusText: "Accepted" }) as Response;
+    }) as typeof globalThis.fetch;
+
+    const transport = new BrowserTransport({
+      endpoint: "https://collect.example.com",
+      apiKey: "feed1e11feed1e11feed1e11feed1e11",
+      maxRetries: 1,
+      networkTimeout: 10_000,
+    });
+
+    await transport.sendEvents([
+      { type: "track", event: "test", device_id: "d", timestamp: 1, message_id: "01J0000000000000000000000A" },
+    ]);
+
+    assert.equal(urls.length, 2);
+    assert.match(urls[0], /\?token=feed1e11feed1e11feed1e11feed1e11&idempotency_key=[0-9a-f]{32}&sent_at=\d+$/);
+    const key = (url: string) => new URL(url).searchParams.get("idempotency_key");
+    assert.equal(key(urls[1]), key(urls[0]));
+  });
+
+  it("stamps each attempt with sent_at and learns the collector clock from Date", async () => {
+    const urls: string[] = [];
+    const collectorNow = Date.now() + 3_600_000;
+    globalThis.fetch = (async (url: string) => {
+      urls.push(url);
+      return {
+        status: 202,
+        statusText: "Accepted",
+        headers: new Headers({ Date: new Date(collectorNow).toUTCString() }),
+      } as Response;
+    }) as typeof globalThis.fetch;
+
+    const clock = new ClockSkew();
+    const transport = new BrowserTransport({
+      endpoint: "https://collect.example.com",
+      apiKey: "feed1e11feed1e11feed1e11feed1e11",
+      maxRetries: 0,
+      networkTimeout: 10_000,
+      clock,
+    });
+
+    const before = Date.now();
+    await transport.sendEvents([{ type: "track", event: "test", device_id: "d", timestamp: 1 }]);
+
+    const sentAt = Number(new URL(urls[0]).searchParams.get("sent_at"));
+    assert.ok(sentAt >= before && sentAt <= Date.now());
+    assert.ok(Math.abs(clock.offset - 3_600_000) < 2000);
+  });
+
+  it("opens the circuit on 429 with a long Retry-After", async () => {
+    let callCount = 0;
+    globalThis.fetch = (async () => {
+      callCount++;
+      return {
+        status: 429,
+        statusText: "Too Many Requests",
+        headers: new Headers({ "Retry-After": "90" }),
+      } as Response;
+    }) as typeof globalThis.fetch;
+
+    const transport = new BrowserTransport({
+      endpoint: "https://collect.example.com",
+      apiKey: "feed1e11feed1e11feed1e11feed1e11",
+      maxRetries: 3,
+      networkTimeout: 10_000,
+      breaker: new CircuitBreaker({ threshold: 5, cooldown: 30_000 }),
+    });
+    const events: JsonEvent[] = [{ type: "track", event: "test", device_id: "d", timestamp: 1 }];
+
+    await assert.rejects(() => transport.sendEvents(events), CircuitOpenError);
+    await assert.rejects(() => transport.sendEvents(events), CircuitOpenError);
+    assert.equal(callCount, 1);
+  });
+
+  it("being offline does not trip the circuit", async () => {
+    setGlobal("navigator", { onLine: false, sendBeacon: () => true });
+    const breaker = new CircuitBreaker({ threshold: 1, cooldown: 30_000 });
+    const transport = new BrowserTransport({
+      endpoint: "https://collect.example.com",
+      apiKey: "feed1e11feed1e11feed1e11feed1e11",
+      maxRetries: 0,
+      networkTimeout: 10_000,
+      breaker,
+    });
+
+    assert.equal(await transport.sendEvents([{ type: "track", event: "test", device_id: "d", timestamp: 1 }]), false);
+    assert.equal(breaker.state, "closed");
+  });
+
+  it("fails over to the next endpoint and beacons to the one that answered", async () => {
+    globalThis.fetch = (async (url: string, init: RequestInit) => {
+      if (String(url).startsWith("https://primary")) throw new TypeError("Failed to fetch");
+      return mockFetch(url, init);
+    }) as typeof globalThis.fetch;
+    const beacons: string[] = [];
+    setGlobal("navigator", { onLine: true, sendBeacon: (url: string) => beacons.push(url) > 0 });
+    const breaker = new CircuitBreaker({ threshold: 1, cooldown: 30_000 });
+    const transport = new BrowserTransport({
+      endpoint: ["https://primary.example.com", "https://secondary.example.com"],
+      apiKey: "feed1e11feed1e11feed1e11feed1e11",
+      maxRetries: 2,
+      networkTimeout: 10_000,
+      breaker,
+    });
+    const events: JsonEvent[] = [{ type: "track", event: "test", device_id: "d", timestamp: 1 }];
+
+    assert.equal(await transport.sendEvents(events), true);
+    assert.equal(fetchCalls.length, 1);
+    assert.ok(fetchCalls[0].url.startsWith("https://secondary.example.com/v1/events?token="));
+    assert.equal(breaker.state, "closed");
+
+    transport.beacon(events, []);
+    assert.ok(beacons[0].startsWith("https://secondary.example.com/v1/events?token="));
+  });
+
+  it("does not fail over while offline", async () => {
+    setGlobal("navigator", { onLine: false, sendBeacon: () => true });
+    const switched: string[] = [];
+    const transport = new BrowserTransport({
+      endpoint: ["https://primary.example.com", "https://secondary.example.com"],
+      apiKey: "feed1e11feed1e11feed1e11feed1e11",
+      maxRetries: 0,
+      networkTimeout: 10_000,
+      onEndpointChange: (endpoint) => switched.push(endpoint),
+    });
+
+    assert.equal(await transport.sendEvents([{ type: "track", event: "test", device_id: "d", timestamp: 1 }]), false);
+    assert.equal(fetchCalls.length, 0);
+    assert.deepEqual(switched, []);
+  });
+
+  it("207 passes refused logs and reasons to onRejected", async () => {
+    globalThis.fetch = (async () => ({
+      status: 207,
+      statusText: "Multi-Status",
+      json: async () => ({ rejected: 1, errors: [{ index: 0, code: "message_too_long" }] }),
+    }) as Response) as typeof globalThis.fetch;
+
+    const calls: [unknown[], unknown[]][] = [];
+    const transport = new BrowserTransport({
+      endpoint: "https://collect.example.com",
+      apiKey: "feed1e11feed1e11feed1e11feed1e11",
+      maxRetries: 0,
+      networkTimeout: 10_000,
+      onRejected: (items, reasons) => calls.push([items, reasons]),
+    });
+    const logs: JsonLog[] = [{ level: "info", message: "x".repeat(100), timestamp: 1 }];
+
+    assert.equal(await transport.sendLogs(logs), true);
+    assert.deepEqual(calls, [[logs, [{ index: 0, code: "message_too_long" }]]]);
+  });
+
+  it("gzip compresses the body and says so in the query string", async () => {
+    const transport = new BrowserTransport({
+      endpoint: "https://collect.example.com",
+      apiKey: "feed1e11feed1e11feed1e11feed1e11",
+      maxRetries: 0,
+      networkTimeout: 10_000,
+      gzip: true,
+    });
+    const events: JsonEvent[] = Array.from({ length: 20 }, (_, i) => ({
+      type: "track",
+      event: "Page Viewed",
+      device_id: "d",
+      timestamp: i,
+      properties: { path: `/docs/${i}` },
+    }));
+
+    await transport.sendEvents(events);
+
+    const { url, init } = fetchCalls[0];
+    assert.ok(url.includes("&content_encoding=gzip&"));
+    // No Content-Encoding header: it would cost a CORS preflight
+    assert.deepEqual(init.headers, { "Content-Type": "text/plain" });
+    const lines = gunzipSync(init.body as Uint8Array).toString("utf8").split("\n");
+    assert.equal(JSON.parse(lines[19]).properties.path, "/docs/19");
+  });
+
+  it("gzip sends uncompressed without CompressionStream or when it does not help", async () => {
+    const transport = new BrowserTransport({
+      endpoint: "https://collect.example.com",
+      apiKey: "feed1e11feed1e11feed1e11feed1e11",
+      maxRetries: 0,
+      networkTimeout: 10_000,
+      gzip: true,
+    });
+    const events: JsonEvent[] = Array.from({ length: 20 }, (_, i) => ({ type: "track", event: "A", device_id: "d", timestamp: i }));
+
+    setGlobal("CompressionStream", undefined);
+    try {
+      await transport.sendEvents(events);
+    } finally {
+      restoreGlobal("CompressionStream");
+    }
+    await transport.sendLogs([{ level: "info", message: "x" }]);
+
+    for (const { url, init } of fetchCalls) {
+      assert.ok(!url.includes("content_encoding"));
+      assert.equal(typeof init.body, "string");
+    }
+  });
+
+  it("gzip compresses beacons synchronously", async () => {
+    const beaconCalls: { url: string; blob: Blob }[] = [];
+    setGlobal("navigator", {
+      onLine: true,
+      sendBeacon: (url: string, blob: Blob) => {
+        beaconCalls.push({ url, blob });
+        return true;
+      },
+    });
+    setGlobal("CompressionStream", undefined);
+    try {
+      const transport = new BrowserTransport({
+        endpoint: "https://collect.example.com",
+        apiKey: "feed1e11feed1e11feed1e11feed1e11",
+        maxRetries: 0,
+        networkTimeout: 10_000,
+        gzip: true,
+      });
+      const logs: JsonLog[] = Array.from({ length: 20 }, (_, i) => ({ level: "info", message: `Rendered page ${i}` }));
+      transport.beacon([], logs);
+    } finally {
+      restoreGlobal("CompressionStream");
+    }
+
+    assert.equal(beaconCalls.length, 1);
+    assert.ok(beaconCalls[0].url.includes("&content_encoding=gzip&"));
+    assert.equal(beaconCalls[0].blob.type, "text/plain");
+    const bytes = Buffer.from(await beaconCalls[0].blob.arrayBuffer());
+    const lines = gunzipSync(bytes).toString("utf8").split("\n");
+    assert.equal(JSON.parse(lines[19]).message, "Rendered page 19");
+  });
+
   it("beacon uses navigator.sendBeacon", () => {
     const beaconCalls: { url: string }[] = [];
     setGlobal("navigator", {
@@ -170,14 +412,17 @@ describe("BrowserTransport", () => {
     });
 
     transport.beacon(
-      [{ type: "track", event: "Click", device_id: "d", timestamp: 1 }],
+      [{ type: "track", event: "Click", device_id: "d", timestamp: 1, message_id: "01J0000000000000000000000A" }],
       [{ level: "info", message: "test", timestamp: 1 }]
     );
 
     assert.equal(beaconCalls.length, 2);
     assert.ok(beaconCalls[0].url.includes("/v1/events"));
     assert.ok(beaconCalls[0].url.includes("token="));
+    assert.ok(beaconCalls[0].url.includes("&idempotency_key="));
     assert.ok(beaconCalls[1].url.includes("/v1/logs"));
+    assert.ok(!beaconCalls[1].url.includes("idempotency_key"));
+    assert.ok(beaconCalls.every((c) => /&sent_at=\d+$/.test(c.url)));
   });
 
   it("skips fetch when offline", async () => {
@@ -205,4 +450,59 @@ describe("BrowserTransport", () => {
     assert.equal(errors.length, 1);
     assert.ok(errors[0].message.includes("offline"));
   });
+
+  it("resolves false for batches it could not deliver while offline", async () => {
+    setGlobal("navigator", { onLine: false });
+    const transport = new BrowserTransport({
+      endpoint: "https://collect.example.com",
+      apiKey: "feed1e11feed1e11feed1e11feed1e11",
+      maxRetries: 0,
+      networkTimeout: 10_000,
+    });
+
+    const answered = await transport.sendEvents([
+      { type: "track", event: "test", device_id: "d", timestamp: 1 },
+    ]);
+
+    assert.equal(answered, false);
+  });
+
+  it("resolves true when the server rejects the batch", async () => {
+    let fetchCount = 0;
+    globalThis.fetch = (async () => {
+      fetchCount++;
+      return { status: 400, statusText: "Bad Request" } as Response;
+    }) as typeof globalThis.fetch;
+
+    const transport = new BrowserTransport({
+      endpoint: "https://collect.example.com",
+      apiKey: "feed1e11feed1e11feed1e11feed1e11",
+      maxRetries: 0,
+      networkTimeout: 10_000,
+    });
+
+    const answered = await transport.sendLogs([{ level: "info", message: "test", timestamp: 1 }]);
+
+    assert.equal(fetchCount, 1);
+    assert.equal(answered, true);
+  });
+
+  it("flatten sends nested properties as dot-separated keys", async () => {
+    const transport = new BrowserTransport({
+      endpoint: "https://collect.example.com",
+      apiKey: "feed1e11feed1e11feed1e11feed1e11",
+      maxRetries: 0,
+      networkTimeout: 10_000,
+      flatten: true,
+    });
+
+    await transport.sendEvents([
+      { type: "track", event: "Click", device_id: "d", flags: ["beta"], cart: { id: "c1" } },
+    ]);
+
+    const parsed = JSON.parse(fetchCalls[0].init.body as string);
+    assert.equal(parsed["flags.0"], "beta");
+    assert.equal(parsed["cart.id"], "c1");
+    assert.equal(parsed.cart, undefined);
+  });
 });
@@ -0,0 +1,37 @@
+// Compile-time checks for typed tracking plans, run by `npm run typecheck`.
+// Each @ts-expect-error must match a type error, so looser typings fail the build.
+import tell, { type TellInstance } from "../../src/index.js";
+
+interface Plan {
+  "Order Completed": { order_id: string; amount: number; coupon?: string };
+  "Page Viewed": { path?: string };
+}
+
+const typed = tell as TellInstance<Plan>;
+
+typed.track("Order Completed", { order_id: "o_1", amount: 42 });
+typed.track("Order Completed", { order_id: "o_1", amount: 42, coupon: "SPRING" });
+typed.track("Page Viewed");
+typed.track("Page Viewed", { path: "/home" });
+
+// @ts-expect-error unknown event
+typed.track("Order Complete", { order_id: "o_1", amount: 42 });
+
+// @ts-expect-error misspelled property
+typed.track("Order Completed", { orderId: "o_1", amount: 42 });
+
+// @ts-expect-error missing required property
+typed.track("Order Completed", { order_id: "o_1" });
+
+// @ts-expect-error properties required when the event declares required ones
+typed.track("Order Completed");
+
+// @ts-expect-error excess property
+typed.track("Order Completed", { order_id: "o_1", amount: 42, extra: true });
+
+// @ts-expect-error wrong property type
+typed.track("Order Completed", { order_id: "o_1", amount: "42" });
+
+// The untyped singleton accepts any event name and properties
+tell.track("Anything", { nested: { ok: [1, "two"] } });
+tell.track("No Properties");
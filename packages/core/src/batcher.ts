@@ -1,13 +1,45 @@
+import { SerializationError } from "./errors.js";
+
 export interface BatcherConfig<T> {
   size: number;
   interval: number; // ms
   maxQueueSize: number;
+  /** Max serialized bytes per batch (NDJSON, newline included). Unlimited if unset. */
+  maxBatchBytes?: number;
   send: (items: T[]) => Promise<void>;
+  /** Priority items flush immediately and are never evicted in favour of normal items. */
+  isPriority?: (item: T) => boolean;
   onOverflow?: () => void;
+  onError?: (error: Error) => void;
+}
+
+interface Entry<T> {
+  item: T;
+  bytes: number; // serialized size, tracked only with maxBatchBytes
+  priority: boolean;
+  /** Set while an async beforeSend is running; the entry holds its place in line. */
+  pending: Promise<void> | null;
+}
+
+/** UTF-8 encoded length of a string, without relying on TextEncoder typings. */
+export function byteLength(str: string): number {
+  let bytes = 0;
+  for (let i = 0; i < str.length; i++) {
+    const code = str.charCodeAt(i);
+    if (code < 0x80) bytes += 1;
+    else if (code < 0x800) bytes += 2;
+    else if (code >= 0xd800 && code <= 0xdbff) {
+      bytes += 4; // surrogate pair — one 4-byte code point
+      i++;
+    } else bytes += 3;
+  }
+  return bytes;
 }
 
 export class Batcher<T> {
-  private queue: T[] = [];
+  private queue: Entry<T>[] = [];
+  private queuedBytes = 0;
+  private batchSize: number;
   private timer: ReturnType<typeof setInterval> | null = null;
   private closed = false;
   private flushing: Promise<void> | null = null;
@@ -15,6 +47,7 @@ export class Batcher<T> {
 
   constructor(config: BatcherConfig<T>) {
     this.config = config;
+    this.batchSize = config.size;
     this.timer = setInterval(() => {
       if (this.queue.length > 0) {
         this.flush().catch(() => {});
@@ -28,17 +61,78 @@ export class Batcher<T> {
 
   add(item: T): void {
     if (this.closed) return;
+    const entry = this.prepare(item);
+    if (entry) this.enqueue(entry);
+  }
+
+  /**
+   * Reserve a place for an item still being produced (an async beforeSend).
+   * Later items are not sent before it resolves; null removes the place.
+   */
+  addPending(pending: Promise<T | null>): void {
+    if (this.closed) return;
+    const placeholder: Entry<T> = { item: undefined as T, bytes: 0, priority: false, pending: null };
+    placeholder.pending = pending
+      .catch(() => null)
+      .then((item) => {
+        placeholder.pending = null;
+        const index = this.queue.indexOf(placeholder);
+        if (index === -1) return; // evicted by overflow meanwhile
+        const entry = item === null ? null : this.prepare(item);
+        if (!entry) {
+          this.queue.splice(index, 1);
+          return;
+        }
+        Object.assign(placeholder, entry);
+        this.queuedBytes += entry.bytes;
+        this.flushIfDue(entry.priority);
+      });
+    this.enqueue(placeholder);
+  }
 
+  /** Measure and classify an item; null if it can never be sent. */
+  private prepare(item: T): Entry<T> | null {
+    let bytes = 0;
+    if (this.config.maxBatchBytes !== undefined) {
+      try {
+        bytes = byteLength(JSON.stringify(item)) + 1; // + newline separator
+      } catch (err) {
+        this.reject(`item could not be serialized: ${err instanceof Error ? err.message : String(err)}`);
+        return null;
+      }
+      if (bytes > this.config.maxBatchBytes) {
+        this.reject(`item is ${bytes} bytes, exceeds maxBatchBytes of ${this.config.maxBatchBytes}`);
+        return null;
+      }
+    }
+
+    const priority = this.config.isPriority ? this.config.isPriority(item) : false;
+    return { item, bytes, priority, pending: null };
+  }
+
+  private enqueue(entry: Entry<T>): void {
     if (this.queue.length >= this.config.maxQueueSize) {
-      this.queue.shift(); // drop oldest
+      // Drop the oldest normal item; only evict priority items for another priority item
+      const victim = this.queue.findIndex((e) => !e.priority);
       if (this.config.onOverflow) {
         this.config.onOverflow();
       }
+      if (victim === -1 && !entry.priority) return;
+      const [dropped] = this.queue.splice(victim === -1 ? 0 : victim, 1);
+      this.queuedBytes -= dropped.bytes;
     }
 
-    this.queue.push(item);
+    this.queue.push(entry);
+    this.queuedBytes += entry.bytes;
+    if (!entry.pending) this.flushIfDue(entry.priority);
+  }
 
-    if (this.queue.length >= this.config.size) {
+  private flushIfDue(priority: boolean): void {
+    if (
+      priority ||
+      this.queue.length >= this.batchSize ||
+      (this.config.maxBatchBytes !== undefined && this.queuedBytes >= this.config.maxBatchBytes)
+    ) {
       this.flush().catch(() => {});
     }
   }
@@ -69,25 +163,69 @@ export class Batcher<T> {
     return this.queue.length;
   }
 
+  /** Remove and return every ready item. Items still in an async beforeSend stay queued. */
   drain(): T[] {
-    const items = this.queue;
-    this.queue = [];
-    return items;
+    const ready = this.queue.filter((e) => !e.pending);
+    this.queue = this.queue.filter((e) => e.pending);
+    this.queuedBytes = 0;
+    return ready.map((e) => e.item);
   }
 
+  /** Halve the batch size after a 413. Successful sends grow it back gradually. */
   halveBatchSize(): void {
-    this.config.size = Math.max(1, Math.floor(this.config.size / 2));
+    this.batchSize = Math.max(1, Math.floor(this.batchSize / 2));
+  }
+
+  private reject(message: string): void {
+    if (this.config.onError) {
+      this.config.onError(new SerializationError(message));
+    }
+  }
+
+  /** Number of leading queue items that fit within the size and byte limits. */
+  private nextBatchLength(): number {
+    let limit = Math.min(this.batchSize, this.queue.length);
+    // Never send past an item whose beforeSend has not resolved yet
+    const blocked = this.queue.findIndex((e, i) => i < limit && e.pending);
+    if (blocked !== -1) limit = blocked;
+    const maxBytes = this.config.maxBatchBytes;
+    if (maxBytes === undefined) return limit;
+
+    let bytes = 0;
+    let count = 0;
+    while (count < limit && (count === 0 || bytes + this.queue[count].bytes <= maxBytes)) {
+      bytes += this.queue[count].bytes;
+      count++;
+    }
+    return count;
   }
 
   private async doFlush(): Promise<void> {
-    while (this.queue.length > 0) {
-      const batch = this.queue.slice(0, this.config.size);
+    // Let queued async beforeSend hooks settle so flush() covers their items
+    const pending = this.queue.filter((e) => e.pending).map((e) => e.pending);
+    if (pending.length > 0) await Promise.all(pending);
+
+    while (this.queue.length > 0 && !this.queue[0].pending) {
+      const batch = this.queue.slice(0, this.nextBatchLength());
       try {
-        await this.config.send(batch);
-        this.queue.splice(0, batch.length); // remove only on success
+        await this.config.send(batch.map((e) => e.item));
+        // remove only on success — by identity, since overflow may have evicted meanwhile
+        const sent = new Set(batch);
+        this.queue = this.queue.filter((e) => {
+          if (!sent.has(e)) return true;
+          this.queuedBytes -= e.bytes;
+          return false;
+        });
       } catch {
         return; // items stay in queue (e.g. 413 — batch size already halved)
       }
+      // Additive recovery: regain a tenth of the configured size per delivered batch
+      if (this.batchSize < this.config.size) {
+        this.batchSize = Math.min(
+          this.config.size,
+          this.batchSize + Math.max(1, Math.floor(this.config.size / 10))
+        );
+      }
     }
   }
 }
@@ -1,23 +1,86 @@
+import { TellError } from "./errors.js";
+
 /**
  * A function that transforms or drops an item before it is queued.
- * Return the (possibly modified) item, or null to drop it.
+ * Return the (possibly modified) item, or null to drop it — directly or
+ * as a Promise.
  */
-export type BeforeSendFn<T> = (item: T) => T | null;
+export type BeforeSendFn<T> = (item: T) => T | null | Promise<T | null>;
+
+export interface BeforeSendOptions {
+  /** Max ms to wait for async hooks. No limit if unset. */
+  timeout?: number;
+  /** What happens to the item when async hooks time out or reject. Default "drop". */
+  onTimeout?: "drop" | "send";
+  /** Receives timeouts and rejections of async hooks. */
+  onError?: (error: Error) => void;
+}
+
+function isPromiseLike<T>(value: unknown): value is PromiseLike<T> {
+  return typeof (value as PromiseLike<T> | null)?.then === "function";
+}
+
+async function continueAsync<T>(pending: PromiseLike<T | null>, rest: BeforeSendFn<T>[]): Promise<T | null> {
+  let current = await pending;
+  for (const fn of rest) {
+    if (current === null) return null;
+    current = await fn(current);
+  }
+  return current;
+}
+
+/** Resolve to the pipeline result, or to the fallback once the timeout passes or a hook rejects. */
+function settle<T>(item: T, pending: Promise<T | null>, options: BeforeSendOptions): Promise<T | null> {
+  const fallback = (error: Error): T | null => {
+    if (options.onError) options.onError(error);
+    return options.onTimeout === "send" ? item : null;
+  };
+  const toError = (err: unknown) => (err instanceof Error ? err : new TellError(String(err)));
+
+  if (options.timeout === undefined) {
+    return pending.catch((err) => fallback(toError(err)));
+  }
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => {
+      resolve(fallback(new TellError(`beforeSend timed out after ${options.timeout}ms`)));
+    }, options.timeout);
+
+    pending.then(
+      (result) => {
+        clearTimeout(timer);
+        resolve(result);
+      },
+      (err) => {
+        clearTimeout(timer);
+        resolve(fallback(toError(err)));
+      },
+    );
+  });
+}
 
 /**
  * Run an item through a pipeline of beforeSend functions.
  * Returns the transformed item, or null if any function in the chain drops it.
+ *
+ * Stays synchronous while every function returns synchronously; from the
+ * first function that returns a Promise on, the result is a Promise that
+ * applies `options.timeout` and never rejects.
  */
 export function runBeforeSend<T>(
   item: T,
-  fns: BeforeSendFn<T> | BeforeSendFn<T>[]
-): T | null {
+  fns: BeforeSendFn<T> | BeforeSendFn<T>[],
+  options: BeforeSendOptions = {}
+): T | null | Promise<T | null> {
   const pipeline = Array.isArray(fns) ? fns : [fns];
   let current: T | null = item;
 
-  for (const fn of pipeline) {
+  for (let i = 0; i < pipeline.length; i++) {
     if (current === null) return null;
-    current = fn(current);
+    const result: T | null | Promise<T | null> = pipeline[i](current);
+    if (isPromiseLike<T | null>(result)) {
+      return settle(item, continueAsync(result, pipeline.slice(i + 1)), options);
+    }
+    current = result;
   }
 
   return current;
@@ -0,0 +1,75 @@
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreakerConfig {
+  /** Consecutive failed sends before the circuit opens. 0 disables; Retry-After pauses still apply. */
+  threshold: number;
+  /** Ms an open circuit waits before letting a probe through. */
+  cooldown: number;
+  onStateChange?: (state: CircuitState) => void;
+}
+
+/**
+ * Stops sending after repeated failures so an outage is not made worse.
+ *
+ * While open, every send is refused until the cooldown (or a longer
+ * server-sent Retry-After) has passed. Then one probe is let through: success
+ * closes the circuit, failure opens it again. Share one breaker between the
+ * event and log paths of a client.
+ */
+export class CircuitBreaker {
+  private readonly config: CircuitBreakerConfig;
+  private failures = 0;
+  private openUntil = 0;
+  private current: CircuitState = "closed";
+
+  constructor(config: CircuitBreakerConfig) {
+    this.config = config;
+  }
+
+  get state(): CircuitState {
+    return this.current;
+  }
+
+  /** Whether a request may be sent now. Admits a single probe once an open circuit has cooled down. */
+  allow(now: number = Date.now()): boolean {
+    if (this.current === "closed") return true;
+    if (this.current === "half-open" || now < this.openUntil) return false;
+    this.transition("half-open");
+    return true;
+  }
+
+  /** Ms until `allow()` admits a probe; 0 unless the circuit is open. */
+  retryIn(now: number = Date.now()): number {
+    return this.current === "open" ? Math.max(0, this.openUntil - now) : 0;
+  }
+
+  /** The collector answered. */
+  success(): void {
+    this.failures = 0;
+    this.openUntil = 0;
+    if (this.current !== "closed") this.transition("closed");
+  }
+
+  /** A send failed without an answer from the collector. */
+  failure(now: number = Date.now()): void {
+    this.failures++;
+    const tripped = this.config.threshold > 0 && this.failures >= this.config.threshold;
+    if (this.current === "half-open" || tripped) this.open(this.config.cooldown, now);
+  }
+
+  /** The collector asked to back off (429/503 with Retry-After): open for at least `ms`. */
+  pause(ms: number, now: number = Date.now()): void {
+    this.failures++;
+    this.open(ms, now);
+  }
+
+  private open(ms: number, now: number): void {
+    this.openUntil = Math.max(this.openUntil, now + ms);
+    if (this.current !== "open") this.transition("open");
+  }
+
+  private transition(state: CircuitState): void {
+    this.current = state;
+    if (this.config.onStateChange) this.config.onStateChange(state);
+  }
+}
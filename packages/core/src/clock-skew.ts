@@ -0,0 +1,63 @@
+import type { JsonEvent, JsonLog } from "./types.js";
+
+export interface ClockSkewConfig {
+  /** Offsets smaller than this many ms are treated as no skew. Default 2000. */
+  threshold?: number;
+  /** Called when the estimated offset changes. */
+  onChange?: (offset: number) => void;
+}
+
+// Responses slower than this say too little about when the server stamped its Date
+const MAX_ROUND_TRIP = 10_000;
+
+/**
+ * Estimates how far the local clock is from the collector's, from the `Date`
+ * header of its responses, and corrects item timestamps by that much. Share
+ * one between the event and log paths of a client.
+ *
+ * `Date` has one-second resolution, so the server time is taken as the
+ * middle of that second and compared with the middle of the request; skew
+ * under `threshold` is ignored.
+ */
+export class ClockSkew {
+  private readonly threshold: number;
+  private readonly onChange?: (offset: number) => void;
+  private current = 0;
+
+  constructor(config: ClockSkewConfig = {}) {
+    this.threshold = config.threshold ?? 2000;
+    this.onChange = config.onChange;
+  }
+
+  /** Ms to add to a local time to get collector time; 0 until a response shows otherwise. */
+  get offset(): number {
+    return this.current;
+  }
+
+  /** Learn from a response's `Date` header; `sentAt` and `receivedAt` are local times around the request. */
+  observe(date: string | null | undefined, sentAt: number, receivedAt: number): void {
+    if (!date || receivedAt - sentAt > MAX_ROUND_TRIP) return;
+    const server = Date.parse(date);
+    if (!Number.isFinite(server)) return;
+    const measured = Math.round(server + 500 - (sentAt + receivedAt) / 2);
+    const offset = Math.abs(measured) < this.threshold ? 0 : measured;
+    if (offset === this.current) return;
+    this.current = offset;
+    if (this.onChange) this.onChange(offset);
+  }
+
+  /**
+   * Copies of `items` with `timestamp` moved to collector time and the
+   * original kept as `client_timestamp`. Items corrected before, or without
+   * a timestamp, pass through; with no skew the array is returned as is.
+   */
+  correct<T extends JsonEvent | JsonLog>(items: T[]): T[] {
+    const offset = this.current;
+    if (offset === 0) return items;
+    return items.map((item) =>
+      item.timestamp === undefined || item.client_timestamp !== undefined
+        ? item
+        : { ...item, timestamp: item.timestamp + offset, client_timestamp: item.timestamp }
+    );
+  }
+}
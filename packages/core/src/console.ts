@@ -0,0 +1,27 @@
+import type { JsonEvent, JsonLog, Properties } from "./types.js";
+
+// Protocol fields shown in the summary line rather than with the properties
+const ENVELOPE = new Set(["type", "event", "service", "device_id", "session_id", "user_id", "group_id", "timestamp", "client_timestamp", "message_id"]);
+
+/** One-line summary of an event, e.g. `track "Page Viewed" user=u_1`. */
+export function describeEvent(event: JsonEvent): string {
+  let line = event.type;
+  if (event.event !== undefined) line += ` "${event.event}"`;
+  if (event.user_id !== undefined) line += ` user=${event.user_id}`;
+  if (event.group_id !== undefined) line += ` group=${event.group_id}`;
+  return line;
+}
+
+/** The user data of an event: everything but the protocol fields. */
+export function eventProperties(event: JsonEvent): Properties {
+  const properties: Properties = {};
+  for (const [key, value] of Object.entries(event)) {
+    if (!ENVELOPE.has(key) && value !== undefined) properties[key] = value;
+  }
+  return properties;
+}
+
+/** One-line summary of a log, e.g. `[warning] disk almost full`. */
+export function describeLog(log: JsonLog): string {
+  return `[${log.level}] ${log.message}`;
+}
@@ -0,0 +1,191 @@
+import { Batcher } from "./batcher.js";
+import { runBeforeSend, type BeforeSendFn, type BeforeSendOptions } from "./before-send.js";
+import type { ClockSkew } from "./clock-skew.js";
+import { CircuitOpenError, NetworkError } from "./errors.js";
+import type { StatsKind, StatsRecorder, TellStats } from "./stats.js";
+import type { Transport } from "./transport.js";
+import type { JsonEvent, JsonLog } from "./types.js";
+
+/** An extra place every event and log is delivered to, next to the main endpoint. */
+export interface DestinationOptions {
+  /** Key in `stats().destinations` and debug output. Defaults to the first endpoint, or "destination N" with a custom transport. */
+  name?: string;
+  /** Collector URL, or a list tried in order when one is down. Defaults to the main `endpoint`. */
+  endpoint?: string | string[];
+  /** Defaults to the main API key. */
+  apiKey?: string;
+  /** Deliver through this instead of HTTP, e.g. to a local archive. */
+  transport?: Transport;
+  /** Runs after the main hooks, on a copy, for this destination only; return null to skip an event here. */
+  beforeSend?: BeforeSendFn<JsonEvent> | BeforeSendFn<JsonEvent>[];
+  /** Runs after the main hooks, on a copy, for this destination only; return null to skip a log here. */
+  beforeSendLog?: BeforeSendFn<JsonLog> | BeforeSendFn<JsonLog>[];
+  /** Defaults to the main `batchSize`. */
+  batchSize?: number;
+  /** Defaults to the main `flushInterval`. */
+  flushInterval?: number;
+  /** Defaults to the main `maxQueueSize`. */
+  maxQueueSize?: number;
+  /** Defaults to the main `maxBatchBytes`. */
+  maxBatchBytes?: number;
+}
+
+export interface DestinationConfig {
+  name: string;
+  transport: Transport;
+  /** True when the transport records sent items in `stats` itself, as the built-in HTTP transports do. */
+  countsSent?: boolean;
+  /** This destination's own counters; share it with its transport. */
+  stats: StatsRecorder;
+  beforeSend?: BeforeSendFn<JsonEvent>[];
+  beforeSendLog?: BeforeSendFn<JsonLog>[];
+  beforeSendOptions?: BeforeSendOptions;
+  batchSize: number;
+  flushInterval: number;
+  maxQueueSize: number;
+  maxBatchBytes: number;
+  /** Corrects timestamps at send time, as for the main endpoint. */
+  clock?: ClockSkew | null;
+  /** Receives validation errors and errors thrown by a custom transport. */
+  onError: (error: Error) => void;
+  debug?: (message: string) => void;
+}
+
+/**
+ * One extra delivery target of a client, with its own hooks, queues,
+ * transport and counters, so a slow or failing destination cannot hold up
+ * the main endpoint or the other destinations. The SDK hands it every item
+ * once the main hooks have run.
+ */
+export class Destination {
+  readonly name: string;
+  private readonly config: DestinationConfig;
+  private readonly events: Batcher<JsonEvent>;
+  private readonly logs: Batcher<JsonLog>;
+
+  constructor(config: DestinationConfig) {
+    this.name = config.name;
+    this.config = config;
+    this.events = this.createBatcher<JsonEvent>("events");
+    this.logs = this.createBatcher<JsonLog>("logs");
+  }
+
+  addEvent(event: JsonEvent): void {
+    this.enqueue("events", this.events, event, this.config.beforeSend);
+  }
+
+  addLog(log: JsonLog): void {
+    this.enqueue("logs", this.logs, log, this.config.beforeSendLog);
+  }
+
+  stats(): TellStats {
+    return this.config.stats.snapshot({ events: this.events.pending, logs: this.logs.pending });
+  }
+
+  async flush(): Promise<void> {
+    await Promise.all([this.events.flush(), this.logs.flush()]);
+  }
+
+  async close(): Promise<void> {
+    await Promise.all([this.events.close(), this.logs.close()]);
+    await this.config.transport.close();
+  }
+
+  /** Drop everything queued and stop the flush timers, without sending. */
+  discard(): void {
+    this.events.drain();
+    this.logs.drain();
+    this.events.close().catch(() => {});
+    this.logs.close().catch(() => {});
+  }
+
+  /** Page unload: hand everything queued to the transport's beacon, or start sends without waiting. */
+  unload(): void {
+    const events = this.corrected(this.events.drain());
+    const logs = this.corrected(this.logs.drain());
+    const transport = this.config.transport;
+    if (transport.beacon) {
+      transport.beacon(events, logs);
+      return;
+    }
+    transport.sendEvents(events).catch(() => {});
+    transport.sendLogs(logs).catch(() => {});
+  }
+
+  private createBatcher<T extends JsonEvent | JsonLog>(kind: StatsKind): Batcher<T> {
+    const { stats } = this.config;
+    return new Batcher<T>({
+      size: this.config.batchSize,
+      interval: this.config.flushInterval,
+      maxQueueSize: this.config.maxQueueSize,
+      maxBatchBytes: this.config.maxBatchBytes,
+      send: (items) => this.send(kind, items),
+      onOverflow: () => {
+        stats.dropped(kind, "overflow");
+        this.debug(`${kind} queue overflow, dropping oldest item`);
+      },
+      onError: (err) => {
+        stats.dropped(kind, "validation");
+        this.config.onError(err);
+      },
+    });
+  }
+
+  private enqueue<T extends JsonEvent | JsonLog>(
+    kind: StatsKind,
+    batcher: Batcher<T>,
+    item: T,
+    hooks: BeforeSendFn<T>[] | undefined
+  ): void {
+    const { stats } = this.config;
+    stats.enqueued(kind);
+    // A copy, so these hooks cannot change what the main endpoint and other destinations send
+    const result = hooks && hooks.length > 0 ? runBeforeSend(structuredClone(item), hooks, this.config.beforeSendOptions) : item;
+    if (result === null) {
+      stats.dropped(kind, "beforeSend");
+      return;
+    }
+    if (result instanceof Promise) {
+      batcher.addPending(
+        result.then((resolved) => {
+          if (resolved === null) stats.dropped(kind, "beforeSend");
+          return resolved;
+        })
+      );
+    } else {
+      batcher.add(result);
+    }
+  }
+
+  private async send<T extends JsonEvent | JsonLog>(kind: StatsKind, items: T[]): Promise<void> {
+    const { transport, stats } = this.config;
+    const batch = this.corrected(items);
+    try {
+      const delivered =
+        kind === "events" ? await transport.sendEvents(batch as JsonEvent[]) : await transport.sendLogs(batch as JsonLog[]);
+      if (!delivered) stats.dropped(kind, "retriesExhausted", items.length);
+      else if (!this.config.countsSent) stats.sent(kind, items.length);
+    } catch (err) {
+      if (err instanceof CircuitOpenError) {
+        this.debug(`${err.message}, keeping ${items.length} ${kind} queued`);
+      } else if (err instanceof NetworkError && err.statusCode === 413) {
+        this.events.halveBatchSize();
+        this.logs.halveBatchSize();
+        this.debug("413 received, halved batch size");
+      } else if (err instanceof Error) {
+        // Custom transports report failures by throwing; the batch stays queued
+        this.config.onError(err);
+      }
+      throw err;
+    }
+  }
+
+  /** Corrected copies at send time; queued items keep the client clock. */
+  private corrected<T extends JsonEvent | JsonLog>(items: T[]): T[] {
+    return this.config.clock ? this.config.clock.correct(items) : items;
+  }
+
+  private debug(message: string): void {
+    if (this.config.debug) this.config.debug(`destination "${this.name}": ${message}`);
+  }
+}
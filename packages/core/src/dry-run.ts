@@ -0,0 +1,31 @@
+import type { Transport } from "./transport.js";
+import type { JsonEvent, JsonLog } from "./types.js";
+
+export interface DryRunTransportConfig {
+  /** Receives one line per batch, e.g. the SDK's debug logger. */
+  log?: (message: string) => void;
+}
+
+/**
+ * Accepts every batch without sending it, so the full pipeline — validation,
+ * hooks, batching — runs with no collector. Used by the `dryRun` option.
+ */
+export class DryRunTransport implements Transport {
+  private readonly log?: (message: string) => void;
+
+  constructor(config: DryRunTransportConfig = {}) {
+    this.log = config.log;
+  }
+
+  async sendEvents(events: JsonEvent[]): Promise<boolean> {
+    if (this.log && events.length > 0) this.log(`dry run: would send ${events.length} events`);
+    return true;
+  }
+
+  async sendLogs(logs: JsonLog[]): Promise<boolean> {
+    if (this.log && logs.length > 0) this.log(`dry run: would send ${logs.length} logs`);
+    return true;
+  }
+
+  async close(): Promise<void> {}
+}
@@ -0,0 +1,98 @@
+import type { SentBatch, SendResult } from "./plugin.js";
+import type { DropReason, StatsKind } from "./stats.js";
+import type { JsonEvent, JsonLog } from "./types.js";
+
+/** Items that were dropped, as counted in `tell.stats()`. */
+export interface DropInfo {
+  kind: StatsKind;
+  reason: DropReason;
+  count: number;
+}
+
+/** A batch handed to the transport (or node spool), and how it went. */
+export type FlushInfo = SentBatch & SendResult;
+
+export interface SessionInfo {
+  sessionId: string;
+  /** `reset` for `reset()` (browser) and `resetSession()` (node). */
+  reason: "session_start" | "session_timeout" | "reset";
+}
+
+/** Payload passed to `tell.on(name, listener)` for each name. */
+export interface TellEventMap {
+  /** An event as it enters the queue, after every beforeSend hook. */
+  event: JsonEvent;
+  /** A log as it enters the queue, after every beforeSendLog hook. */
+  log: JsonLog;
+  flush: FlushInfo;
+  /** Everything passed to `onError`. */
+  error: Error;
+  drop: DropInfo;
+  session: SessionInfo;
+}
+
+export type TellEventName = keyof TellEventMap;
+
+/**
+ * Receives the item the SDK will send — treat it as read-only. A listener
+ * that throws or rejects is skipped; delivery carries on.
+ */
+export type TellListener<K extends TellEventName> = (payload: TellEventMap[K]) => void | Promise<void>;
+
+export interface EmitterConfig {
+  /** Called when a listener throws or its Promise rejects. */
+  onListenerError?: (error: unknown, name: TellEventName) => void;
+}
+
+/** In-process event bus behind `tell.on()`. */
+export class Emitter {
+  private readonly listeners = new Map<TellEventName, Set<TellListener<any>>>();
+  private readonly onListenerError?: (error: unknown, name: TellEventName) => void;
+
+  constructor(config: EmitterConfig = {}) {
+    this.onListenerError = config.onListenerError;
+  }
+
+  /** Subscribe to `name`; returns a function that unsubscribes. */
+  on<K extends TellEventName>(name: K, listener: TellListener<K>): () => void {
+    let set = this.listeners.get(name);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(name, set);
+    }
+    set.add(listener);
+    return () => this.off(name, listener);
+  }
+
+  off<K extends TellEventName>(name: K, listener: TellListener<K>): void {
+    this.listeners.get(name)?.delete(listener);
+  }
+
+  emit<K extends TellEventName>(name: K, payload: TellEventMap[K]): void {
+    const set = this.listeners.get(name);
+    if (!set || set.size === 0) return;
+    // Copy so listeners can unsubscribe while being called
+    for (const listener of [...set]) {
+      try {
+        const result = listener(payload);
+        if (result && typeof result.then === "function") {
+          result.then(undefined, (err) => this.listenerFailed(err, name));
+        }
+      } catch (err) {
+        this.listenerFailed(err, name);
+      }
+    }
+  }
+
+  clear(): void {
+    this.listeners.clear();
+  }
+
+  private listenerFailed(err: unknown, name: TellEventName): void {
+    if (!this.onListenerError) return;
+    // The error hook must not break delivery either
+    try {
+      this.onListenerError(err, name);
+    } catch {}
+  }
+}
@@ -32,6 +32,18 @@ export class NetworkError extends TellError {
   }
 }
 
+/** Thrown by transports while the circuit breaker is open; the batch stays queued. */
+export class CircuitOpenError extends NetworkError {
+  /** Ms until the circuit lets a probe request through. */
+  public readonly retryIn: number;
+
+  constructor(retryIn: number) {
+    super(`Circuit open, next attempt in ${Math.ceil(retryIn / 1000)}s`);
+    this.name = "CircuitOpenError";
+    this.retryIn = retryIn;
+  }
+}
+
 export class ClosedError extends TellError {
   constructor() {
     super("Client is closed");
@@ -0,0 +1,55 @@
+import { ConfigurationError } from "./errors.js";
+
+export interface FailoverConfig {
+  /** Ms spent on a secondary endpoint before the ones before it are tried again. Default 60000. */
+  failbackInterval?: number;
+  /** Called when sends move to another endpoint. */
+  onSwitch?: (endpoint: string) => void;
+}
+
+/**
+ * Chooses which of a transport's endpoints to send to. Sends go to the
+ * endpoint that answered last, moving down the list when it does not; once
+ * on a secondary, the earlier endpoints get another try every
+ * `failbackInterval`, with a single attempt each.
+ */
+export class Failover {
+  readonly endpoints: string[];
+  private readonly failbackInterval: number;
+  private readonly onSwitch?: (endpoint: string) => void;
+  private active = 0;
+  private failbackAt = 0;
+
+  constructor(endpoint: string | string[], config: FailoverConfig = {}) {
+    this.endpoints = [endpoint].flat();
+    if (this.endpoints.length === 0) throw new ConfigurationError("endpoint list is empty");
+    this.failbackInterval = config.failbackInterval ?? 60_000;
+    this.onSwitch = config.onSwitch;
+  }
+
+  /** The endpoint sends currently start at. */
+  get current(): string {
+    return this.endpoints[this.active];
+  }
+
+  /** Endpoint indexes to try for the next send, in order. */
+  order(now: number = Date.now()): number[] {
+    const first = this.active > 0 && now >= this.failbackAt ? 0 : this.active;
+    const rest = this.endpoints.map((_, i) => i).filter((i) => i !== first);
+    return [first, ...rest];
+  }
+
+  /** An endpoint before the active one, tried again while it may still be down; it gets one attempt. */
+  probing(index: number): boolean {
+    return index < this.active;
+  }
+
+  /** Record that the endpoint at `index` answered; later sends start there. */
+  answered(index: number, now: number = Date.now()): void {
+    // Also after a failed probe, so the earlier endpoints wait another interval
+    if (index > 0 && (index !== this.active || now >= this.failbackAt)) this.failbackAt = now + this.failbackInterval;
+    if (index === this.active) return;
+    this.active = index;
+    if (this.onSwitch) this.onSwitch(this.endpoints[index]);
+  }
+}
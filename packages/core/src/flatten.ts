@@ -0,0 +1,38 @@
+import type { JsonEvent, JsonLog, Properties, PropertyValue } from "./types.js";
+
+type Scalar = string | number | boolean | null | undefined;
+
+function flattenInto(
+  out: Record<string, Scalar>,
+  prefix: string,
+  value: PropertyValue
+): void {
+  if (value === null || typeof value !== "object") {
+    out[prefix] = value;
+    return;
+  }
+  for (const [key, child] of Object.entries(value)) {
+    flattenInto(out, prefix ? `${prefix}.${key}` : key, child);
+  }
+}
+
+/**
+ * Flatten nested objects and arrays into dot-separated keys,
+ * e.g. `{ cart: { items: [{ sku: "A" }] } }` → `{ "cart.items.0.sku": "A" }`.
+ * Empty objects and arrays produce no keys.
+ */
+export function flattenProperties(props: Properties): Properties {
+  const out: Record<string, Scalar> = {};
+  flattenInto(out, "", props);
+  return out;
+}
+
+/** Flatten an event's properties. Protocol fields are scalars and pass through. */
+export function flattenEvent(event: JsonEvent): JsonEvent {
+  return flattenProperties(event) as JsonEvent;
+}
+
+/** Flatten a log entry's `data`. */
+export function flattenLog(log: JsonLog): JsonLog {
+  return log.data ? { ...log, data: flattenProperties(log.data) } : log;
+}
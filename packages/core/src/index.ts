@@ -1,11 +1,46 @@
 // @tell-rs/core — shared internals for @tell-rs/node and @tell-rs/browser
 // This package is private and never published to npm.
 
-export type { Properties, EventType, LogLevel, JsonEvent, JsonLog } from "./types.js";
-export type { BeforeSendFn } from "./before-send.js";
+export type { Properties, PropertyValue, EventType, LogLevel, JsonEvent, JsonLog } from "./types.js";
+export type { UntypedEvents, EventKey, TrackArgs } from "./types.js";
+export type { BeforeSendFn, BeforeSendOptions } from "./before-send.js";
 export { Events, type EventName } from "./constants.js";
-export { TellError, ConfigurationError, ValidationError, NetworkError, ClosedError, SerializationError } from "./errors.js";
-export { validateApiKey, validateEventName, validateLogMessage, validateUserId } from "./validation.js";
-export { Batcher, type BatcherConfig } from "./batcher.js";
+export { TellError, ConfigurationError, ValidationError, NetworkError, CircuitOpenError, ClosedError, SerializationError } from "./errors.js";
+export { validateApiKey, validateEventName, validateLogMessage, validateUserId, validateProperties } from "./validation.js";
+export { Batcher, byteLength, type BatcherConfig } from "./batcher.js";
+export { Suppressor, type SuppressorConfig } from "./suppressor.js";
+export { StatsRecorder, statsToProperties, type StatsRecorderConfig, type TellStats, type PipelineStats, type DropReason, type StatsKind } from "./stats.js";
+export {
+  Emitter,
+  type EmitterConfig,
+  type TellEventMap,
+  type TellEventName,
+  type TellListener,
+  type DropInfo,
+  type FlushInfo,
+  type SessionInfo,
+} from "./emitter.js";
+export type { TellPlugin, SentBatch, SendResult } from "./plugin.js";
+export type { Transport, CollectorResponse, ResponseHandlers, RejectionReason, RejectedItem } from "./transport.js";
+export { handleResponse, parsePartialSuccess, retryAfter, retryDelay, encodeEvents, encodeLogs } from "./transport.js";
+export { messageId, idempotencyKey } from "./message-id.js";
+export { ClockSkew, type ClockSkewConfig } from "./clock-skew.js";
+export { CircuitBreaker, type CircuitBreakerConfig, type CircuitState } from "./circuit-breaker.js";
+export { Failover, type FailoverConfig } from "./failover.js";
+export { Destination, type DestinationConfig, type DestinationOptions } from "./destination.js";
+export { DryRunTransport, type DryRunTransportConfig } from "./dry-run.js";
+export { describeEvent, describeLog, eventProperties } from "./console.js";
 export { runBeforeSend } from "./before-send.js";
+export { flattenProperties, flattenEvent, flattenLog } from "./flatten.js";
 export { redact, redactLog, SENSITIVE_PARAMS, type RedactOptions } from "./redact.js";
+export type { PiiOptions, PiiDetector, PiiAction } from "./pii.js";
+export {
+  enforceTrackingPlan,
+  type TrackingPlan,
+  type TrackingPlanMode,
+  type TrackingPlanOptions,
+  type EventSchema,
+  type PropertySchema,
+  type PropertyType,
+} from "./tracking-plan.js";
+export { sampleEvents, sampleLogs, type SamplingOptions } from "./sampling.js";
@@ -0,0 +1,73 @@
+import { sha256 } from "./sha256.js";
+import type { JsonEvent, JsonLog } from "./types.js";
+
+// Crockford base32, as used by ULIDs: no I, L, O or U
+const ALPHABET = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+const RANDOM_LENGTH = 16;
+
+// Web Crypto is global in browsers and Node 19+; core is built without DOM types
+const webCrypto = (globalThis as { crypto?: { getRandomValues(array: Uint8Array): Uint8Array } }).crypto;
+
+let lastTime = -1;
+let lastRandom: number[] = [];
+
+function randomDigits(): number[] {
+  const digits: number[] = [];
+  if (webCrypto?.getRandomValues) {
+    const bytes = webCrypto.getRandomValues(new Uint8Array(RANDOM_LENGTH));
+    for (const b of bytes) digits.push(b & 31);
+    return digits;
+  }
+  for (let i = 0; i < RANDOM_LENGTH; i++) digits.push((Math.random() * 32) | 0);
+  return digits;
+}
+
+/** Add one to the random part; false when it wraps around. */
+function increment(digits: number[]): boolean {
+  for (let i = digits.length - 1; i >= 0; i--) {
+    if (digits[i] < 31) {
+      digits[i]++;
+      return true;
+    }
+    digits[i] = 0;
+  }
+  return false;
+}
+
+/**
+ * A ULID: 10 characters of millisecond time then 16 random ones, so ids sort
+ * by creation time. Ids from the same millisecond — or after the clock
+ * steps back — increment the previous one and still sort in call order.
+ */
+export function messageId(now: number = Date.now()): string {
+  if (now > lastTime) {
+    lastTime = now;
+    lastRandom = randomDigits();
+  } else if (!increment(lastRandom)) {
+    lastTime++;
+    lastRandom = randomDigits();
+  }
+
+  let time = "";
+  let t = lastTime;
+  for (let i = 0; i < 10; i++) {
+    time = ALPHABET[t % 32] + time;
+    t = Math.floor(t / 32);
+  }
+  return time + lastRandom.map((d) => ALPHABET[d]).join("");
+}
+
+/**
+ * Idempotency key for a batch, derived from its items' message ids: a batch
+ * that is retried or replayed with the same items sends the same key.
+ * Undefined when an item has no message id, since the key could then
+ * collide with an unrelated batch.
+ */
+export function idempotencyKey(items: readonly (JsonEvent | JsonLog)[]): string | undefined {
+  const ids: string[] = [];
+  for (const item of items) {
+    if (typeof item.message_id !== "string") return undefined;
+    ids.push(item.message_id);
+  }
+  return sha256(ids.join("\n")).slice(0, 32);
+}
@@ -0,0 +1,132 @@
+import { sha256 } from "./sha256.js";
+
+export type PiiDetector =
+  | "email"
+  | "credit_card"
+  | "iban"
+  | "phone"
+  | "ip"
+  | "jwt"
+  | "bearer"
+  | "aws_key";
+
+/**
+ * What replaces a detected value:
+ * - `"mask"` — a placeholder such as `[EMAIL]` (`[REDACTED]` for custom patterns)
+ * - `"hash"` — hex SHA-256 of the match (emails lowercased first), so values can still be joined
+ * - `"drop"` — remove the whole property or array element containing the match
+ */
+export type PiiAction = "mask" | "hash" | "drop";
+
+export interface PiiOptions {
+  /** Built-in detectors to run. Defaults to all but `ip`, which is opt-in because IP-shaped ids and versions are common. */
+  detectors?: PiiDetector[];
+  /** Extra patterns, matched after the built-in detectors. */
+  patterns?: RegExp[];
+  action?: PiiAction;
+}
+
+interface Rule {
+  pattern: RegExp;
+  label: string;
+  /** Extra check on a regex match, e.g. a checksum. */
+  accept?: (match: string) => boolean;
+  normalize?: (match: string) => string;
+}
+
+function luhn(match: string): boolean {
+  const digits = match.replace(/\D/g, "");
+  // Card numbers start with 3–6 (Amex, Visa, Mastercard, Discover, …)
+  if (digits.length < 13 || digits.length > 19 || !/^[3-6]/.test(digits)) return false;
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+  }
+  return sum % 10 === 0;
+}
+
+function ibanChecksum(match: string): boolean {
+  const iban = match.replace(/ /g, "");
+  if (iban.length < 15 || iban.length > 34) return false;
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const ch of rearranged) {
+    const value = ch >= "A" ? String(ch.charCodeAt(0) - 55) : ch;
+    for (const digit of value) remainder = (remainder * 10 + Number(digit)) % 97;
+  }
+  return remainder === 1;
+}
+
+// Order matters: tokens first so their segments are not read as other kinds,
+// cards before phones so card numbers are not half-masked as phone numbers.
+const RULES: Record<PiiDetector, Rule> = {
+  jwt: { pattern: /\beyJ[\w-]+\.[\w-]+\.[\w-]*/g, label: "JWT" },
+  // Case-sensitive, and the value must look like a token (8+ characters with a digit or
+  // punctuation), so prose such as "the bearer of the card" is left alone
+  bearer: { pattern: /\bBearer\s+(?=[\w\-.~+/]*[\d\-.~+/])[\w\-.~+/]{8,}=*/g, label: "TOKEN" },
+  aws_key: { pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g, label: "AWS_KEY" },
+  email: {
+    pattern: /[\w.%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+    label: "EMAIL",
+    normalize: (match) => match.trim().toLowerCase(),
+  },
+  iban: { pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]){11,30}\b/g, label: "IBAN", accept: ibanChecksum },
+  credit_card: { pattern: /\b\d(?:[ -]?\d){12,18}\b/g, label: "CREDIT_CARD", accept: luhn },
+  ip: {
+    pattern: new RegExp(
+      [
+        String.raw`(?<![\d.])(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)(?!\.?\d)`,
+        String.raw`\b(?:[0-9A-Fa-f]{1,4}:){7}[0-9A-Fa-f]{1,4}\b`,
+        // Compressed forms need three groups or more, so ratios and short labels such as "1::2" are left alone
+        String.raw`\b(?:[0-9A-Fa-f]{1,4}:){2,6}:(?:[0-9A-Fa-f]{1,4}(?::[0-9A-Fa-f]{1,4}){0,4})?(?![\w:])`,
+        String.raw`\b[0-9A-Fa-f]{1,4}::[0-9A-Fa-f]{1,4}(?::[0-9A-Fa-f]{1,4}){1,5}\b(?!:)`,
+        String.raw`(?<![\w:])::(?:[0-9A-Fa-f]{1,4}:){1,6}[0-9A-Fa-f]{1,4}\b(?!:)`,
+      ].join("|"),
+      "g",
+    ),
+    label: "IP",
+  },
+  // International numbers with a leading +, or grouped national numbers like
+  // (555) 123-4567. Bare digit runs are left alone — they are usually ids.
+  phone: {
+    pattern: /(?:\+\d{1,3}[\s.-]?\(?\d{1,4}\)?(?:[\s.-]?\d{2,4}){2,4}|\(?\b\d{3}\)?[\s.-]\d{3}[\s.-]\d{4})\b/g,
+    label: "PHONE",
+  },
+};
+
+const ALL_DETECTORS = Object.keys(RULES) as PiiDetector[];
+const DEFAULT_DETECTORS = ALL_DETECTORS.filter((name) => name !== "ip");
+
+/** Scrubs a string. Returns `undefined` when the action is "drop" and PII was found. */
+export type PiiScrubber = (value: string) => string | undefined;
+
+/** Build a function that scrubs PII from string values. */
+export function createPiiScrubber(options: PiiOptions): PiiScrubber {
+  const action = options.action ?? "mask";
+  const selected = options.detectors ?? DEFAULT_DETECTORS;
+  const rules: Rule[] = ALL_DETECTORS.filter((name) => selected.includes(name)).map((name) => RULES[name]);
+  for (const pattern of options.patterns ?? []) {
+    const flags = pattern.flags.includes("g") ? pattern.flags : pattern.flags + "g";
+    rules.push({ pattern: new RegExp(pattern.source, flags), label: "REDACTED" });
+  }
+
+  return (value: string): string | undefined => {
+    let found = false;
+    let result = value;
+    for (const rule of rules) {
+      result = result.replace(rule.pattern, (match) => {
+        if (rule.accept && !rule.accept(match)) return match;
+        found = true;
+        if (action === "hash") return sha256(rule.normalize ? rule.normalize(match) : match);
+        return `[${rule.label}]`;
+      });
+      if (found && action === "drop") return undefined;
+    }
+    return found ? result : value;
+  };
+}
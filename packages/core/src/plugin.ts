@@ -0,0 +1,35 @@
+import type { BeforeSendFn } from "./before-send.js";
+import type { JsonEvent, JsonLog } from "./types.js";
+
+export type SentBatch =
+  | { kind: "events"; items: JsonEvent[] }
+  | { kind: "logs"; items: JsonLog[] };
+
+export interface SendResult {
+  /** True once the server answered (accepted or rejected); false if it was never reached. */
+  delivered: boolean;
+  /** Node spool mode: the batch was written to disk and will be sent by the spool. */
+  spooled?: boolean;
+  /** Set when sending threw, e.g. a 413 — the batch stays queued and is retried. */
+  error?: Error;
+}
+
+/**
+ * A reusable bundle of hooks, registered via the `plugins` option or
+ * `tell.use(plugin)`. Every hook is optional. Plugins that don't touch the
+ * client in `setup` can leave `Client` as unknown and work with both SDKs.
+ */
+export interface TellPlugin<Client = unknown> {
+  /** Unique name; registering a second plugin with the same name is an error. */
+  name: string;
+  setup?(client: Client): void;
+  /** Runs after sampling and the tracking plan, before `beforeSend`. */
+  beforeEvent?: BeforeSendFn<JsonEvent>;
+  /** Runs after sampling, before `beforeSendLog`. */
+  beforeLog?: BeforeSendFn<JsonLog>;
+  /** Called for every batch handed to the transport; not for the browser's unload beacon. */
+  afterSend?(batch: SentBatch, result: SendResult): void;
+  onError?(error: Error): void;
+  /** Runs on close, after queued items have been delivered. */
+  teardown?(): void | Promise<void>;
+}
@@ -1,5 +1,6 @@
 import type { BeforeSendFn } from "./before-send.js";
-import type { JsonEvent, JsonLog, Properties } from "./types.js";
+import type { JsonEvent, JsonLog, Properties, PropertyValue } from "./types.js";
+import { createPiiScrubber, type PiiOptions, type PiiScrubber } from "./pii.js";
 
 /**
  * Common query-parameter names that often carry secrets or tokens.
@@ -19,12 +20,47 @@ export const SENSITIVE_PARAMS: readonly string[] = [
 export interface RedactOptions {
   /** Query-parameter names to strip from URL-shaped values. */
   stripParams?: string[];
-  /** Keys whose values should be replaced with "[REDACTED]". */
+  /** Keys whose values should be replaced with "[REDACTED]", at any nesting depth. */
   redactKeys?: string[];
   /** URL pathname prefixes — events whose url matches are dropped entirely. */
   dropRoutes?: string[];
+  /** Value-based PII detection in string values; see PiiOptions. */
+  pii?: PiiOptions;
 }
 
+/**
+ * Device context the SDKs add to events. Version strings such as "120.0.0.0"
+ * look like IP addresses, and none of these carry user data, so PII
+ * detection skips them. URLs, titles and referrers are still scanned.
+ */
+const CONTEXT_FIELDS = new Set([
+  "browser",
+  "browser_version",
+  "os_name",
+  "os_version",
+  "app_version",
+  "sdk_version",
+  "device_type",
+  "locale",
+  "timezone",
+  "connection_type",
+  "screen_orientation",
+]);
+
+/** Event fields that identify the event itself; PII detection skips them. */
+const PROTOCOL_FIELDS = new Set([
+  "type",
+  "event",
+  "service",
+  "device_id",
+  "session_id",
+  "user_id",
+  "group_id",
+  "timestamp",
+  "client_timestamp",
+  "message_id",
+]);
+
 // ---------------------------------------------------------------------------
 // Internal helpers
 // ---------------------------------------------------------------------------
@@ -39,16 +75,93 @@ function stripUrlParams(url: string, params: string[]): string {
   }
 }
 
+/**
+ * Rebuild a nested value with `fn` applied to every object entry and array
+ * element. Returns the original reference when nothing changed, so
+ * untouched events are never copied.
+ */
+function mapNested(
+  value: PropertyValue,
+  fn: (key: string, child: PropertyValue) => PropertyValue,
+): PropertyValue {
+  if (value === null || typeof value !== "object") return value;
+
+  if (Array.isArray(value)) {
+    let out: PropertyValue[] | null = null;
+    value.forEach((child, i) => {
+      const next = fn(String(i), child);
+      if (next !== child) {
+        out ??= [...value];
+        out[i] = next;
+      }
+    });
+    return out ?? value;
+  }
+
+  let out: { [key: string]: PropertyValue } | null = null;
+  for (const [k, child] of Object.entries(value)) {
+    const next = fn(k, child);
+    if (next !== child) {
+      out ??= { ...value };
+      out[k] = next;
+    }
+  }
+  return out ?? value;
+}
+
+function redactKeysNested(value: PropertyValue, keys: string[]): PropertyValue {
+  return mapNested(value, (k, child) =>
+    keys.includes(k) ? "[REDACTED]" : redactKeysNested(child, keys),
+  );
+}
+
+function stripParamsNested(value: PropertyValue, params: string[]): PropertyValue {
+  return mapNested(value, (_, child) =>
+    typeof child === "string" && child.startsWith("http")
+      ? stripUrlParams(child, params)
+      : stripParamsNested(child, params),
+  );
+}
+
+/**
+ * Scrub PII from every string in a nested value. With the "drop" action the
+ * scrubber returns undefined; those entries are removed from their parent.
+ */
+function scrubNested(value: PropertyValue, scrub: PiiScrubber): PropertyValue {
+  if (typeof value === "string") return scrub(value);
+  const next = mapNested(value, (_, child) => scrubNested(child, scrub));
+  if (next === value || next === null || typeof next !== "object") return next;
+
+  if (Array.isArray(next)) {
+    const original = value as PropertyValue[];
+    return next.filter((child, i) => child !== undefined || original[i] === undefined);
+  }
+  const original = value as { [key: string]: PropertyValue };
+  for (const [k, child] of Object.entries(next)) {
+    if (child === undefined && original[k] !== undefined) delete next[k];
+  }
+  return next;
+}
+
+function scrubEvent(event: JsonEvent, scrub: PiiScrubber): JsonEvent {
+  let out: JsonEvent | null = null;
+  for (const [k, value] of Object.entries(event)) {
+    if (PROTOCOL_FIELDS.has(k) || CONTEXT_FIELDS.has(k)) continue;
+    const next = scrubNested(value, scrub);
+    if (next === value) continue;
+    out ??= { ...event };
+    if (next === undefined) delete out[k];
+    else out[k] = next;
+  }
+  return out ?? event;
+}
+
 function redactKeysInProperties(
   props: Properties | undefined,
   keys: string[],
 ): Properties | undefined {
   if (!props) return props;
-  const out: Properties = {};
-  for (const [k, v] of Object.entries(props)) {
-    out[k] = keys.includes(k) ? "[REDACTED]" : v;
-  }
-  return out;
+  return redactKeysNested(props, keys) as Properties;
 }
 
 // ---------------------------------------------------------------------------
@@ -59,13 +172,15 @@ function redactKeysInProperties(
  * Factory that returns a `beforeSend` hook for events.
  *
  * - `dropRoutes` — drops events whose `url` pathname starts with a prefix.
- * - `stripParams` — removes query params from URL-shaped string values.
- * - `redactKeys` — replaces matching keys with `"[REDACTED]"`.
+ * - `stripParams` — removes query params from URL-shaped string values, including nested ones.
+ * - `redactKeys` — replaces matching keys with `"[REDACTED]"` at any depth.
+ * - `pii` — masks, hashes or drops detected PII in string values, except protocol fields.
  *
  * The returned function never mutates the input event.
  */
 export function redact(options: RedactOptions): BeforeSendFn<JsonEvent> {
   const { stripParams, redactKeys, dropRoutes } = options;
+  const scrub = options.pii ? createPiiScrubber(options.pii) : null;
 
   return (event: JsonEvent): JsonEvent | null => {
     // --- dropRoutes ---
@@ -84,25 +199,17 @@ export function redact(options: RedactOptions): BeforeSendFn<JsonEvent> {
 
     // --- stripParams ---
     if (stripParams && stripParams.length > 0) {
-      for (const [k, v] of Object.entries(event)) {
-        if (typeof v === "string" && v.startsWith("http")) {
-          const stripped = stripUrlParams(v, stripParams);
-          if (stripped !== v) {
-            if (result === event) result = { ...event };
-            result[k] = stripped;
-          }
-        }
-      }
+      result = stripParamsNested(result, stripParams) as JsonEvent;
     }
 
     // --- redactKeys ---
     if (redactKeys && redactKeys.length > 0) {
-      for (const [k, v] of Object.entries(event)) {
-        if (redactKeys.includes(k)) {
-          if (result === event) result = { ...event };
-          result[k] = "[REDACTED]";
-        }
-      }
+      result = redactKeysNested(result, redactKeys) as JsonEvent;
+    }
+
+    // --- pii ---
+    if (scrub) {
+      result = scrubEvent(result, scrub);
     }
 
     return result;
@@ -112,22 +219,37 @@ export function redact(options: RedactOptions): BeforeSendFn<JsonEvent> {
 /**
  * Factory that returns a `beforeSend` hook for log entries.
  *
- * - `redactKeys` — replaces matching keys in `log.data` with `"[REDACTED]"`.
+ * - `redactKeys` — replaces matching keys anywhere in `log.data` with `"[REDACTED]"`.
+ * - `pii` — scrubs detected PII from `log.message` and `log.data`. The message
+ *   is always kept; with the "drop" action its matches are masked instead.
  *
  * The returned function never mutates the input log.
  */
 export function redactLog(
-  options: Pick<RedactOptions, "redactKeys">,
+  options: Pick<RedactOptions, "redactKeys" | "pii">,
 ): BeforeSendFn<JsonLog> {
-  const { redactKeys } = options;
+  const { redactKeys, pii } = options;
+  const scrub = pii ? createPiiScrubber(pii) : null;
+  const scrubMessage = pii?.action === "drop" ? createPiiScrubber({ ...pii, action: "mask" }) : scrub;
 
   return (log: JsonLog): JsonLog | null => {
-    if (redactKeys && redactKeys.length > 0 && log.data) {
-      const data = redactKeysInProperties(log.data, redactKeys);
-      if (data !== log.data) {
-        return { ...log, data };
+    let result = log;
+
+    if (redactKeys && redactKeys.length > 0 && result.data) {
+      const data = redactKeysInProperties(result.data, redactKeys);
+      if (data !== result.data) {
+        result = { ...result, data };
       }
     }
-    return log;
+
+    if (scrub && scrubMessage) {
+      const message = scrubMessage(result.message)!;
+      const data = result.data && (scrubNested(result.data, scrub) as Properties);
+      if (message !== result.message || data !== result.data) {
+        result = { ...result, message, data };
+      }
+    }
+
+    return result;
   };
 }
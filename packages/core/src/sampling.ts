@@ -0,0 +1,100 @@
+import type { BeforeSendFn } from "./before-send.js";
+import { ConfigurationError } from "./errors.js";
+import type { JsonEvent, JsonLog, LogLevel } from "./types.js";
+
+export interface SamplingOptions {
+  /** Fraction of track events and logs kept, 0–1. Default 1. */
+  rate?: number;
+  /** Per-event-name rates; override `rate` for track events. */
+  events?: Record<string, number>;
+  /** Per-log-level rates; override `rate` for logs. */
+  logLevels?: Partial<Record<LogLevel, number>>;
+  /**
+   * Sample track events and logs by a stable id instead of per item, so an id
+   * that is sampled in stays in. Logs are matched on the field or, failing
+   * that, on `data`. Items without the id fall back to random sampling.
+   */
+  key?: "device_id" | "user_id" | "session_id";
+}
+
+/** 32-bit FNV-1a hash with a murmur3 finalizer, mapped to [0, 1). */
+function bucket(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  // FNV alone leaves ids that differ only in a suffix clustered in the high bits
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return (hash >>> 0) / 0x1_0000_0000;
+}
+
+function checkRate(name: string, rate: number): void {
+  if (!(rate >= 0 && rate <= 1)) {
+    throw new ConfigurationError(`${name} must be between 0 and 1, got ${rate}`);
+  }
+}
+
+function validateSampling(options: SamplingOptions): void {
+  if (options.rate !== undefined) checkRate("sampling.rate", options.rate);
+  for (const [name, rate] of Object.entries(options.events ?? {})) {
+    checkRate(`sampling.events["${name}"]`, rate);
+  }
+  for (const [level, rate] of Object.entries(options.logLevels ?? {})) {
+    checkRate(`sampling.logLevels.${level}`, rate as number);
+  }
+}
+
+/** Where a keyed id falls in [0, 1); a random roll for items without one. */
+function roll(id: unknown): number {
+  return typeof id === "string" && id.length > 0 ? bucket(id) : Math.random();
+}
+
+function own<T>(map: Record<string, T> | undefined, key: string): T | undefined {
+  return map && Object.prototype.hasOwnProperty.call(map, key) ? map[key] : undefined;
+}
+
+/**
+ * Create a beforeSend function that samples track events. Kept events carry
+ * the applied rate as `sample_rate` when it is below 1, so counts can be
+ * re-weighted. Identify, group and alias events are never sampled.
+ *
+ * Throws ConfigurationError if a rate is outside 0–1.
+ */
+export function sampleEvents(options: SamplingOptions): BeforeSendFn<JsonEvent> {
+  validateSampling(options);
+  const { key } = options;
+
+  return (event: JsonEvent): JsonEvent | null => {
+    if (event.type !== "track") return event;
+    const rate = (event.event !== undefined ? own(options.events, event.event) : undefined) ?? options.rate ?? 1;
+    if (rate >= 1) return event;
+
+    if (roll(key ? event[key] : undefined) >= rate) return null;
+    return { ...event, sample_rate: rate };
+  };
+}
+
+/**
+ * Create a beforeSend function that samples logs, per entry or by `key` so
+ * that a session's logs are kept or dropped together with its events. Kept
+ * logs carry the applied rate as `data.sample_rate` when it is below 1.
+ *
+ * Throws ConfigurationError if a rate is outside 0–1.
+ */
+export function sampleLogs(options: SamplingOptions): BeforeSendFn<JsonLog> {
+  validateSampling(options);
+  const { key } = options;
+
+  return (log: JsonLog): JsonLog | null => {
+    const rate = own(options.logLevels, log.level) ?? options.rate ?? 1;
+    if (rate >= 1) return log;
+    const id = key ? (key === "session_id" ? log.session_id : undefined) ?? log.data?.[key] : undefined;
+    if (roll(id) >= rate) return null;
+    return { ...log, data: { ...log.data, sample_rate: rate } };
+  };
+}
@@ -0,0 +1,143 @@
+import type { Properties } from "./types.js";
+
+/**
+ * Why an item never reached the collector:
+ * - `overflow` — evicted from a full queue
+ * - `beforeSend` — dropped by a hook, sampling, or the tracking plan in "drop" mode
+ * - `validation` — invalid arguments, unserializable or oversized items
+ * - `optOut` — the client was disabled or the user opted out
+ * - `suppressed` — collapsed by the dedupe window or rate limit
+ * - `rejected` — refused by the collector (4xx, or per item in a 207)
+ * - `retriesExhausted` — the collector could not be reached and the batch was not kept
+ */
+export type DropReason =
+  | "overflow"
+  | "beforeSend"
+  | "validation"
+  | "optOut"
+  | "suppressed"
+  | "rejected"
+  | "retriesExhausted";
+
+export type StatsKind = "events" | "logs";
+
+export interface PipelineStats {
+  /** Items passed to the client, before hooks run. */
+  enqueued: number;
+  /** Items accepted by the collector. */
+  sent: number;
+  dropped: Record<DropReason, number>;
+  /** Items waiting in the in-memory queue right now. */
+  queued: number;
+}
+
+export interface TellStats {
+  events: PipelineStats;
+  logs: PipelineStats;
+  /** HTTP requests that were retried after a failed attempt. */
+  retries: number;
+  /** Request body bytes the collector answered, after compression. */
+  bytesSent: number;
+  lastError: { name: string; message: string; timestamp: number } | null;
+  /** Per-destination counters, keyed by name, when `destinations` are configured. */
+  destinations?: Record<string, TellStats>;
+}
+
+type Counters = Omit<PipelineStats, "queued">;
+
+function emptyCounters(): Counters {
+  return {
+    enqueued: 0,
+    sent: 0,
+    dropped: {
+      overflow: 0,
+      beforeSend: 0,
+      validation: 0,
+      optOut: 0,
+      suppressed: 0,
+      rejected: 0,
+      retriesExhausted: 0,
+    },
+  };
+}
+
+export interface StatsRecorderConfig {
+  /** Called for every recorded drop, including those counted by the transport. */
+  onDrop?: (kind: StatsKind, reason: DropReason, count: number) => void;
+}
+
+/** Running delivery counters for one client; shared by the SDK and its transport. */
+export class StatsRecorder {
+  private readonly counters: Record<StatsKind, Counters> = { events: emptyCounters(), logs: emptyCounters() };
+  private retries = 0;
+  private bytesSent = 0;
+  private lastError: TellStats["lastError"] = null;
+  private readonly onDrop?: (kind: StatsKind, reason: DropReason, count: number) => void;
+
+  constructor(config: StatsRecorderConfig = {}) {
+    this.onDrop = config.onDrop;
+  }
+
+  enqueued(kind: StatsKind, count = 1): void {
+    this.counters[kind].enqueued += count;
+  }
+
+  sent(kind: StatsKind, count: number, bytes = 0): void {
+    this.counters[kind].sent += count;
+    this.bytesSent += bytes;
+  }
+
+  dropped(kind: StatsKind, reason: DropReason, count = 1): void {
+    this.counters[kind].dropped[reason] += count;
+    if (this.onDrop && count > 0) this.onDrop(kind, reason, count);
+  }
+
+  retried(): void {
+    this.retries++;
+  }
+
+  error(err: Error): void {
+    this.lastError = { name: err.name, message: err.message, timestamp: Date.now() };
+  }
+
+  /** A copy of the counters, with the current queue depths filled in. */
+  snapshot(queued: Record<StatsKind, number>): TellStats {
+    const copy = (kind: StatsKind): PipelineStats => ({
+      ...this.counters[kind],
+      dropped: { ...this.counters[kind].dropped },
+      queued: queued[kind],
+    });
+    return {
+      events: copy("events"),
+      logs: copy("logs"),
+      retries: this.retries,
+      bytesSent: this.bytesSent,
+      lastError: this.lastError ? { ...this.lastError } : null,
+    };
+  }
+}
+
+/** Stats as log data, e.g. for the periodic "sdk stats" log. */
+export function statsToProperties(stats: TellStats): Properties {
+  const pipeline = (p: PipelineStats): Properties => ({
+    enqueued: p.enqueued,
+    sent: p.sent,
+    dropped: { ...p.dropped },
+    queued: p.queued,
+  });
+  const data: Properties = {
+    events: pipeline(stats.events),
+    logs: pipeline(stats.logs),
+    retries: stats.retries,
+    bytesSent: stats.bytesSent,
+    lastError: stats.lastError ? { ...stats.lastError } : null,
+  };
+  if (stats.destinations) {
+    const destinations: Properties = {};
+    for (const [name, dest] of Object.entries(stats.destinations)) {
+      destinations[name] = statsToProperties(dest);
+    }
+    data.destinations = destinations;
+  }
+  return data;
+}
@@ -0,0 +1,96 @@
+export interface SuppressorConfig {
+  /** Collapse identical items seen again within this many ms of the first. 0 disables. */
+  dedupeWindow: number;
+  /** Max items per key within rateLimitWindow. 0 disables. */
+  rateLimit: number;
+  /** Length of a rate-limit window in ms; suppressed counts are summarized once it ends. */
+  rateLimitWindow: number;
+  /** Called once per key and window in which anything was suppressed. */
+  onSummary: (key: string, suppressed: number) => void;
+}
+
+interface KeyState {
+  start: number;
+  count: number;
+  suppressed: number;
+}
+
+// Bound memory when many distinct fingerprints or keys arrive within one
+// window. Evicting a fingerprint only lets a later duplicate through; an
+// evicted key reports its summary early and starts a fresh window.
+const MAX_FINGERPRINTS = 10_000;
+const MAX_KEYS = 10_000;
+
+/**
+ * Dedupe window and per-key rate limiter.
+ *
+ * Both maps are kept in insertion order by window start, so expiry only ever
+ * looks at the oldest entries and stays cheap on every call.
+ */
+export class Suppressor {
+  private readonly config: SuppressorConfig;
+  private readonly seen = new Map<string, number>(); // fingerprint → first seen
+  private readonly keys = new Map<string, KeyState>();
+
+  constructor(config: SuppressorConfig) {
+    this.config = config;
+  }
+
+  get enabled(): boolean {
+    return this.config.dedupeWindow > 0 || this.config.rateLimit > 0;
+  }
+
+  /**
+   * Returns true if the item should be sent. `key` groups items for rate
+   * limiting and summaries (e.g. the event name); `fingerprint` identifies
+   * identical items for dedupe.
+   */
+  admit(key: string, fingerprint: string, now: number = Date.now()): boolean {
+    this.sweep(now);
+
+    let state = this.keys.get(key);
+    if (!state) {
+      state = { start: now, count: 0, suppressed: 0 };
+      this.keys.set(key, state);
+      if (this.keys.size > MAX_KEYS) {
+        const [oldest, evicted] = this.keys.entries().next().value as [string, KeyState];
+        this.keys.delete(oldest);
+        if (evicted.suppressed > 0) this.config.onSummary(oldest, evicted.suppressed);
+      }
+    }
+
+    if (this.config.dedupeWindow > 0) {
+      if (this.seen.has(fingerprint)) {
+        state.suppressed++;
+        return false;
+      }
+      this.seen.set(fingerprint, now);
+      if (this.seen.size > MAX_FINGERPRINTS) {
+        this.seen.delete(this.seen.keys().next().value as string);
+      }
+    }
+
+    if (this.config.rateLimit > 0 && state.count >= this.config.rateLimit) {
+      state.suppressed++;
+      return false;
+    }
+    state.count++;
+    return true;
+  }
+
+  /**
+   * Expire ended windows and report their suppressed counts.
+   * Pass `Infinity` to report everything still pending (e.g. on close).
+   */
+  sweep(now: number = Date.now()): void {
+    for (const [fingerprint, first] of this.seen) {
+      if (now - first < this.config.dedupeWindow) break;
+      this.seen.delete(fingerprint);
+    }
+    for (const [key, state] of this.keys) {
+      if (now - state.start < this.config.rateLimitWindow) break;
+      this.keys.delete(key);
+      if (state.suppressed > 0) this.config.onSummary(key, state.suppressed);
+    }
+  }
+}
@@ -0,0 +1,110 @@
+import type { BeforeSendFn } from "./before-send.js";
+import { ValidationError } from "./errors.js";
+import type { JsonEvent, PropertyValue } from "./types.js";
+
+export type PropertyType = "string" | "number" | "boolean" | "object" | "array" | "null";
+
+export interface PropertySchema {
+  /** Accepted value type(s). Any type if unset. */
+  type?: PropertyType | PropertyType[];
+  required?: boolean;
+  /** Allowed values, compared with `===`. */
+  enum?: readonly (string | number | boolean)[];
+  /** Max string length in characters, or max array length. */
+  maxLength?: number;
+}
+
+/** Property schemas of one event, keyed by property name. */
+export type EventSchema = Record<string, PropertySchema>;
+
+/** Event schemas keyed by event name. Events not listed are not checked. */
+export type TrackingPlan = Record<string, EventSchema>;
+
+/**
+ * What to do with an event that violates its schema:
+ * - `"warn"` — report each violation via onError and send the event unchanged
+ * - `"drop"` — report each violation via onError and drop the event
+ * - `"annotate"` — send the event with a `_violations` array of messages
+ */
+export type TrackingPlanMode = "warn" | "drop" | "annotate";
+
+export interface TrackingPlanOptions {
+  events: TrackingPlan;
+  mode?: TrackingPlanMode;
+  onViolation?: (error: ValidationError) => void;
+}
+
+function typeOf(value: PropertyValue): PropertyType {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value as PropertyType;
+}
+
+/** Check one event against its schema. Returns the violations found. */
+function checkEvent(event: JsonEvent, schema: EventSchema): ValidationError[] {
+  const violations: ValidationError[] = [];
+  const where = `(event "${event.event}")`;
+
+  for (const [key, rule] of Object.entries(schema)) {
+    const field = `properties.${key}`;
+    const value = event[key];
+
+    if (value === undefined) {
+      if (rule.required) violations.push(new ValidationError(field, `is required ${where}`));
+      continue;
+    }
+
+    const actual = typeOf(value);
+    if (rule.type !== undefined) {
+      const allowed = Array.isArray(rule.type) ? rule.type : [rule.type];
+      if (!allowed.includes(actual)) {
+        violations.push(new ValidationError(field, `expected ${allowed.join(" | ")}, got ${actual} ${where}`));
+        continue;
+      }
+    }
+
+    if (rule.enum !== undefined && !rule.enum.includes(value as string | number | boolean)) {
+      violations.push(new ValidationError(field, `must be one of ${rule.enum.map((v) => JSON.stringify(v)).join(", ")} ${where}`));
+    }
+
+    if (rule.maxLength !== undefined && (actual === "string" || actual === "array")) {
+      const length = (value as string | PropertyValue[]).length;
+      if (length > rule.maxLength) {
+        violations.push(new ValidationError(field, `length ${length} exceeds ${rule.maxLength} ${where}`));
+      }
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Create a beforeSend function that enforces a tracking plan on track events.
+ *
+ * ```ts
+ * beforeSend: enforceTrackingPlan({
+ *   events: { "Order Completed": { order_id: { type: "string", required: true } } },
+ *   mode: "drop",
+ * })
+ * ```
+ */
+export function enforceTrackingPlan(options: TrackingPlanOptions): BeforeSendFn<JsonEvent> {
+  const { events, mode = "warn", onViolation } = options;
+
+  return (event: JsonEvent): JsonEvent | null => {
+    if (event.type !== "track" || event.event === undefined) return event;
+    const schema = Object.prototype.hasOwnProperty.call(events, event.event) ? events[event.event] : undefined;
+    if (!schema) return event;
+
+    const violations = checkEvent(event, schema);
+    if (violations.length === 0) return event;
+
+    if (mode === "annotate") {
+      return { ...event, _violations: violations.map((v) => v.message) };
+    }
+    if (onViolation) {
+      for (const v of violations) onViolation(v);
+    }
+    return mode === "drop" ? null : event;
+  };
+}
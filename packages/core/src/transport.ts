@@ -0,0 +1,160 @@
+import { NetworkError } from "./errors.js";
+import { flattenEvent, flattenLog } from "./flatten.js";
+import type { JsonEvent, JsonLog } from "./types.js";
+
+/**
+ * Delivers batches to the collector. The SDKs ship an HTTP implementation;
+ * pass your own via the `transport` option to route batches through a
+ * custom fetch wrapper, a queue, a worker or a test double.
+ *
+ * `sendEvents` and `sendLogs` resolve true once the batch is done with —
+ * accepted, or rejected for good — and false if it could not be delivered.
+ * Throwing keeps the batch queued for the next flush; throw a
+ * `NetworkError` with status 413 to have the SDK halve its batch size, or a
+ * `CircuitOpenError` while backing off to keep it out of `onError`.
+ */
+export interface Transport {
+  sendEvents(events: JsonEvent[]): Promise<boolean>;
+  sendLogs(logs: JsonLog[]): Promise<boolean>;
+  /** Best-effort, fire-and-forget send on page unload (browser only). */
+  beacon?(events: JsonEvent[], logs: JsonLog[]): void;
+  /** Release resources; called once by `close()` after the final flush. */
+  close(): Promise<void>;
+}
+
+/** The parts of a fetch `Response` the helpers below look at. */
+export interface CollectorResponse {
+  status: number;
+  statusText: string;
+  headers?: { get(name: string): string | null };
+  json(): Promise<unknown>;
+}
+
+/** Why the collector refused one item of a batch answered with 207. */
+export interface RejectionReason {
+  /** Position of the item in the batch. */
+  index: number;
+  /** Machine-readable reason, e.g. "invalid_type". */
+  code: string;
+  /** Offending field, e.g. "properties.amount". */
+  field?: string;
+  message?: string;
+}
+
+/** An item the collector refused: an event or log as it was queued. */
+export type RejectedItem = JsonEvent | JsonLog;
+
+export interface ResponseHandlers {
+  onError?: (error: Error) => void;
+  onPayloadTooLarge?: () => void;
+  /**
+   * Called on a 207 that refused items: per-item reasons in batch order (may
+   * be empty) and the refused count.
+   */
+  onRejected?: (reasons: RejectionReason[], rejected: number) => void;
+}
+
+/**
+ * Parse a 207 body of the form
+ * `{ "rejected": 2, "errors": [{ "index": 0, "code": "invalid_type", "field": "properties.amount" }] }`.
+ * Entries without a valid index are skipped; `rejected` falls back to the number of reasons.
+ */
+export function parsePartialSuccess(body: unknown): { rejected: number | undefined; reasons: RejectionReason[] } {
+  const data = typeof body === "object" && body !== null ? (body as Record<string, unknown>) : {};
+  const reasons: RejectionReason[] = [];
+  for (const entry of Array.isArray(data.errors) ? data.errors : []) {
+    if (typeof entry !== "object" || entry === null) continue;
+    const { index, code, reason, field, message } = entry as Record<string, unknown>;
+    if (typeof index !== "number" || !Number.isInteger(index) || index < 0) continue;
+    const result: RejectionReason = {
+      index,
+      code: typeof code === "string" ? code : typeof reason === "string" ? reason : "rejected",
+    };
+    if (typeof field === "string") result.field = field;
+    if (typeof message === "string") result.message = message;
+    reasons.push(result);
+  }
+  reasons.sort((a, b) => a.index - b.index);
+  const rejected = typeof data.rejected === "number" ? data.rejected : reasons.length > 0 ? reasons.length : undefined;
+  return { rejected, reasons };
+}
+
+/**
+ * Interpret a collector response:
+ * - 202: accepted
+ * - 207: partly accepted; per-item reasons go to `onRejected`, the count to `onError`
+ * - 413: calls `onPayloadTooLarge` and throws a NetworkError(413)
+ * - 429 and 5xx: worth retrying, after `retryAfter(response)` if set
+ * - 401 and other 4xx: rejected for good and reported to `onError`
+ *
+ * Resolves true once the collector has answered for the batch, false if
+ * the request should be retried.
+ */
+export async function handleResponse(
+  response: CollectorResponse,
+  handlers: ResponseHandlers = {}
+): Promise<boolean> {
+  const { status, statusText } = response;
+
+  if (status === 202) return true;
+
+  if (status === 207) {
+    if (!handlers.onError && !handlers.onRejected) return true;
+    let body: unknown = null;
+    try {
+      body = await response.json();
+    } catch {
+      // body is optional
+    }
+    const { rejected, reasons } = parsePartialSuccess(body);
+    const count = rejected ?? reasons.length;
+    if (handlers.onRejected && count > 0) handlers.onRejected(reasons, count);
+    if (handlers.onError) {
+      handlers.onError(new NetworkError(`Partial success: ${rejected ?? "unknown"} items rejected`, 207));
+    }
+    return true;
+  }
+
+  if (status === 413) {
+    if (handlers.onPayloadTooLarge) handlers.onPayloadTooLarge();
+    throw new NetworkError("Payload too large", 413);
+  }
+
+  if (status >= 400 && status < 500 && status !== 429) {
+    const error = status === 401
+      ? new NetworkError("Invalid API key", 401)
+      : new NetworkError(`HTTP ${status}: ${statusText}`, status);
+    if (handlers.onError) handlers.onError(error);
+    return true;
+  }
+
+  return false;
+}
+
+// Upper bound for a server-sent Retry-After, so a bad header cannot stall delivery for days
+const MAX_RETRY_AFTER = 600_000;
+
+/** Ms the collector asked to wait via `Retry-After` (seconds or HTTP date); 0 if absent. */
+export function retryAfter(response: CollectorResponse, now: number = Date.now()): number {
+  const value = response.headers?.get("retry-after")?.trim();
+  if (!value) return 0;
+  const ms = /^\d+$/.test(value) ? Number(value) * 1000 : Date.parse(value) - now;
+  return Number.isFinite(ms) ? Math.min(Math.max(ms, 0), MAX_RETRY_AFTER) : 0;
+}
+
+/** Delay before retry `attempt` (1-based): exponential backoff with jitter, capped at 30s. */
+export function retryDelay(attempt: number): number {
+  const base = 1000 * Math.pow(1.5, attempt - 1);
+  const jitter = base * 0.2 * Math.random();
+  return Math.min(base + jitter, 30_000);
+}
+
+/** Serialize events to NDJSON lines in wire format. */
+export function encodeEvents(events: JsonEvent[], flatten = false): string[] {
+  return events.map((e) => JSON.stringify(flatten ? flattenEvent(e) : e));
+}
+
+/** Serialize logs to NDJSON lines in wire format. */
+export function encodeLogs(logs: JsonLog[], flatten = false): string[] {
+  return logs.map((l) => JSON.stringify(flatten ? flattenLog(l) : l));
+}
@@ -1,7 +1,16 @@
 // Public types for the Tell SDK
 
+export type PropertyValue =
+  | string
+  | number
+  | boolean
+  | null
+  | undefined
+  | PropertyValue[]
+  | { [key: string]: PropertyValue };
+
 export interface Properties {
-  [key: string]: string | number | boolean | null | undefined;
+  [key: string]: PropertyValue;
 }
 
 export type EventType =
@@ -24,7 +33,7 @@ export type LogLevel =
   | "trace";
 
 // Wire format: JSON event line sent to POST /v1/events
-// Protocol fields are typed; user data is flat alongside them.
+// Protocol fields are typed; user data sits alongside them and may nest.
 export interface JsonEvent {
   type: EventType;
   event?: string;
@@ -34,7 +43,9 @@ export interface JsonEvent {
   user_id?: string;
   group_id?: string;
   timestamp?: number;
-  [key: string]: string | number | boolean | null | undefined;
+  client_timestamp?: number;
+  message_id?: string;
+  [key: string]: PropertyValue;
 }
 
 // Wire format: JSON log line sent to POST /v1/logs
@@ -42,9 +53,30 @@ export interface JsonLog {
   level: LogLevel;
   message: string;
   timestamp?: number;
+  client_timestamp?: number;
   source?: string;
   service?: string;
   session_id?: string;
+  message_id?: string;
   data?: Properties;
   type?: "log" | "enrich";
 }
+
+// Tracking plans: an event map type such as
+//   type MyEvents = { "Order Completed": { order_id: string; amount: number } };
+// passed as `Tell<MyEvents>` / `TellInstance<MyEvents>` checks track() calls at
+// compile time. Interfaces work as well as type aliases.
+
+/** Default event map — any event name with any properties. */
+export type UntypedEvents = Record<string, Properties>;
+
+/** Event names declared by an event map. */
+export type EventKey<E> = Extract<keyof E, string>;
+
+/**
+ * Trailing arguments of track(): properties are required when the event
+ * declares a required property, optional otherwise.
+ */
+export type TrackArgs<E, K extends keyof E> = {} extends E[K]
+  ? [properties?: E[K]]
+  : [properties: E[K]];
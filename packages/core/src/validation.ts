@@ -1,8 +1,9 @@
-import { ConfigurationError, ValidationError } from "./errors.js";
+import { ConfigurationError, SerializationError, ValidationError } from "./errors.js";
 
 const HEX_RE = /^[0-9a-fA-F]{32}$/;
 const MAX_EVENT_NAME = 256;
 const MAX_LOG_MESSAGE = 65_536;
+const MAX_PROPERTY_DEPTH = 10;
 
 export function validateApiKey(key: string): void {
   if (!key) {
@@ -44,3 +45,31 @@ export function validateUserId(id: unknown): void {
     throw new ValidationError("userId", "must be a non-empty string");
   }
 }
+
+/**
+ * Check that nested properties stay within `maxDepth` levels and contain
+ * no cycles. Shared (non-cyclic) references are allowed.
+ */
+export function validateProperties(
+  props: unknown,
+  maxDepth: number = MAX_PROPERTY_DEPTH
+): void {
+  const ancestors: object[] = [];
+
+  const visit = (value: unknown, path: string, depth: number): void => {
+    if (value === null || typeof value !== "object") return;
+    if (ancestors.includes(value)) {
+      throw new SerializationError(`${path}: circular reference`);
+    }
+    if (depth > maxDepth) {
+      throw new ValidationError(path, `exceeds max nesting depth of ${maxDepth}`);
+    }
+    ancestors.push(value);
+    for (const [key, child] of Object.entries(value)) {
+      visit(child, `${path}.${key}`, depth + 1);
+    }
+    ancestors.pop();
+  };
+
+  visit(props, "properties", 0);
+}
@@ -0,0 +1,59 @@
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import type { Transform } from "node:stream";
+import * as zlib from "node:zlib";
+
+/** A `Content-Encoding` the transport can compress request bodies with. */
+export type ContentEncoding = "gzip" | "br" | "zstd";
+
+// Input handed to the compressor per write; small enough to keep each turn of the event loop short
+const CHUNK_CHARS = 64 * 1024;
+
+/** Whether this Node build can produce `encoding`; zstd needs Node 22.15 or 23.8. */
+export function canEncode(encoding: ContentEncoding): boolean {
+  if (encoding === "zstd") return typeof zlib.createZstdCompress === "function";
+  return encoding === "gzip" || encoding === "br";
+}
+
+function createEncoder(encoding: ContentEncoding, size: number): Transform {
+  switch (encoding) {
+    case "gzip":
+      return zlib.createGzip();
+    case "br":
+      // Brotli's default quality (11) is meant for static assets; 5 is close in size at a fraction of the CPU
+      return zlib.createBrotliCompress({
+        params: {
+          [zlib.constants.BROTLI_PARAM_QUALITY]: 5,
+          [zlib.constants.BROTLI_PARAM_SIZE_HINT]: size,
+          [zlib.constants.BROTLI_PARAM_MODE]: zlib.constants.BROTLI_MODE_TEXT,
+        },
+      });
+    case "zstd":
+      return zlib.createZstdCompress();
+  }
+}
+
+function* chunks(lines: string[]): Generator<string> {
+  let chunk = "";
+  for (let i = 0; i < lines.length; i++) {
+    chunk += i === 0 ? lines[i] : "\n" + lines[i];
+    if (chunk.length >= CHUNK_CHARS) {
+      yield chunk;
+      chunk = "";
+    }
+  }
+  if (chunk !== "") yield chunk;
+}
+
+/**
+ * Compress NDJSON lines, as joined by "\n", without blocking the event
+ * loop: the lines are streamed in chunks through zlib, which compresses on
+ * the libuv thread pool. `size` is the body's uncompressed byte length.
+ */
+export async function compressLines(lines: string[], encoding: ContentEncoding, size: number): Promise<Buffer> {
+  const output: Buffer[] = [];
+  await pipeline(Readable.from(chunks(lines)), createEncoder(encoding, size), async (source: AsyncIterable<Buffer>) => {
+    for await (const chunk of source) output.push(chunk);
+  });
+  return Buffer.concat(output);
+}
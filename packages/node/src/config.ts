@@ -1,45 +1,125 @@
 import type { TellError } from "@tell-rs/core";
 import type { BeforeSendFn } from "@tell-rs/core";
-import type { JsonEvent, JsonLog } from "@tell-rs/core";
+import type { JsonEvent, JsonLog, LogLevel, TrackingPlan, TrackingPlanMode, SamplingOptions, TellPlugin, Transport, RejectedItem, RejectionReason, DestinationOptions } from "@tell-rs/core";
+import type { ContentEncoding } from "./compress.js";
+import type { Tell } from "./index.js";
 import { hostname } from "node:os";
 
 export interface TellOptions {
   /** Service name stamped on every event and log. No auto-detect for server SDKs. */
   service?: string;
-  endpoint?: string;
+  /** Collector URL, or a list to fail over to in order when the first cannot be reached. */
+  endpoint?: string | string[];
   batchSize?: number;
+  /** Max serialized bytes per batch; larger single items are rejected via onError. */
+  maxBatchBytes?: number;
   flushInterval?: number;
   maxRetries?: number;
   closeTimeout?: number;
   networkTimeout?: number;
+  /** Consecutive failed sends before sending pauses. 0 disables the circuit breaker. */
+  circuitBreakerThreshold?: number;
+  /** Ms to pause before a probe request checks whether the collector has recovered. */
+  circuitBreakerCooldown?: number;
+  /** Ms between "sdk stats" info logs carrying `tell.stats()`. 0 (default) disables the self-report. */
+  statsInterval?: number;
   logLevel?: "error" | "warn" | "info" | "debug";
   source?: string;
   onError?: (error: TellError) => void;
+  /** Called when the collector accepts a batch but refuses some items (HTTP 207), with the items and why. */
+  onRejected?: (items: RejectedItem[], reasons: RejectionReason[]) => void;
   disabled?: boolean;
   maxQueueSize?: number;
+  /** Log levels that flush immediately and are never evicted on queue overflow. Add `"error"` to include error logs. */
+  priorityLevels?: LogLevel[];
+  /** Event names that flush immediately and are never evicted on queue overflow. */
+  priorityEvents?: string[];
   gzip?: boolean;
+  /**
+   * Compress request bodies with the first of these encodings this Node
+   * supports, e.g. `["zstd", "br", "gzip"]`; a collector that answers 415
+   * narrows the list to what it accepts. `gzip: true` is shorthand for `["gzip"]`.
+   */
+  compression?: ContentEncoding[];
+  /** Bodies smaller than this many bytes are sent uncompressed. */
+  compressionThreshold?: number;
+  /** Shift timestamps to the collector's clock, learned from its `Date` header; originals are kept as `client_timestamp`. */
+  correctClockSkew?: boolean;
+  /** Flatten nested properties into dot-separated keys (`cart.items.0.sku`) for flat-column backends. */
+  flattenProperties?: boolean;
+  /** Directory for the disk spool. When set, batches are written to NDJSON segments before sending. */
+  spoolDir?: string;
+  /** Max total bytes kept in the spool; oldest segments are dropped beyond it. */
+  spoolMaxBytes?: number;
+  /** Size at which the active spool segment is rotated. */
+  spoolSegmentBytes?: number;
+  /** Collapse identical track calls and log lines repeated within this many ms. 0 disables. */
+  dedupeWindow?: number;
+  /** Max track calls per event name, or log lines per message, within rateLimitWindow. 0 disables. */
+  rateLimit?: number;
+  /** Rate-limit window in ms; suppressed counts are reported as one warning log per window. */
+  rateLimitWindow?: number;
+  /** Send a fraction of track events and logs; see SamplingOptions. */
+  sampling?: SamplingOptions;
+  /** Property schemas per event name, checked at runtime before beforeSend. */
+  trackingPlan?: TrackingPlan;
+  /** How tracking plan violations are handled: report, drop, or annotate with `_violations`. */
+  trackingPlanMode?: TrackingPlanMode;
   beforeSend?: BeforeSendFn<JsonEvent> | BeforeSendFn<JsonEvent>[];
   beforeSendLog?: BeforeSendFn<JsonLog> | BeforeSendFn<JsonLog>[];
+  /** Max ms to wait for async beforeSend/beforeSendLog hooks. */
+  beforeSendTimeout?: number;
+  /** Whether an item whose async hooks time out or reject is dropped or sent unmodified. */
+  beforeSendTimeoutAction?: "drop" | "send";
+  /** Send batches through this instead of the built-in HTTP transport. Not compatible with `spoolDir`. */
+  transport?: Transport;
+  /** Run the full pipeline but never send: batches are accepted and dropped. Overrides `transport`. Not compatible with `spoolDir`. */
+  dryRun?: boolean;
+  /** Plugins to register on construction, in order; see `tell.use()`. */
+  plugins?: TellPlugin<Tell<any>>[];
+  /** Also deliver every event and log to these, each with its own key, hooks, queues and failures. */
+  destinations?: DestinationOptions[];
 }
 
 export const DEFAULTS = {
   endpoint: "https://collect.tell.app",
   batchSize: 100,
+  maxBatchBytes: 5_242_880, // 5 MB
   flushInterval: 10_000,
   maxRetries: 3,
   closeTimeout: 5_000,
   networkTimeout: 30_000,
+  circuitBreakerThreshold: 5,
+  circuitBreakerCooldown: 30_000,
+  statsInterval: 0,
   logLevel: "info" as const,
   source: hostname(),
   disabled: false,
   maxQueueSize: 1000,
+  priorityLevels: ["emergency", "alert", "critical"] as LogLevel[],
+  priorityEvents: [] as string[],
   gzip: false,
+  compression: [] as ContentEncoding[],
+  compressionThreshold: 1024,
+  correctClockSkew: false,
+  flattenProperties: false,
+  dedupeWindow: 0,
+  rateLimit: 0,
+  rateLimitWindow: 60_000,
+  trackingPlanMode: "warn" as TrackingPlanMode,
+  beforeSendTimeout: 1_000,
+  beforeSendTimeoutAction: "drop" as const,
+  plugins: [] as TellPlugin<Tell<any>>[],
+  destinations: [] as DestinationOptions[],
+  dryRun: false,
+  spoolMaxBytes: 104_857_600, // 100 MB
+  spoolSegmentBytes: 1_048_576, // 1 MB
 } as const;
 
 export type ResolvedConfig = Required<
-  Omit<TellOptions, "onError" | "beforeSend" | "beforeSendLog">
+  Omit<TellOptions, "onError" | "onRejected" | "sampling" | "trackingPlan" | "beforeSend" | "beforeSendLog" | "spoolDir" | "transport">
 > &
-  Pick<TellOptions, "onError" | "beforeSend" | "beforeSendLog"> &
+  Pick<TellOptions, "onError" | "onRejected" | "sampling" | "trackingPlan" | "beforeSend" | "beforeSendLog" | "spoolDir" | "transport"> &
   { apiKey: string };
 
 export function resolveConfig(apiKey: string, options?: TellOptions): ResolvedConfig {
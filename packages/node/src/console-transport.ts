@@ -0,0 +1,82 @@
+import type { JsonEvent, JsonLog, LogLevel, Transport } from "@tell-rs/core";
+import { describeEvent, describeLog, eventProperties } from "@tell-rs/core";
+
+export interface ConsoleTransportConfig {
+  /** ANSI colors. Defaults to whether stdout is a terminal. */
+  colors?: boolean;
+  /** Print each item as full wire-format JSON instead of a summary line. */
+  verbose?: boolean;
+  /** Where output goes, one line per call. Defaults to `console.log`. */
+  write?: (line: string) => void;
+}
+
+const RESET = "\x1b[0m";
+const BOLD = "\x1b[1m";
+const DIM = "\x1b[2m";
+const RED = "\x1b[31m";
+const GREEN = "\x1b[32m";
+const YELLOW = "\x1b[33m";
+const CYAN = "\x1b[36m";
+
+const LEVEL_COLORS: Record<LogLevel, string> = {
+  emergency: RED,
+  alert: RED,
+  critical: RED,
+  error: RED,
+  warning: YELLOW,
+  notice: GREEN,
+  info: GREEN,
+  debug: DIM,
+  trace: DIM,
+};
+
+/**
+ * Prints batches to the console instead of sending them, one group per
+ * batch. Pair it with `development()` to work without a local collector.
+ */
+export class ConsoleTransport implements Transport {
+  private readonly colors: boolean;
+  private readonly verbose: boolean;
+  private readonly write: (line: string) => void;
+
+  constructor(config: ConsoleTransportConfig = {}) {
+    this.colors = config.colors ?? process.stdout.isTTY === true;
+    this.verbose = config.verbose ?? false;
+    this.write = config.write ?? ((line) => console.log(line));
+  }
+
+  async sendEvents(events: JsonEvent[]): Promise<boolean> {
+    if (events.length === 0) return true;
+    this.write(this.paint(BOLD + CYAN, `[Tell] ${events.length} ${events.length === 1 ? "event" : "events"}`));
+    for (const event of events) {
+      if (this.verbose) {
+        this.write(`  ${JSON.stringify(event)}`);
+        continue;
+      }
+      const properties = eventProperties(event);
+      const detail = Object.keys(properties).length > 0 ? " " + this.paint(DIM, JSON.stringify(properties)) : "";
+      this.write(`  ${this.paint(CYAN, describeEvent(event))}${detail}`);
+    }
+    return true;
+  }
+
+  async sendLogs(logs: JsonLog[]): Promise<boolean> {
+    if (logs.length === 0) return true;
+    this.write(this.paint(BOLD + CYAN, `[Tell] ${logs.length} ${logs.length === 1 ? "log" : "logs"}`));
+    for (const log of logs) {
+      if (this.verbose) {
+        this.write(`  ${JSON.stringify(log)}`);
+        continue;
+      }
+      const detail = log.data && Object.keys(log.data).length > 0 ? " " + this.paint(DIM, JSON.stringify(log.data)) : "";
+      this.write(`  ${this.paint(LEVEL_COLORS[log.level] ?? "", describeLog(log))}${detail}`);
+    }
+    return true;
+  }
+
+  async close(): Promise<void> {}
+
+  private paint(color: string, text: string): string {
+    return this.colors ? `${color}${text}${RESET}` : text;
+  }
+}
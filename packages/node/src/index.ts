@@ -1,21 +1,37 @@
-import type { TellOptions } from "./config.js";
-import type { JsonEvent, JsonLog, LogLevel, Properties, BeforeSendFn } from "@tell-rs/core";
+import type { ResolvedConfig, TellOptions } from "./config.js";
+import type { JsonEvent, JsonLog, LogLevel, Properties, BeforeSendFn, BeforeSendOptions, DestinationOptions, EventKey, TrackArgs, UntypedEvents, TellPlugin, SentBatch, SendResult, Transport, StatsKind, TellStats, TellEventName, TellListener } from "@tell-rs/core";
 import { resolveConfig } from "./config.js";
-import { ClosedError, ValidationError, validateApiKey, validateEventName, validateLogMessage, validateUserId, Batcher, runBeforeSend } from "@tell-rs/core";
+import { CircuitBreaker, CircuitOpenError, ClosedError, ConfigurationError, NetworkError, ValidationError, Destination, validateApiKey, validateEventName, validateLogMessage, validateProperties, validateUserId, Batcher, Suppressor, StatsRecorder, statsToProperties, Emitter, DryRunTransport, runBeforeSend, enforceTrackingPlan, sampleEvents, sampleLogs, messageId, ClockSkew } from "@tell-rs/core";
 import { HttpTransport } from "./transport.js";
+import { Spool } from "./spool.js";
+import type { SpoolKind } from "./spool.js";
 
 // Re-export core types and values
 export { Events, type EventName } from "@tell-rs/core";
-export type { Properties, LogLevel, JsonEvent, JsonLog, BeforeSendFn } from "@tell-rs/core";
+export type { Properties, PropertyValue, LogLevel, JsonEvent, JsonLog, BeforeSendFn } from "@tell-rs/core";
+export type { UntypedEvents, EventKey, TrackArgs } from "@tell-rs/core";
 export { redact, redactLog, SENSITIVE_PARAMS, type RedactOptions } from "@tell-rs/core";
-export { TellError, ConfigurationError, ValidationError, NetworkError, ClosedError, SerializationError } from "@tell-rs/core";
+export type { PiiOptions, PiiDetector, PiiAction } from "@tell-rs/core";
+export type { TellPlugin, SentBatch, SendResult } from "@tell-rs/core";
+export type { Transport, CollectorResponse, ResponseHandlers, RejectionReason, RejectedItem } from "@tell-rs/core";
+export { handleResponse, parsePartialSuccess, retryAfter, retryDelay, encodeEvents, encodeLogs, idempotencyKey } from "@tell-rs/core";
+export { CircuitBreaker, type CircuitBreakerConfig, type CircuitState } from "@tell-rs/core";
+export type { DestinationOptions } from "@tell-rs/core";
+export type { TellStats, PipelineStats, DropReason } from "@tell-rs/core";
+export type { TellEventMap, TellEventName, TellListener, DropInfo, FlushInfo, SessionInfo } from "@tell-rs/core";
+export { sampleEvents, sampleLogs, type SamplingOptions } from "@tell-rs/core";
+export { enforceTrackingPlan, type TrackingPlan, type TrackingPlanMode, type TrackingPlanOptions, type EventSchema, type PropertySchema, type PropertyType } from "@tell-rs/core";
+export { TellError, ConfigurationError, ValidationError, NetworkError, CircuitOpenError, ClosedError, SerializationError } from "@tell-rs/core";
 
 // Re-export node-specific config
 export type { TellOptions } from "./config.js";
 export { development, production } from "./config.js";
+export { HttpTransport, type TransportConfig } from "./transport.js";
+export type { ContentEncoding } from "./compress.js";
+export { ConsoleTransport, type ConsoleTransportConfig } from "./console-transport.js";
 
-export interface TellServiceScope {
-  track(userId: string, eventName: string, properties?: Properties): void;
+export interface TellServiceScope<E extends object = UntypedEvents> {
+  track<K extends EventKey<E>>(userId: string, eventName: K, ...args: TrackArgs<E, K>): void;
   identify(userId: string, traits?: Properties): void;
   group(userId: string, groupId: string, properties?: Properties): void;
   revenue(userId: string, amount: number, currency: string, orderId: string, properties?: Properties): void;
@@ -30,7 +46,7 @@ export interface TellServiceScope {
   logInfo(message: string, data?: Properties): void;
   logDebug(message: string, data?: Properties): void;
   logTrace(message: string, data?: Properties): void;
-  withService(service: string): TellServiceScope;
+  withService(service: string): TellServiceScope<E>;
 }
 
 const LOG_LEVELS: Record<string, number> = {
@@ -44,10 +60,33 @@ function uuid(): string {
   return crypto.randomUUID().replace(/-/g, "");
 }
 
-export class Tell {
-  private readonly transport: HttpTransport;
+/**
+ * Pass a tracking plan as `E` to type-check `track()` calls:
+ * `new Tell<MyEvents>(config)`. Without it any event name and properties are accepted.
+ */
+export class Tell<E extends object = UntypedEvents> {
+  private readonly transport: Transport;
+  /** The built-in transport; null when a custom one is configured. */
+  private readonly http: HttpTransport | null;
   private readonly eventBatcher: Batcher<JsonEvent>;
   private readonly logBatcher: Batcher<JsonLog>;
+  private readonly eventSuppressor: Suppressor;
+  private readonly logSuppressor: Suppressor;
+  private readonly spool: Spool | null = null;
+  private readonly destinations: Destination[] = [];
+  /** Collector clock estimate when `correctClockSkew` is on; null otherwise. */
+  private readonly clock: ClockSkew | null;
+  private spoolTimer: ReturnType<typeof setInterval> | null = null;
+  private statsTimer: ReturnType<typeof setInterval> | null = null;
+  private readonly emitter = new Emitter({
+    onListenerError: (err, name) => this.sdkDebug(`"${name}" listener failed: ${err instanceof Error ? err.message : String(err)}`),
+  });
+  private readonly counters = new StatsRecorder({
+    onDrop: (kind, reason, count) => this.emitter.emit("drop", { kind, reason, count }),
+  });
+  private draining: Promise<void> | null = null;
+  private readonly batchSize: number;
+  private readonly maxBatchBytes: number;
   private readonly deviceId: string;
   private sessionId: string;
   private readonly onError?: (error: Error) => void;
@@ -55,8 +94,14 @@ export class Tell {
   private readonly service: string | undefined;
   private readonly closeTimeout: number;
   private readonly sdkLogLevel: number;
-  private readonly beforeSend?: BeforeSendFn<JsonEvent> | BeforeSendFn<JsonEvent>[];
-  private readonly beforeSendLog?: BeforeSendFn<JsonLog> | BeforeSendFn<JsonLog>[];
+  private readonly eventStages: BeforeSendFn<JsonEvent>[] = [];
+  private readonly logStages: BeforeSendFn<JsonLog>[] = [];
+  private readonly userBeforeSend: BeforeSendFn<JsonEvent>[];
+  private readonly userBeforeSendLog: BeforeSendFn<JsonLog>[];
+  private beforeSend?: BeforeSendFn<JsonEvent>[];
+  private beforeSendLog?: BeforeSendFn<JsonLog>[];
+  private readonly plugins: TellPlugin<Tell<E>>[] = [];
+  private readonly beforeSendOptions: BeforeSendOptions;
   private superProperties: Properties = {};
   private closed = false;
   private _disabled: boolean;
@@ -71,46 +116,178 @@ export class Tell {
     this.closeTimeout = resolved.closeTimeout;
     this.sdkLogLevel = LOG_LEVELS[resolved.logLevel] ?? 2;
     this._disabled = resolved.disabled;
-    this.beforeSend = resolved.beforeSend;
-    this.beforeSendLog = resolved.beforeSendLog;
+    // Built-in stages run before user hooks: sampling first, then the tracking
+    // plan so violations reflect what the caller sent
+    if (resolved.sampling) {
+      this.eventStages.push(sampleEvents(resolved.sampling));
+      this.logStages.push(sampleLogs(resolved.sampling));
+    }
+    if (resolved.trackingPlan) {
+      this.eventStages.push(
+        enforceTrackingPlan({
+          events: resolved.trackingPlan,
+          mode: resolved.trackingPlanMode,
+          onViolation: (err) => this.reportError(err),
+        })
+      );
+    }
+    this.userBeforeSend = [resolved.beforeSend ?? []].flat();
+    this.userBeforeSendLog = [resolved.beforeSendLog ?? []].flat();
+    this.composeHooks();
+    this.beforeSendOptions = {
+      timeout: resolved.beforeSendTimeout,
+      onTimeout: resolved.beforeSendTimeoutAction,
+      onError: (err) => this.reportError(err),
+    };
+    this.batchSize = resolved.batchSize;
+    this.maxBatchBytes = resolved.maxBatchBytes;
     this.deviceId = uuid();
     this.sessionId = uuid();
 
-    this.transport = new HttpTransport({
-      endpoint: resolved.endpoint,
-      apiKey: resolved.apiKey,
-      maxRetries: resolved.maxRetries,
-      networkTimeout: resolved.networkTimeout,
-      gzip: resolved.gzip,
-      onError: this.onError,
-      onPayloadTooLarge: () => {
-        this.eventBatcher.halveBatchSize();
-        this.logBatcher.halveBatchSize();
-        this.sdkDebug("413 received, halved batch size");
-      },
-    });
+    this.clock = resolved.correctClockSkew
+      ? new ClockSkew({ onChange: (offset) => this.sdkDebug(`clock skew ${offset}ms, correcting timestamps`) })
+      : null;
+
+    if (resolved.transport || resolved.dryRun) {
+      // The spool replays raw NDJSON lines, which only the HTTP transport sends
+      if (resolved.spoolDir) {
+        throw new ConfigurationError("spoolDir cannot be combined with a custom transport or dryRun");
+      }
+      this.http = null;
+      this.transport = resolved.dryRun
+        ? new DryRunTransport({ log: (msg) => this.sdkDebug(msg) })
+        : resolved.transport!;
+    } else {
+      this.http = new HttpTransport({
+        endpoint: resolved.endpoint,
+        apiKey: resolved.apiKey,
+        maxRetries: resolved.maxRetries,
+        networkTimeout: resolved.networkTimeout,
+        gzip: resolved.gzip,
+        compression: resolved.compression.length > 0 ? resolved.compression : undefined,
+        compressionThreshold: resolved.compressionThreshold,
+        flatten: resolved.flattenProperties,
+        onError: (err) => this.reportError(err),
+        onRejected: resolved.onRejected,
+        onEndpointChange: (endpoint) => this.sdkDebug(`sending to ${endpoint}`),
+        stats: this.counters,
+        // One breaker for events, logs and spool drains
+        breaker: new CircuitBreaker({
+          threshold: resolved.circuitBreakerThreshold,
+          cooldown: resolved.circuitBreakerCooldown,
+          onStateChange: (state) => this.sdkDebug(`circuit ${state}`),
+        }),
+        clock: this.clock ?? undefined,
+      });
+      this.transport = this.http;
+    }
 
     this.eventBatcher = new Batcher<JsonEvent>({
       size: resolved.batchSize,
       interval: resolved.flushInterval,
       maxQueueSize: resolved.maxQueueSize,
-      send: (items) => this.transport.sendEvents(items),
+      maxBatchBytes: resolved.maxBatchBytes,
+      // Corrected copies at send time; queued items keep the client clock
+      send: (items) => this.sendBatch({ kind: "events", items: this.clock ? this.clock.correct(items) : items }),
+      isPriority: (event) => event.event !== undefined && resolved.priorityEvents.includes(event.event),
       onOverflow: () => {
+        this.counters.dropped("events", "overflow");
         this.sdkDebug("event queue overflow, dropping oldest item");
       },
+      onError: (err) => {
+        this.counters.dropped("events", "validation");
+        this.reportError(err);
+      },
     });
 
     this.logBatcher = new Batcher<JsonLog>({
       size: resolved.batchSize,
       interval: resolved.flushInterval,
       maxQueueSize: resolved.maxQueueSize,
-      send: (items) => this.transport.sendLogs(items),
+      maxBatchBytes: resolved.maxBatchBytes,
+      send: (items) => this.sendBatch({ kind: "logs", items: this.clock ? this.clock.correct(items) : items }),
+      isPriority: (log) => resolved.priorityLevels.includes(log.level),
       onOverflow: () => {
+        this.counters.dropped("logs", "overflow");
         this.sdkDebug("log queue overflow, dropping oldest item");
       },
+      onError: (err) => {
+        this.counters.dropped("logs", "validation");
+        this.reportError(err);
+      },
     });
 
+    const suppression = {
+      dedupeWindow: resolved.dedupeWindow,
+      rateLimit: resolved.rateLimit,
+      rateLimitWindow: resolved.rateLimitWindow,
+    };
+    this.eventSuppressor = new Suppressor({
+      ...suppression,
+      onSummary: (eventName, suppressed) => this.logSuppressed("event", eventName, suppressed),
+    });
+    this.logSuppressor = new Suppressor({
+      ...suppression,
+      onSummary: (message, suppressed) => this.logSuppressed("message", message, suppressed),
+    });
+
+    if (resolved.spoolDir) {
+      this.spool = new Spool({
+        directory: resolved.spoolDir,
+        maxBytes: resolved.spoolMaxBytes,
+        segmentBytes: resolved.spoolSegmentBytes,
+        onDrop: (segment, bytes) => {
+          this.sdkDebug(`spool over ${resolved.spoolMaxBytes} bytes, dropped ${segment} (${bytes} bytes)`);
+        },
+      });
+      // Retry spooled segments during quiet periods and after outages
+      this.spoolTimer = setInterval(() => {
+        this.drainSpool().catch(() => {});
+      }, resolved.flushInterval);
+      this.spoolTimer.unref();
+      // Recover segments left behind by a previous process
+      this.drainSpool().catch(() => {});
+    }
+
+    resolved.destinations.forEach((options, index) => {
+      const destination = this.createDestination(options, index, resolved);
+      if (this.destinations.some((d) => d.name === destination.name)) {
+        throw new ConfigurationError(`destination "${destination.name}" is configured twice; give each a unique name`);
+      }
+      this.destinations.push(destination);
+    });
+
+    if (resolved.statsInterval > 0) {
+      this.statsTimer = setInterval(() => this.logStats(), resolved.statsInterval);
+      this.statsTimer.unref();
+    }
+
     this.sdkDebug(`initialized (endpoint=${resolved.endpoint}, batch=${resolved.batchSize}, flush=${resolved.flushInterval}ms)`);
+
+    for (const plugin of resolved.plugins) {
+      this.use(plugin);
+    }
+  }
+
+  // --- Plugins ---
+
+  /**
+   * Register a plugin. Its `beforeEvent`/`beforeLog` hooks run after those of
+   * plugins registered earlier, and `setup` is called right away.
+   */
+  use(plugin: TellPlugin<Tell<E>>): void {
+    if (this.closed) {
+      this.reportError(new ClosedError());
+      return;
+    }
+    if (this.plugins.some((p) => p.name === plugin.name)) {
+      this.reportError(new ConfigurationError(`plugin "${plugin.name}" is already registered`));
+      return;
+    }
+    this.plugins.push(plugin);
+    this.composeHooks();
+    if (plugin.setup) plugin.setup(this);
+    this.sdkDebug(`plugin registered: ${plugin.name}`);
   }
 
   // --- Super Properties ---
@@ -136,17 +313,26 @@ export class Tell {
   // --- Events ---
 
   private _track(userId: string, eventName: string, properties: Properties | undefined, service: string | undefined): void {
-    if (this._disabled) return;
+    if (this._disabled) { this.counters.dropped("events", "optOut"); return; }
     if (this.closed) { this.reportError(new ClosedError()); return; }
     try {
       validateUserId(userId);
       validateEventName(eventName);
+      validateProperties(properties);
     } catch (err) {
+      this.counters.dropped("events", "validation");
       this.reportError(err);
       return;
     }
+    if (
+      this.eventSuppressor.enabled &&
+      !this.eventSuppressor.admit(eventName, JSON.stringify([userId, eventName, properties ?? null]))
+    ) {
+      this.counters.dropped("events", "suppressed");
+      return;
+    }
 
-    let event: JsonEvent | null = {
+    const event: JsonEvent = {
       type: "track",
       event: eventName,
       service,
@@ -158,29 +344,26 @@ export class Tell {
       ...properties,
     };
 
-    if (this.beforeSend) {
-      event = runBeforeSend(event, this.beforeSend);
-      if (event === null) return;
-    }
-
-    this.eventBatcher.add(event);
+    this.enqueue("events", this.eventBatcher, event, this.beforeSend);
   }
 
-  track(userId: string, eventName: string, properties?: Properties): void {
-    this._track(userId, eventName, properties, this.service);
+  track<K extends EventKey<E>>(userId: string, eventName: K, ...[properties]: TrackArgs<E, K>): void {
+    this._track(userId, eventName, properties as Properties | undefined, this.service);
   }
 
   private _identify(userId: string, traits: Properties | undefined, service: string | undefined): void {
-    if (this._disabled) return;
+    if (this._disabled) { this.counters.dropped("events", "optOut"); return; }
     if (this.closed) { this.reportError(new ClosedError()); return; }
     try {
       validateUserId(userId);
+      validateProperties(traits);
     } catch (err) {
+      this.counters.dropped("events", "validation");
       this.reportError(err);
       return;
     }
 
-    let event: JsonEvent | null = {
+    const event: JsonEvent = {
       type: "identify",
       service,
       device_id: this.deviceId,
@@ -190,12 +373,7 @@ export class Tell {
       ...traits,
     };
 
-    if (this.beforeSend) {
-      event = runBeforeSend(event, this.beforeSend);
-      if (event === null) return;
-    }
-
-    this.eventBatcher.add(event);
+    this.enqueue("events", this.eventBatcher, event, this.beforeSend);
   }
 
   identify(userId: string, traits?: Properties): void {
@@ -203,17 +381,19 @@ export class Tell {
   }
 
   private _group(userId: string, groupId: string, properties: Properties | undefined, service: string | undefined): void {
-    if (this._disabled) return;
+    if (this._disabled) { this.counters.dropped("events", "optOut"); return; }
     if (this.closed) { this.reportError(new ClosedError()); return; }
     try {
       validateUserId(userId);
       if (!groupId) throw new ValidationError("groupId", "is required");
+      validateProperties(properties);
     } catch (err) {
+      this.counters.dropped("events", "validation");
       this.reportError(err);
       return;
     }
 
-    let event: JsonEvent | null = {
+    const event: JsonEvent = {
       type: "group",
       service,
       device_id: this.deviceId,
@@ -225,12 +405,7 @@ export class Tell {
       ...properties,
     };
 
-    if (this.beforeSend) {
-      event = runBeforeSend(event, this.beforeSend);
-      if (event === null) return;
-    }
-
-    this.eventBatcher.add(event);
+    this.enqueue("events", this.eventBatcher, event, this.beforeSend);
   }
 
   group(userId: string, groupId: string, properties?: Properties): void {
@@ -245,19 +420,21 @@ export class Tell {
     properties: Properties | undefined,
     service: string | undefined,
   ): void {
-    if (this._disabled) return;
+    if (this._disabled) { this.counters.dropped("events", "optOut"); return; }
     if (this.closed) { this.reportError(new ClosedError()); return; }
     try {
       validateUserId(userId);
       if (amount <= 0) throw new ValidationError("amount", "must be positive");
       if (!currency) throw new ValidationError("currency", "is required");
       if (!orderId) throw new ValidationError("orderId", "is required");
+      validateProperties(properties);
     } catch (err) {
+      this.counters.dropped("events", "validation");
       this.reportError(err);
       return;
     }
 
-    let event: JsonEvent | null = {
+    const event: JsonEvent = {
       type: "track",
       event: "Order Completed",
       service,
@@ -272,12 +449,7 @@ export class Tell {
       currency,
     };
 
-    if (this.beforeSend) {
-      event = runBeforeSend(event, this.beforeSend);
-      if (event === null) return;
-    }
-
-    this.eventBatcher.add(event);
+    this.enqueue("events", this.eventBatcher, event, this.beforeSend);
   }
 
   revenue(
@@ -291,17 +463,18 @@ export class Tell {
   }
 
   private _alias(previousId: string, userId: string, service: string | undefined): void {
-    if (this._disabled) return;
+    if (this._disabled) { this.counters.dropped("events", "optOut"); return; }
     if (this.closed) { this.reportError(new ClosedError()); return; }
     try {
       if (!previousId) throw new ValidationError("previousId", "is required");
       validateUserId(userId);
     } catch (err) {
+      this.counters.dropped("events", "validation");
       this.reportError(err);
       return;
     }
 
-    let event: JsonEvent | null = {
+    const event: JsonEvent = {
       type: "alias",
       service,
       device_id: this.deviceId,
@@ -311,12 +484,7 @@ export class Tell {
       previous_id: previousId,
     };
 
-    if (this.beforeSend) {
-      event = runBeforeSend(event, this.beforeSend);
-      if (event === null) return;
-    }
-
-    this.eventBatcher.add(event);
+    this.enqueue("events", this.eventBatcher, event, this.beforeSend);
   }
 
   alias(previousId: string, userId: string): void {
@@ -325,21 +493,31 @@ export class Tell {
 
   resetSession(): void {
     this.sessionId = uuid();
+    this.emitter.emit("session", { sessionId: this.sessionId, reason: "reset" });
   }
 
   // --- Logging ---
 
   private _log(level: LogLevel, message: string, data: Properties | undefined, service: string): void {
-    if (this._disabled) return;
+    if (this._disabled) { this.counters.dropped("logs", "optOut"); return; }
     if (this.closed) { this.reportError(new ClosedError()); return; }
     try {
       validateLogMessage(message);
+      validateProperties(data);
     } catch (err) {
+      this.counters.dropped("logs", "validation");
       this.reportError(err);
       return;
     }
+    if (
+      this.logSuppressor.enabled &&
+      !this.logSuppressor.admit(message, JSON.stringify([level, message, service, data ?? null]))
+    ) {
+      this.counters.dropped("logs", "suppressed");
+      return;
+    }
 
-    let logEntry: JsonLog | null = {
+    const logEntry: JsonLog = {
       level,
       message,
       source: this.source,
@@ -349,12 +527,7 @@ export class Tell {
       data,
     };
 
-    if (this.beforeSendLog) {
-      logEntry = runBeforeSend(logEntry, this.beforeSendLog);
-      if (logEntry === null) return;
-    }
-
-    this.logBatcher.add(logEntry);
+    this.enqueue("logs", this.logBatcher, logEntry, this.beforeSendLog);
   }
 
   log(level: LogLevel, message: string, data?: Properties): void {
@@ -391,9 +564,9 @@ export class Tell {
 
   // --- Service Scoping ---
 
-  withService(service: string): TellServiceScope {
+  withService(service: string): TellServiceScope<E> {
     return {
-      track: (userId, eventName, properties) => this._track(userId, eventName, properties, service),
+      track: (userId, eventName, ...[properties]) => this._track(userId, eventName, properties as Properties | undefined, service),
       identify: (userId, traits) => this._identify(userId, traits, service),
       group: (userId, groupId, properties) => this._group(userId, groupId, properties, service),
       revenue: (userId, amount, currency, orderId, properties) => this._revenue(userId, amount, currency, orderId, properties, service),
@@ -412,32 +585,321 @@ export class Tell {
     };
   }
 
+  // --- Listeners ---
+
+  /**
+   * Observe the pipeline in-process: "event" and "log" receive items as they
+   * are queued, after every hook. Returns a function that unsubscribes.
+   */
+  on<K extends TellEventName>(name: K, listener: TellListener<K>): () => void {
+    return this.emitter.on(name, listener);
+  }
+
+  off<K extends TellEventName>(name: K, listener: TellListener<K>): void {
+    this.emitter.off(name, listener);
+  }
+
+  // --- Stats ---
+
+  /** Delivery counters since the client was created, plus current queue depths. */
+  stats(): TellStats {
+    const stats = this.counters.snapshot({ events: this.eventBatcher.pending, logs: this.logBatcher.pending });
+    if (this.destinations.length > 0) {
+      stats.destinations = Object.fromEntries(this.destinations.map((d) => [d.name, d.stats()]));
+    }
+    return stats;
+  }
+
   // --- Lifecycle ---
 
   async flush(): Promise<void> {
-    await Promise.all([this.eventBatcher.flush(), this.logBatcher.flush()]);
+    this.eventSuppressor.sweep();
+    this.logSuppressor.sweep();
+    await Promise.all([this.eventBatcher.flush(), this.logBatcher.flush(), ...this.destinations.map((d) => d.flush())]);
+    if (this.spool) await this.drainSpool().catch((err) => this.reportError(err));
   }
 
   async close(): Promise<void> {
     if (this.closed) return;
     this.closed = true;
     this.sdkDebug("closing...");
-    const work = Promise.all([this.eventBatcher.close(), this.logBatcher.close()]);
+    // Report suppression counts from windows that have not ended yet
+    this.eventSuppressor.sweep(Infinity);
+    this.logSuppressor.sweep(Infinity);
+    if (this.spoolTimer !== null) {
+      clearInterval(this.spoolTimer);
+      this.spoolTimer = null;
+    }
+    if (this.statsTimer !== null) {
+      clearInterval(this.statsTimer);
+      this.statsTimer = null;
+    }
+    const work = Promise.all([
+      Promise.all([this.eventBatcher.close(), this.logBatcher.close()]).then(() =>
+        this.spool ? this.drainSpool() : undefined
+      ),
+      ...this.destinations.map((d) => d.close()),
+    ]);
     const timeout = new Promise<never>((_, reject) =>
       setTimeout(() => reject(new Error("close timed out")), this.closeTimeout)
     );
     try {
       await Promise.race([work, timeout]);
+      await this.transport.close();
     } catch (err) {
       this.reportError(err);
     }
+    // Tear down in reverse so later plugins can still rely on earlier ones
+    for (const plugin of [...this.plugins].reverse()) {
+      if (!plugin.teardown) continue;
+      try {
+        await plugin.teardown();
+      } catch (err) {
+        this.reportError(err);
+      }
+    }
   }
 
   // --- Internal ---
 
-  private reportError(err: unknown): void {
-    if (this.onError && err instanceof Error) {
-      this.onError(err);
+  /** Run beforeSend hooks and queue the result; async hooks keep the item's place in line. */
+  private enqueue<T extends JsonEvent | JsonLog>(
+    kind: StatsKind,
+    batcher: Batcher<T>,
+    item: T,
+    hooks: BeforeSendFn<T> | BeforeSendFn<T>[] | undefined
+  ): void {
+    this.counters.enqueued(kind);
+    // Before the hooks, so they see the id that retries and spool replays reuse
+    item.message_id ??= messageId();
+    const result = hooks ? runBeforeSend(item, hooks, this.beforeSendOptions) : item;
+    if (result === null) {
+      this.counters.dropped(kind, "beforeSend");
+      return;
+    }
+    if (result instanceof Promise) {
+      batcher.addPending(
+        result.then((resolved) => {
+          if (resolved === null) this.counters.dropped(kind, "beforeSend");
+          else this.queued(kind, resolved);
+          return resolved;
+        })
+      );
+    } else {
+      this.queued(kind, result);
+      batcher.add(result);
+    }
+  }
+
+  /** Tell listeners about an item that passed the hooks, and hand it to each destination. */
+  private queued(kind: StatsKind, item: JsonEvent | JsonLog): void {
+    if (kind === "events") {
+      this.emitter.emit("event", item as JsonEvent);
+      for (const destination of this.destinations) destination.addEvent(item as JsonEvent);
+    } else {
+      this.emitter.emit("log", item as JsonLog);
+      for (const destination of this.destinations) destination.addLog(item as JsonLog);
+    }
+  }
+
+  /** Summary for items dropped by the dedupe window or rate limiter. Bypasses beforeSendLog. */
+  private logSuppressed(kind: "event" | "message", key: string, suppressed: number): void {
+    this.sdkDebug(`suppressed ${suppressed} duplicates of ${kind} "${key}"`);
+    this.addLog({
+      level: "warning",
+      message: `suppressed ${suppressed} duplicates of ${kind} "${key}"`,
+      source: this.source,
+      service: this.service ?? "app",
+      session_id: this.sessionId,
+      timestamp: Date.now(),
+      data: { [kind]: key, suppressed },
+    });
+  }
+
+  /** Periodic `statsInterval` self-report. Bypasses beforeSendLog like the suppression summary. */
+  private logStats(): void {
+    const stats = this.stats();
+    this.addLog({
+      level: "info",
+      message: "sdk stats",
+      source: this.source,
+      service: this.service ?? "app",
+      session_id: this.sessionId,
+      timestamp: Date.now(),
+      data: statsToProperties(stats),
+    });
+  }
+
+  /** Queue an SDK-generated log, skipping the hooks. */
+  private addLog(log: JsonLog): void {
+    this.counters.enqueued("logs");
+    log.message_id ??= messageId();
+    this.queued("logs", log);
+    this.logBatcher.add(log);
+  }
+
+  private spoolAndDrain(kind: SpoolKind, lines: string[]): Promise<void> {
+    try {
+      this.spool!.append(kind, lines);
+    } catch (err) {
+      // Disk full or directory gone — keep items in the batcher for the next flush
+      this.reportError(err);
+      throw err;
+    }
+    // Items are durable once spooled; a failed drain must not re-queue them
+    return this.drainSpool().catch((err) => this.reportError(err));
+  }
+
+  private drainSpool(): Promise<void> {
+    if (!this.spool) return Promise.resolve();
+    // Queue behind an in-flight drain so lines spooled meanwhile are included
+    const spool = this.spool;
+    const run = (this.draining ?? Promise.resolve()).then(() =>
+      this.http!.drain(spool, this.batchSize, this.maxBatchBytes)
+    );
+    const settled: Promise<void> = run
+      .catch(() => {})
+      .then(() => {
+        if (this.draining === settled) this.draining = null;
+      });
+    this.draining = settled;
+    return run;
+  }
+
+  /**
+   * A destination delivers through its own transport and circuit breaker,
+   * so an outage there never holds up the main endpoint. Settings it does
+   * not override come from the client.
+   */
+  private createDestination(options: DestinationOptions, index: number, resolved: ResolvedConfig): Destination {
+    if (options.apiKey !== undefined) validateApiKey(options.apiKey);
+    const endpoint = options.endpoint ?? resolved.endpoint;
+    const name = options.name ?? (options.transport ? `destination ${index + 1}` : [endpoint].flat()[0]);
+    const stats = new StatsRecorder();
+    const debug = (msg: string) => this.sdkDebug(`destination "${name}": ${msg}`);
+
+    let transport: Transport;
+    if (resolved.dryRun) {
+      transport = new DryRunTransport({ log: debug });
+    } else if (options.transport) {
+      transport = options.transport;
+    } else {
+      transport = new HttpTransport({
+        endpoint,
+        apiKey: options.apiKey ?? resolved.apiKey,
+        maxRetries: resolved.maxRetries,
+        networkTimeout: resolved.networkTimeout,
+        gzip: resolved.gzip,
+        compression: resolved.compression.length > 0 ? resolved.compression : undefined,
+        compressionThreshold: resolved.compressionThreshold,
+        flatten: resolved.flattenProperties,
+        onError: (err) => this.reportError(err, stats),
+        onEndpointChange: (url) => debug(`sending to ${url}`),
+        stats,
+        breaker: new CircuitBreaker({
+          threshold: resolved.circuitBreakerThreshold,
+          cooldown: resolved.circuitBreakerCooldown,
+          onStateChange: (state) => debug(`circuit ${state}`),
+        }),
+        clock: this.clock ?? undefined,
+      });
+    }
+
+    return new Destination({
+      name,
+      transport,
+      countsSent: transport instanceof HttpTransport,
+      stats,
+      beforeSend: [options.beforeSend ?? []].flat(),
+      beforeSendLog: [options.beforeSendLog ?? []].flat(),
+      beforeSendOptions: this.beforeSendOptions,
+      batchSize: options.batchSize ?? resolved.batchSize,
+      flushInterval: options.flushInterval ?? resolved.flushInterval,
+      maxQueueSize: options.maxQueueSize ?? resolved.maxQueueSize,
+      maxBatchBytes: options.maxBatchBytes ?? resolved.maxBatchBytes,
+      clock: this.clock,
+      onError: (err) => this.reportError(err, stats),
+      debug: (msg) => this.sdkDebug(msg),
+    });
+  }
+
+  /** Rebuild the hook pipelines: built-in stages, then plugins, then user hooks. */
+  private composeHooks(): void {
+    const events = [...this.eventStages];
+    const logs = [...this.logStages];
+    for (const plugin of this.plugins) {
+      if (plugin.beforeEvent) events.push((event) => plugin.beforeEvent!(event));
+      if (plugin.beforeLog) logs.push((log) => plugin.beforeLog!(log));
+    }
+    events.push(...this.userBeforeSend);
+    logs.push(...this.userBeforeSendLog);
+    this.beforeSend = events.length > 0 ? events : undefined;
+    this.beforeSendLog = logs.length > 0 ? logs : undefined;
+  }
+
+  /** Hand a batch to the spool or transport and tell plugins how it went. */
+  private async sendBatch(batch: SentBatch): Promise<void> {
+    let result: SendResult;
+    try {
+      if (this.spool) {
+        const lines = batch.kind === "events"
+          ? this.http!.encodeEvents(batch.items)
+          : this.http!.encodeLogs(batch.items);
+        await this.spoolAndDrain(batch.kind, lines);
+        result = { delivered: false, spooled: true };
+      } else {
+        const delivered = batch.kind === "events"
+          ? await this.transport.sendEvents(batch.items)
+          : await this.transport.sendLogs(batch.items);
+        result = { delivered };
+        if (!delivered) {
+          this.counters.dropped(batch.kind, "retriesExhausted", batch.items.length);
+        } else if (!this.http) {
+          // The HTTP transport counts accepted items itself, net of rejections
+          this.counters.sent(batch.kind, batch.items.length);
+        }
+      }
+    } catch (err) {
+      if (err instanceof CircuitOpenError) {
+        this.sdkDebug(`${err.message}, keeping ${batch.items.length} ${batch.kind} queued`);
+      } else if (err instanceof NetworkError && err.statusCode === 413) {
+        this.eventBatcher.halveBatchSize();
+        this.logBatcher.halveBatchSize();
+        this.sdkDebug("413 received, halved batch size");
+      } else if (!this.spool) {
+        // Custom transports report failures by throwing; the batch stays queued
+        this.reportError(err);
+      }
+      this.afterSend(batch, { delivered: false, error: err instanceof Error ? err : new Error(String(err)) });
+      throw err;
+    }
+    this.afterSend(batch, result);
+  }
+
+  private afterSend(batch: SentBatch, result: SendResult): void {
+    this.emitter.emit("flush", { ...batch, ...result });
+    for (const plugin of this.plugins) {
+      if (!plugin.afterSend) continue;
+      try {
+        plugin.afterSend(batch, result);
+      } catch (err) {
+        this.reportError(err);
+      }
+    }
+  }
+
+  /** Destinations pass their own `stats`, so the error shows up as their `lastError`. */
+  private reportError(err: unknown, stats: StatsRecorder = this.counters): void {
+    if (!(err instanceof Error)) return;
+    stats.error(err);
+    if (this.onError) this.onError(err);
+    this.emitter.emit("error", err);
+    for (const plugin of this.plugins) {
+      if (!plugin.onError) continue;
+      // A failing error hook must not recurse back into reportError
+      try {
+        plugin.onError(err);
+      } catch {}
     }
   }
 
@@ -0,0 +1,198 @@
+import {
+  appendFileSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  statSync,
+  unlinkSync,
+  writeFileSync,
+} from "node:fs";
+import { join } from "node:path";
+
+export type SpoolKind = "events" | "logs";
+
+export interface SpoolConfig {
+  directory: string;
+  maxBytes: number; // total size cap; oldest sealed segments are dropped beyond it
+  segmentBytes: number; // active segment is rotated once it grows past this
+  onDrop?: (segment: string, bytes: number) => void;
+}
+
+const SEGMENT_RE = /^(events|logs)-(\d+)\.ndjson$/;
+const SEQ_WIDTH = 16;
+
+/**
+ * Append-only NDJSON segments on disk, one active segment per kind.
+ *
+ * Each `append()` writes whole lines synchronously, so anything the batcher
+ * hands to the spool survives a crash. The active segment is rotated once it
+ * reaches `segmentBytes` and can be drained in place before then: lines
+ * appended after it was read survive `rewrite()` and `remove()`.
+ * Segments left behind by a previous process are picked up as sealed
+ * segments on construction.
+ * A directory must be owned by a single process.
+ */
+export class Spool {
+  private readonly directory: string;
+  private readonly maxBytes: number;
+  private readonly segmentBytes: number;
+  private readonly onDrop?: (segment: string, bytes: number) => void;
+  private readonly active: Record<SpoolKind, { path: string; bytes: number } | null> = {
+    events: null,
+    logs: null,
+  };
+  // Bytes of an active segment already handed out by read()
+  private readonly readUpTo = new Map<string, number>();
+  private seq = 0;
+
+  constructor(config: SpoolConfig) {
+    this.directory = config.directory;
+    this.maxBytes = config.maxBytes;
+    this.segmentBytes = config.segmentBytes;
+    this.onDrop = config.onDrop;
+
+    mkdirSync(this.directory, { recursive: true });
+    for (const name of readdirSync(this.directory)) {
+      const match = SEGMENT_RE.exec(name);
+      if (match) this.seq = Math.max(this.seq, Number(match[2]));
+    }
+  }
+
+  /** Append serialized items to the active segment of a kind. */
+  append(kind: SpoolKind, lines: string[]): void {
+    if (lines.length === 0) return;
+    const data = lines.join("\n") + "\n";
+
+    let segment = this.active[kind];
+    if (!segment) {
+      segment = { path: this.nextSegmentPath(kind), bytes: 0 };
+      this.active[kind] = segment;
+    }
+
+    appendFileSync(segment.path, data);
+    segment.bytes += Buffer.byteLength(data);
+
+    if (segment.bytes >= this.segmentBytes) this.seal(kind);
+    this.enforceCap();
+  }
+
+  /** Close the active segment; the next append starts a new one. */
+  seal(kind: SpoolKind): void {
+    this.active[kind] = null;
+  }
+
+  /** Path of the segment a kind is appending to, if any. */
+  activeSegment(kind: SpoolKind): string | null {
+    return this.active[kind]?.path ?? null;
+  }
+
+  /** Sealed segment paths for a kind, oldest first. */
+  segments(kind: SpoolKind): string[] {
+    const activePath = this.active[kind]?.path;
+    return this.list()
+      .filter((s) => s.kind === kind && s.path !== activePath)
+      .map((s) => s.path);
+  }
+
+  /** Read the lines of a segment. Returns an empty array if it has vanished. */
+  read(segment: string): string[] {
+    try {
+      const data = readFileSync(segment);
+      if (this.kindOf(segment)) this.readUpTo.set(segment, data.length);
+      else this.readUpTo.delete(segment);
+      return data.toString("utf8").split("\n").filter((l) => l.length > 0);
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Atomically replace a segment's content with the lines still to send,
+   * keeping anything appended since it was last read.
+   */
+  rewrite(segment: string, lines: string[]): void {
+    const data = (lines.length > 0 ? lines.join("\n") + "\n" : "") + this.unread(segment);
+    const kind = this.kindOf(segment);
+    if (data.length === 0) {
+      this.unlink(segment);
+      if (kind) this.active[kind] = null;
+      return;
+    }
+    const tmp = `${segment}.tmp`;
+    writeFileSync(tmp, data);
+    renameSync(tmp, segment);
+    if (kind) this.active[kind]!.bytes = Buffer.byteLength(data);
+  }
+
+  /** Delete a segment once all of its lines were sent. */
+  remove(segment: string): void {
+    if (this.readUpTo.has(segment)) this.rewrite(segment, []);
+    else this.unlink(segment);
+  }
+
+  /** Total bytes currently on disk across all segments. */
+  get bytes(): number {
+    return this.list().reduce((sum, s) => sum + s.bytes, 0);
+  }
+
+  /** The kind whose active segment this is, or null for sealed segments. */
+  private kindOf(segment: string): SpoolKind | null {
+    if (this.active.events?.path === segment) return "events";
+    if (this.active.logs?.path === segment) return "logs";
+    return null;
+  }
+
+  /** Lines appended to a segment after read() handed it out. */
+  private unread(segment: string): string {
+    const offset = this.readUpTo.get(segment);
+    if (offset === undefined) return "";
+    this.readUpTo.delete(segment);
+    try {
+      return readFileSync(segment).subarray(offset).toString("utf8");
+    } catch {
+      return "";
+    }
+  }
+
+  private unlink(segment: string): void {
+    try {
+      unlinkSync(segment);
+    } catch {
+      // already gone
+    }
+  }
+
+  private nextSegmentPath(kind: SpoolKind): string {
+    this.seq++;
+    return join(this.directory, `${kind}-${String(this.seq).padStart(SEQ_WIDTH, "0")}.ndjson`);
+  }
+
+  private list(): { kind: SpoolKind; path: string; seq: number; bytes: number }[] {
+    const out: { kind: SpoolKind; path: string; seq: number; bytes: number }[] = [];
+    for (const name of readdirSync(this.directory)) {
+      const match = SEGMENT_RE.exec(name);
+      if (!match) continue;
+      const path = join(this.directory, name);
+      try {
+        out.push({ kind: match[1] as SpoolKind, path, seq: Number(match[2]), bytes: statSync(path).size });
+      } catch {
+        // removed between readdir and stat
+      }
+    }
+    return out.sort((a, b) => a.seq - b.seq);
+  }
+
+  private enforceCap(): void {
+    const all = this.list();
+    let total = all.reduce((sum, s) => sum + s.bytes, 0);
+    for (const s of all) {
+      if (total <= this.maxBytes) return;
+      if (this.kindOf(s.path)) continue;
+      this.unlink(s.path);
+      this.readUpTo.delete(s.path);
+      total -= s.bytes;
+      if (this.onDrop) this.onDrop(s.path, s.bytes);
+    }
+  }
+}
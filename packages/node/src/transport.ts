@@ -1,136 +1,315 @@
-import type { JsonEvent, JsonLog } from "@tell-rs/core";
-import { NetworkError } from "@tell-rs/core";
-import { gzipSync } from "node:zlib";
+import type { CircuitBreaker, ClockSkew, JsonEvent, JsonLog, RejectedItem, RejectionReason, StatsRecorder, Transport } from "@tell-rs/core";
+import { CircuitOpenError, Failover, NetworkError, SerializationError, encodeEvents, encodeLogs, handleResponse, idempotencyKey, retryAfter, retryDelay } from "@tell-rs/core";
+import { setImmediate as nextTurn } from "node:timers/promises";
+import { canEncode, compressLines, type ContentEncoding } from "./compress.js";
+import type { Spool, SpoolKind } from "./spool.js";
 
 export interface TransportConfig {
-  endpoint: string;
+  /** Collector URL, or a list tried in order when one cannot be reached. */
+  endpoint: string | string[];
   apiKey: string;
   maxRetries: number;
   networkTimeout: number;
+  /** Shorthand for `compression: ["gzip"]`. */
   gzip: boolean;
+  /**
+   * Encodings to compress bodies with, most preferred first. Ones this Node
+   * cannot produce are skipped, and a 415 answer narrows the list to what the
+   * collector lists in its `Accept-Encoding` header.
+   */
+  compression?: ContentEncoding[];
+  /** Bodies smaller than this many bytes are sent uncompressed. Default 0. */
+  compressionThreshold?: number;
+  /** Flatten nested properties into dot-separated keys on the wire. */
+  flatten?: boolean;
   onError?: (error: Error) => void;
   onPayloadTooLarge?: () => void;
+  /** Called on 207 with the refused items and why, index-aligned. */
+  onRejected?: (items: RejectedItem[], reasons: RejectionReason[]) => void;
+  /** Called when sends move to another endpoint of the list. */
+  onEndpointChange?: (endpoint: string) => void;
+  /** Refuses sends after repeated failures; sends throw CircuitOpenError while it is open. */
+  breaker?: CircuitBreaker;
+  /** Records sent and rejected items, retries and bytes. */
+  stats?: StatsRecorder;
+  /** Learns the collector's clock from the `Date` header of each response. */
+  clock?: ClockSkew;
 }
 
-export class HttpTransport {
-  private readonly endpoint: string;
+const PATHS: Record<SpoolKind, string> = { events: "/v1/events", logs: "/v1/logs" };
+
+// Longest Retry-After waited out between attempts; longer ones open the circuit instead
+const MAX_RETRY_WAIT = 30_000;
+
+// Items serialized per turn of the event loop, so large batches do not stall other work
+const SERIALIZE_SLICE = 500;
+
+/** A batch on its way out, shared by the attempts on each endpoint. */
+interface OutgoingRequest {
+  kind: SpoolKind;
+  lines: string[];
+  /** Uncompressed body length in bytes. */
+  size: number;
+  headers: Record<string, string>;
+  itemAt: (index: number) => RejectedItem | undefined;
+  payload: string | Buffer;
+  encoding: ContentEncoding | null;
+}
+
+export class HttpTransport implements Transport {
+  private readonly failover: Failover;
   private readonly apiKey: string;
   private readonly maxRetries: number;
   private readonly networkTimeout: number;
-  private readonly gzip: boolean;
+  private encodings: ContentEncoding[];
+  private readonly compressionThreshold: number;
+  private readonly flatten: boolean;
   private readonly onError?: (error: Error) => void;
   private readonly onPayloadTooLarge?: () => void;
+  private readonly onRejected?: (items: RejectedItem[], reasons: RejectionReason[]) => void;
+  private readonly breaker?: CircuitBreaker;
+  private readonly stats?: StatsRecorder;
+  private readonly clock?: ClockSkew;
 
   constructor(config: TransportConfig) {
-    this.endpoint = config.endpoint;
+    this.failover = new Failover(config.endpoint, { onSwitch: config.onEndpointChange });
     this.apiKey = config.apiKey;
     this.maxRetries = config.maxRetries;
     this.networkTimeout = config.networkTimeout;
-    this.gzip = config.gzip;
+    this.encodings = (config.compression ?? (config.gzip ? ["gzip"] : [])).filter(canEncode);
+    this.compressionThreshold = config.compressionThreshold ?? 0;
+    this.flatten = config.flatten ?? false;
     this.onError = config.onError;
     this.onPayloadTooLarge = config.onPayloadTooLarge;
+    this.onRejected = config.onRejected;
+    this.breaker = config.breaker;
+    this.stats = config.stats;
+    this.clock = config.clock;
+  }
+
+  /** Resolves true once the server answered, false if it was never reached. */
+  async sendEvents(events: JsonEvent[]): Promise<boolean> {
+    if (events.length === 0) return true;
+    const lines = await serialize(events, (slice) => this.encodeEvents(slice));
+    return this.send("events", lines, (i) => events[i], idempotencyKey(events));
+  }
+
+  /** Resolves true once the server answered, false if it was never reached. */
+  async sendLogs(logs: JsonLog[]): Promise<boolean> {
+    if (logs.length === 0) return true;
+    const lines = await serialize(logs, (slice) => this.encodeLogs(slice));
+    return this.send("logs", lines, (i) => logs[i], idempotencyKey(logs));
+  }
+
+  /** Serialize events to NDJSON lines in wire format. */
+  encodeEvents(events: JsonEvent[]): string[] {
+    return encodeEvents(events, this.flatten);
+  }
+
+  /** Serialize logs to NDJSON lines in wire format. */
+  encodeLogs(logs: JsonLog[]): string[] {
+    return encodeLogs(logs, this.flatten);
   }
 
-  async sendEvents(events: JsonEvent[]): Promise<void> {
-    if (events.length === 0) return;
-    const body = events.map((e) => JSON.stringify(e)).join("\n");
-    await this.send("/v1/events", body);
+  async close(): Promise<void> {
+    // Nothing to release: every request is awaited by the batcher
   }
 
-  async sendLogs(logs: JsonLog[]): Promise<void> {
-    if (logs.length === 0) return;
-    const body = logs.map((l) => JSON.stringify(l)).join("\n");
-    await this.send("/v1/logs", body);
+  /**
+   * Send every spool segment, oldest first and the active one last, in chunks of at most
+   * `batchSize` lines and `maxBatchBytes` bytes. Segments are removed once the server has answered for all of
+   * their lines; on failure the unsent remainder stays on disk for the
+   * next drain. The active segment is drained in place, so it keeps
+   * filling up to `segmentBytes` while the collector is unreachable.
+   */
+  async drain(spool: Spool, batchSize: number, maxBatchBytes = Infinity): Promise<void> {
+    for (const kind of ["events", "logs"] as const) {
+      const active = spool.activeSegment(kind);
+      for (const segment of active ? [...spool.segments(kind), active] : spool.segments(kind)) {
+        const { lines, items } = this.readSegment(spool, kind, segment);
+        let sent = 0;
+        let size = batchSize;
+
+        while (sent < lines.length) {
+          const chunk = lines.slice(sent, sent + size);
+          let bytes = Buffer.byteLength(chunk[0]) + 1;
+          for (let i = 1; i < chunk.length; i++) {
+            bytes += Buffer.byteLength(chunk[i]) + 1;
+            if (bytes > maxBatchBytes) {
+              chunk.length = i;
+              break;
+            }
+          }
+          let answered: boolean;
+          try {
+            const chunkItems = items.slice(sent, sent + chunk.length);
+            answered = await this.send(kind, chunk, (i) => chunkItems[i], idempotencyKey(chunkItems));
+          } catch (err) {
+            // 413 — retry the same lines in smaller chunks
+            if (err instanceof NetworkError && err.statusCode === 413 && size > 1) {
+              size = Math.max(1, Math.floor(size / 2));
+              continue;
+            }
+            answered = false;
+          }
+          if (!answered) break;
+          sent += chunk.length;
+        }
+
+        if (sent >= lines.length) {
+          spool.remove(segment);
+        } else {
+          if (sent > 0) spool.rewrite(segment, lines.slice(sent));
+          return; // collector unreachable — stop until the next drain
+        }
+      }
+    }
   }
 
-  private resolvePort(): string {
-    try {
-      const u = new URL(this.endpoint);
-      if (u.port) return u.port;
-      return u.protocol === "https:" ? "443" : "80";
-    } catch {
-      return "unknown";
+  /**
+   * Spooled lines are already in wire format and carry their message ids.
+   * Lines that no longer parse, e.g. cut short by a crash mid-write, are
+   * skipped and reported, so they cannot hold up the rest of the spool.
+   */
+  private readSegment(spool: Spool, kind: SpoolKind, segment: string): { lines: string[]; items: RejectedItem[] } {
+    const lines: string[] = [];
+    const items: RejectedItem[] = [];
+    let corrupt = 0;
+    for (const line of spool.read(segment)) {
+      try {
+        items.push(JSON.parse(line) as RejectedItem);
+        lines.push(line);
+      } catch {
+        corrupt++;
+      }
+    }
+    if (corrupt > 0) {
+      if (this.stats) this.stats.dropped(kind, "validation", corrupt);
+      if (this.onError) this.onError(new SerializationError(`skipped ${corrupt} unreadable lines in spool segment ${segment}`));
     }
+    return { lines, items };
   }
 
-  private async send(path: string, body: string): Promise<void> {
-    const url = `${this.endpoint}${path}`;
-    const port = this.resolvePort();
+  /**
+   * POST a batch with retries, moving down the endpoint list when an
+   * endpoint cannot be reached. Resolves true once a server has answered
+   * (accepted or permanently rejected), false if none was reached.
+   * Throws CircuitOpenError instead while the circuit breaker is open.
+   */
+  private async send(
+    kind: SpoolKind,
+    lines: string[],
+    itemAt: (index: number) => RejectedItem | undefined,
+    key: string | undefined
+  ): Promise<boolean> {
+    if (this.breaker && !this.breaker.allow()) {
+      throw new CircuitOpenError(this.breaker.retryIn());
+    }
+    // A probe through a half-open circuit gets a single attempt
+    const maxRetries = this.breaker?.state === "half-open" ? 0 : this.maxRetries;
     const headers: Record<string, string> = {
       "Content-Type": "application/x-ndjson",
       Authorization: `Bearer ${this.apiKey}`,
     };
+    // Same key on every attempt, so the collector can drop a batch it already accepted
+    if (key) headers["Idempotency-Key"] = key;
+
+    let size = lines.length - 1;
+    for (const line of lines) size += Buffer.byteLength(line);
+    const request: OutgoingRequest = { kind, lines, size, headers, itemAt, ...(await this.encode(lines, size)) };
+    if (request.encoding) headers["Content-Encoding"] = request.encoding;
 
-    let payload: string | Buffer = body;
-    if (this.gzip) {
-      payload = gzipSync(body);
-      headers["Content-Encoding"] = "gzip";
+    // The breaker counts a failure only once every endpoint has failed
+    let wait = 0;
+    for (const index of this.failover.order()) {
+      const result = await this.sendTo(this.failover.endpoints[index], request, this.failover.probing(index) ? 0 : maxRetries);
+      if (result === true) {
+        this.failover.answered(index);
+        return true;
+      }
+      wait = result;
     }
+    return this.failed(wait);
+  }
+
+  /**
+   * Attempt one endpoint up to `1 + maxRetries` times. Resolves true once it
+   * answered, or with the Retry-After wait in ms (0 if none) when it did not.
+   */
+  private async sendTo(endpoint: string, request: OutgoingRequest, maxRetries: number): Promise<true | number> {
+    const { kind, headers } = request;
+    const count = request.lines.length;
+    const url = `${endpoint}${PATHS[kind]}`;
+    const port = resolvePort(endpoint);
 
     let lastError: Error | undefined;
+    let wait = 0;
+    let renegotiated = false;
 
-    for (let attempt = 0; attempt <= this.maxRetries; attempt++) {
-      if (attempt > 0) {
-        await this.backoff(attempt);
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      if (attempt > 0 && !renegotiated) {
+        if (this.stats) this.stats.retried();
+        await this.backoff(attempt, wait);
       }
+      renegotiated = false;
+
+      // Raw local time, so the collector can measure skew itself
+      const sentAt = Date.now();
+      headers["Sent-At"] = String(sentAt);
 
       try {
         const response = await globalThis.fetch(url, {
           method: "POST",
           headers,
-          body: payload,
+          body: request.payload,
           signal: AbortSignal.timeout(this.networkTimeout),
         });
+        if (this.clock) this.clock.observe(response.headers?.get("date"), sentAt, Date.now());
 
-        if (response.status === 202) {
-          return;
+        // Collector does not take this encoding: narrow the list and resend at once, without using up a retry
+        if (response.status === 415 && request.encoding) {
+          this.negotiate(request.encoding, response.headers?.get("accept-encoding"));
+          Object.assign(request, await this.encode(request.lines, request.size));
+          if (request.encoding) headers["Content-Encoding"] = request.encoding;
+          else delete headers["Content-Encoding"];
+          renegotiated = true;
+          attempt--;
+          continue;
         }
 
-        if (response.status === 207) {
-          if (this.onError) {
-            const data = (await response.json().catch(() => null)) as Record<string, unknown> | null;
-            this.onError(
-              new NetworkError(
-                `Partial success: ${data?.rejected ?? "unknown"} items rejected`,
-                207
-              )
-            );
-          }
-          return;
-        }
-
-        if (response.status === 413) {
-          if (this.onPayloadTooLarge) {
-            this.onPayloadTooLarge();
+        let refused = 0;
+        const answered = await handleResponse(response, {
+          onError: this.onError,
+          onPayloadTooLarge: this.onPayloadTooLarge,
+          onRejected: (reasons, rejected) => {
+            refused = rejected;
+            if (this.onRejected) this.rejected(reasons, request.itemAt);
+          },
+        });
+        if (answered) {
+          if (this.breaker) this.breaker.success();
+          if (this.stats) {
+            // Answered with anything but 202/207 means the whole batch was refused
+            const rejected = response.status === 202 || response.status === 207 ? Math.min(refused, count) : count;
+            const { payload } = request;
+            this.stats.sent(kind, count - rejected, typeof payload === "string" ? Buffer.byteLength(payload) : payload.length);
+            if (rejected > 0) this.stats.dropped(kind, "rejected", rejected);
           }
-          throw new NetworkError("Payload too large", 413);
-        }
-
-        if (response.status === 401) {
-          throw new NetworkError("Invalid API key", 401);
-        }
-
-        if (response.status >= 400 && response.status < 500) {
-          throw new NetworkError(
-            `HTTP ${response.status}: ${response.statusText}`,
-            response.status
-          );
+          return true;
         }
 
         lastError = new NetworkError(
           `HTTP ${response.status} from ${url} (port ${port}): ${response.statusText}`,
           response.status
         );
+        wait = retryAfter(response);
+        if (wait > MAX_RETRY_WAIT) break;
       } catch (err) {
         if (err instanceof NetworkError && err.statusCode === 413) {
+          if (this.breaker) this.breaker.success();
           throw err;
         }
 
-        if (err instanceof NetworkError && err.statusCode && err.statusCode < 500) {
-          if (this.onError) this.onError(err);
-          return;
-        }
-
         // DNS failures and connection refused surface as TypeError from
         // fetch. Include the full URL so the developer can verify the
         // endpoint and port. These won't resolve by retrying.
@@ -141,23 +320,87 @@ export class HttpTransport {
                 `Failed to connect to ${url} (port ${port}): ${err.message}`
               )
             );
-          return;
+          return 0;
         }
 
         lastError =
           err instanceof Error ? err : new NetworkError(String(err));
+        wait = 0;
       }
     }
 
     if (lastError && this.onError) {
       this.onError(lastError);
     }
+    return wait;
   }
 
-  private backoff(attempt: number): Promise<void> {
-    const base = 1000 * Math.pow(1.5, attempt - 1);
-    const jitter = base * 0.2 * Math.random();
-    const delay = Math.min(base + jitter, 30_000);
-    return new Promise((resolve) => setTimeout(resolve, delay));
+  /** The body for `lines`, compressed with the preferred encoding once it reaches the threshold. */
+  private async encode(lines: string[], size: number): Promise<{ payload: string | Buffer; encoding: ContentEncoding | null }> {
+    const encoding = this.encodings[0];
+    if (encoding && size >= this.compressionThreshold) {
+      try {
+        return { payload: await compressLines(lines, encoding, size), encoding };
+      } catch (err) {
+        if (this.onError) this.onError(err instanceof Error ? err : new Error(String(err)));
+      }
+    }
+    return { payload: lines.join("\n"), encoding: null };
+  }
+
+  /**
+   * Drop `refused` and keep only encodings the collector lists in the
+   * `Accept-Encoding` header of its 415 answer (RFC 7694); without one,
+   * send uncompressed from now on.
+   */
+  private negotiate(refused: ContentEncoding, accepted: string | null | undefined): void {
+    const listed = (accepted ?? "").split(",").map((coding) => coding.split(";")[0].trim().toLowerCase());
+    this.encodings = this.encodings.filter((e) => e !== refused && listed.includes(e));
+  }
+
+  private rejected(reasons: RejectionReason[], itemAt: (index: number) => RejectedItem | undefined): void {
+    const items: RejectedItem[] = [];
+    const known: RejectionReason[] = [];
+    for (const reason of reasons) {
+      const item = itemAt(reason.index);
+      if (item === undefined) continue;
+      items.push(item);
+      known.push(reason);
+    }
+    if (items.length > 0) this.onRejected!(items, known);
+  }
+
+  /** Record a send that got no answer. Once the circuit opens, throw so the batch stays queued. */
+  private failed(retryAfterMs: number): false {
+    if (!this.breaker) return false;
+    if (retryAfterMs > 0) this.breaker.pause(retryAfterMs);
+    else this.breaker.failure();
+    if (this.breaker.state === "open") throw new CircuitOpenError(this.breaker.retryIn());
+    return false;
+  }
+
+  private backoff(attempt: number, minDelay = 0): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, Math.max(retryDelay(attempt), minDelay)));
+  }
+}
+
+/** Encode items to NDJSON lines, yielding to the event loop between slices of large batches. */
+async function serialize<T>(items: T[], encode: (items: T[]) => string[]): Promise<string[]> {
+  if (items.length <= SERIALIZE_SLICE) return encode(items);
+  const lines: string[] = [];
+  for (let i = 0; i < items.length; i += SERIALIZE_SLICE) {
+    if (i > 0) await nextTurn();
+    for (const line of encode(items.slice(i, i + SERIALIZE_SLICE))) lines.push(line);
+  }
+  return lines;
+}
+
+function resolvePort(endpoint: string): string {
+  try {
+    const u = new URL(endpoint);
+    if (u.port) return u.port;
+    return u.protocol === "https:" ? "443" : "80";
+  } catch {
+    return "unknown";
   }
 }
@@ -1,6 +1,6 @@
 import { describe, it, mock } from "node:test";
 import assert from "node:assert/strict";
-import { Batcher } from "@tell-rs/core";
+import { Batcher, SerializationError } from "@tell-rs/core";
 
 describe("Batcher", () => {
   it("flushes when size threshold reached", async () => {
@@ -269,4 +269,262 @@ describe("Batcher", () => {
 
     await batcher.close();
   });
+
+  // --- maxBatchBytes ---
+
+  it("cuts batches by serialized byte size", async () => {
+    const sent: string[][] = [];
+    const batcher = new Batcher<string>({
+      size: 100,
+      interval: 60_000,
+      maxQueueSize: 1000,
+      maxBatchBytes: 20, // each '"xxxxx"' item is 7 bytes + newline
+      send: async (items) => {
+        sent.push([...items]);
+      },
+    });
+
+    batcher.add("aaaaa");
+    batcher.add("bbbbb");
+    batcher.add("ccccc");
+    await batcher.flush();
+
+    assert.deepEqual(sent, [["aaaaa", "bbbbb"], ["ccccc"]]);
+
+    await batcher.close();
+  });
+
+  it("flushes when queued bytes reach maxBatchBytes", async () => {
+    const sent: string[][] = [];
+    const batcher = new Batcher<string>({
+      size: 100,
+      interval: 60_000,
+      maxQueueSize: 1000,
+      maxBatchBytes: 16,
+      send: async (items) => {
+        sent.push([...items]);
+      },
+    });
+
+    batcher.add("aaaaa");
+    assert.equal(sent.length, 0);
+    batcher.add("bbbbb"); // 16 bytes queued — triggers flush
+    await new Promise((r) => setTimeout(r, 10));
+    assert.deepEqual(sent, [["aaaaa", "bbbbb"]]);
+
+    await batcher.close();
+  });
+
+  it("counts multi-byte characters as UTF-8 bytes", async () => {
+    const sent: string[][] = [];
+    const batcher = new Batcher<string>({
+      size: 100,
+      interval: 60_000,
+      maxQueueSize: 1000,
+      maxBatchBytes: 12, // '"ééé"' is 9 bytes + newline
+      send: async (items) => {
+        sent.push([...items]);
+      },
+    });
+
+    batcher.add("ééé");
+    batcher.add("ééé");
+    await batcher.flush();
+
+    assert.deepEqual(sent, [["ééé"], ["ééé"]]);
+
+    await batcher.close();
+  });
+
+  it("rejects single items larger than maxBatchBytes with SerializationError", async () => {
+    const errors: Error[] = [];
+    const batcher = new Batcher<string>({
+      size: 100,
+      interval: 60_000,
+      maxQueueSize: 1000,
+      maxBatchBytes: 10,
+      send: async () => {},
+      onError: (err) => errors.push(err),
+    });
+
+    batcher.add("this item is far too large");
+    assert.equal(batcher.pending, 0);
+    assert.equal(errors.length, 1);
+    assert.ok(errors[0] instanceof SerializationError);
+    assert.ok(errors[0].message.includes("exceeds maxBatchBytes"));
+
+    await batcher.close();
+  });
+
+  it("rejects items that cannot be serialized", async () => {
+    const errors: Error[] = [];
+    const batcher = new Batcher<Record<string, unknown>>({
+      size: 100,
+      interval: 60_000,
+      maxQueueSize: 1000,
+      maxBatchBytes: 1000,
+      send: async () => {},
+      onError: (err) => errors.push(err),
+    });
+
+    const cyclic: Record<string, unknown> = {};
+    cyclic.self = cyclic;
+    batcher.add(cyclic);
+
+    assert.equal(batcher.pending, 0);
+    assert.ok(errors[0] instanceof SerializationError);
+
+    await batcher.close();
+  });
+
+  it("batch size recovers gradually after halveBatchSize", async () => {
+    const sent: number[][] = [];
+    const batcher = new Batcher<number>({
+      size: 10,
+      interval: 60_000,
+      maxQueueSize: 1000,
+      send: async (items) => {
+        sent.push([...items]);
+      },
+    });
+
+    batcher.halveBatchSize(); // 10 -> 5
+    for (let i = 0; i < 4; i++) batcher.add(i);
+    await batcher.flush(); // sends 4, size grows to 6
+
+    for (let i = 0; i < 20; i++) batcher.add(i);
+    await batcher.flush();
+
+    assert.deepEqual(
+      sent.map((b) => b.length),
+      [4, 6, 7, 7] // 6 -> 7 -> 8 ... capped by remaining items
+    );
+
+    await batcher.close();
+  });
+
+  // --- Priority ---
+
+  it("flushes immediately when a priority item is added", async () => {
+    const sent: string[][] = [];
+    const batcher = new Batcher<string>({
+      size: 100,
+      interval: 60_000,
+      maxQueueSize: 1000,
+      isPriority: (item) => item.startsWith("!"),
+      send: async (items) => {
+        sent.push([...items]);
+      },
+    });
+
+    batcher.add("a");
+    assert.equal(sent.length, 0);
+
+    batcher.add("!urgent");
+    await new Promise((r) => setTimeout(r, 10));
+    assert.deepEqual(sent, [["a", "!urgent"]]);
+
+    await batcher.close();
+  });
+
+  it("evicts the oldest normal item instead of priority items on overflow", async () => {
+    const sent: string[][] = [];
+    let overflowCount = 0;
+    const batcher = new Batcher<string>({
+      size: 100,
+      interval: 60_000,
+      maxQueueSize: 3,
+      isPriority: (item) => item.startsWith("!"),
+      send: async (items) => {
+        sent.push([...items]);
+      },
+      onOverflow: () => overflowCount++,
+    });
+
+    batcher.add("a");
+    batcher.add("b");
+    batcher.add("c");
+    batcher.add("d"); // drops "a"
+    assert.equal(overflowCount, 1);
+
+    await batcher.flush();
+    assert.deepEqual(sent, [["b", "c", "d"]]);
+
+    await batcher.close();
+  });
+
+  it("never evicts priority items for normal ones", async () => {
+    const sent: string[][] = [];
+    let fail = true;
+    const batcher = new Batcher<string>({
+      size: 100,
+      interval: 60_000,
+      maxQueueSize: 2,
+      isPriority: (item) => item.startsWith("!"),
+      send: async (items) => {
+        if (fail) throw new Error("collector down");
+        sent.push([...items]);
+      },
+    });
+
+    batcher.add("!one");
+    batcher.add("!two");
+    await batcher.flush(); // fails, both stay queued
+    batcher.add("normal"); // queue full of priority items — dropped
+    batcher.add("!three"); // evicts the oldest priority item
+    await new Promise((r) => setTimeout(r, 10)); // let the triggered flush fail
+
+    fail = false;
+    await batcher.flush();
+    assert.deepEqual(sent, [["!two", "!three"]]);
+
+    await batcher.close();
+  });
+
+  it("addPending holds its place so later items are not sent first", async () => {
+    const sent: number[][] = [];
+    const batcher = new Batcher<number>({
+      size: 2,
+      interval: 60_000,
+      maxQueueSize: 1000,
+      send: async (items) => {
+        sent.push([...items]);
+      },
+    });
+
+    let resolve!: (value: number | null) => void;
+    batcher.addPending(new Promise((r) => (resolve = r)));
+    batcher.add(2);
+    batcher.add(3); // size reached, but the head is still pending
+    await new Promise((r) => setTimeout(r, 10));
+    assert.equal(sent.length, 0);
+
+    resolve(1);
+    await batcher.flush();
+    assert.deepEqual(sent.flat(), [1, 2, 3]);
+    await batcher.close();
+  });
+
+  it("addPending removes items resolved to null and flush waits for them", async () => {
+    const sent: number[][] = [];
+    const batcher = new Batcher<number>({
+      size: 100,
+      interval: 60_000,
+      maxQueueSize: 1000,
+      send: async (items) => {
+        sent.push([...items]);
+      },
+    });
+
+    batcher.addPending(new Promise((r) => setTimeout(() => r(null), 5)));
+    batcher.addPending(new Promise((r) => setTimeout(() => r(2), 5)));
+    batcher.add(3);
+    assert.deepEqual(batcher.drain(), [3]); // pending items are not drained
+    batcher.add(4);
+
+    await batcher.flush();
+    assert.deepEqual(sent, [[2, 4]]);
+    assert.equal(batcher.pending, 0);
+    await batcher.close();
+  });
 });
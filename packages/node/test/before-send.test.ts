@@ -51,4 +51,39 @@ describe("runBeforeSend", () => {
     const result = runBeforeSend({ name: "hello" }, []);
     assert.deepEqual(result, { name: "hello" });
   });
+
+  it("returns a Promise once a function is async and keeps order", async () => {
+    const fns: BeforeSendFn<{ value: number }>[] = [
+      (item) => ({ ...item, value: item.value + 1 }),
+      async (item) => ({ ...item, value: item.value * 10 }),
+      (item) => ({ ...item, value: item.value - 1 }),
+    ];
+
+    const result = runBeforeSend({ value: 5 }, fns);
+    assert.ok(result instanceof Promise);
+    assert.deepEqual(await result, { value: 59 });
+  });
+
+  it("drops on timeout by default and reports the timeout", async () => {
+    const errors: Error[] = [];
+    const slow: BeforeSendFn<{ value: number }> = () => new Promise(() => {});
+
+    const result = await runBeforeSend({ value: 1 }, slow, { timeout: 10, onError: (e) => errors.push(e) });
+    assert.equal(result, null);
+    assert.match(errors[0].message, /timed out after 10ms/);
+  });
+
+  it("sends the unmodified item on timeout or rejection with onTimeout send", async () => {
+    const slow: BeforeSendFn<{ value: number }> = () => new Promise(() => {});
+    const failing: BeforeSendFn<{ value: number }> = async () => {
+      throw new Error("consent service down");
+    };
+    const errors: Error[] = [];
+
+    const timedOut = await runBeforeSend({ value: 1 }, [(i) => ({ value: i.value + 1 }), slow], { timeout: 10, onTimeout: "send" });
+    const rejected = await runBeforeSend({ value: 1 }, failing, { onTimeout: "send", onError: (e) => errors.push(e) });
+    assert.deepEqual(timedOut, { value: 1 });
+    assert.deepEqual(rejected, { value: 1 });
+    assert.equal(errors[0].message, "consent service down");
+  });
 });
@@ -0,0 +1,63 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { CircuitBreaker } from "@tell-rs/core";
+import type { CircuitState } from "@tell-rs/core";
+
+describe("CircuitBreaker", () => {
+  const create = (threshold = 3, cooldown = 1_000) => {
+    const states: CircuitState[] = [];
+    const breaker = new CircuitBreaker({ threshold, cooldown, onStateChange: (s) => states.push(s) });
+    return { breaker, states };
+  };
+
+  it("opens after consecutive failures and refuses sends", () => {
+    const { breaker } = create();
+    breaker.failure(0);
+    breaker.failure(0);
+    assert.equal(breaker.allow(0), true);
+    breaker.failure(0);
+    assert.equal(breaker.state, "open");
+    assert.equal(breaker.allow(500), false);
+    assert.equal(breaker.retryIn(500), 500);
+  });
+
+  it("a success resets the failure count", () => {
+    const { breaker } = create();
+    breaker.failure(0);
+    breaker.failure(0);
+    breaker.success();
+    breaker.failure(0);
+    breaker.failure(0);
+    assert.equal(breaker.state, "closed");
+  });
+
+  it("lets one probe through after the cooldown", () => {
+    const { breaker, states } = create(1);
+    breaker.failure(0);
+    assert.equal(breaker.allow(1_000), true);
+    assert.equal(breaker.state, "half-open");
+    assert.equal(breaker.allow(1_000), false); // probe still in flight
+    breaker.success();
+    assert.equal(breaker.allow(1_000), true);
+    assert.deepEqual(states, ["open", "half-open", "closed"]);
+  });
+
+  it("a failed probe opens the circuit again", () => {
+    const { breaker } = create(1);
+    breaker.failure(0);
+    breaker.allow(1_000);
+    breaker.failure(1_000);
+    assert.equal(breaker.state, "open");
+    assert.equal(breaker.allow(1_500), false);
+    assert.equal(breaker.allow(2_000), true);
+  });
+
+  it("pause honors a Retry-After longer than the cooldown, even when disabled", () => {
+    const { breaker } = create(0);
+    breaker.failure(0);
+    assert.equal(breaker.state, "closed");
+    breaker.pause(60_000, 0);
+    assert.equal(breaker.allow(30_000), false);
+    assert.equal(breaker.allow(60_000), true);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ClockSkew } from "@tell-rs/core";
+
+const LOCAL = 1_800_000_000_000;
+
+function dateHeader(ms: number): string {
+  return new Date(ms).toUTCString();
+}
+
+describe("ClockSkew", () => {
+  it("learns the offset from the Date header, midpoint to midpoint", () => {
+    const changes: number[] = [];
+    const clock = new ClockSkew({ onChange: (offset) => changes.push(offset) });
+    assert.equal(clock.offset, 0);
+
+    // Collector one minute ahead; request took 200ms
+    clock.observe(dateHeader(LOCAL + 60_000), LOCAL - 100, LOCAL + 100);
+    assert.equal(clock.offset, 60_500);
+    clock.observe(dateHeader(LOCAL + 60_000), LOCAL - 100, LOCAL + 100);
+    assert.deepEqual(changes, [60_500]);
+  });
+
+  it("ignores skew under the threshold, slow round trips and bad headers", () => {
+    const clock = new ClockSkew({ threshold: 2000 });
+    clock.observe(dateHeader(LOCAL + 1000), LOCAL, LOCAL);
+    assert.equal(clock.offset, 0);
+
+    clock.observe(dateHeader(LOCAL + 60_000), LOCAL, LOCAL + 11_000);
+    clock.observe("not a date", LOCAL, LOCAL);
+    clock.observe(null, LOCAL, LOCAL);
+    assert.equal(clock.offset, 0);
+
+    // Back within the threshold after a correction resets to no skew
+    clock.observe(dateHeader(LOCAL - 30_000), LOCAL, LOCAL);
+    assert.equal(clock.offset, -29_500);
+    clock.observe(dateHeader(LOCAL), LOCAL, LOCAL);
+    assert.equal(clock.offset, 0);
+  });
+
+  it("corrects copies and keeps the client timestamp", () => {
+    const clock = new ClockSkew();
+    const items = [
+      { level: "info" as const, message: "a", timestamp: 1000 },
+      { level: "info" as const, message: "b" },
+    ];
+    assert.equal(clock.correct(items), items);
+
+    clock.observe(dateHeader(LOCAL + 9_000), LOCAL, LOCAL);
+    const corrected = clock.correct(items);
+    assert.deepEqual(corrected, [
+      { level: "info", message: "a", timestamp: 10_500, client_timestamp: 1000 },
+      { level: "info", message: "b" },
+    ]);
+    assert.equal(items[0]!.timestamp, 1000);
+    // Already corrected items are not shifted twice
+    assert.deepEqual(clock.correct(corrected), corrected);
+  });
+});
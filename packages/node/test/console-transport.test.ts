@@ -0,0 +1,59 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ConsoleTransport } from "../src/index.js";
+import type { JsonEvent, JsonLog } from "../src/index.js";
+
+const event: JsonEvent = {
+  type: "track",
+  event: "Page Viewed",
+  device_id: "d_1",
+  session_id: "s_1",
+  user_id: "u_1",
+  timestamp: 1,
+  url: "/home",
+};
+
+const log: JsonLog = { level: "error", message: "boom", timestamp: 1, data: { code: 42 } };
+
+describe("ConsoleTransport", () => {
+  it("prints one summary line per item under a batch header", async () => {
+    const lines: string[] = [];
+    const transport = new ConsoleTransport({ colors: false, write: (line) => lines.push(line) });
+
+    assert.equal(await transport.sendEvents([event, { ...event, type: "identify", event: undefined, url: undefined }]), true);
+    assert.equal(await transport.sendLogs([log]), true);
+
+    assert.deepEqual(lines, [
+      "[Tell] 2 events",
+      '  track "Page Viewed" user=u_1 {"url":"/home"}',
+      "  identify user=u_1",
+      "[Tell] 1 log",
+      '  [error] boom {"code":42}',
+    ]);
+  });
+
+  it("verbose prints the wire format", async () => {
+    const lines: string[] = [];
+    const transport = new ConsoleTransport({ colors: false, verbose: true, write: (line) => lines.push(line) });
+
+    await transport.sendEvents([event]);
+
+    assert.deepEqual(JSON.parse(lines[1]), event);
+  });
+
+  it("colors wraps lines in ANSI codes", async () => {
+    const lines: string[] = [];
+    const transport = new ConsoleTransport({ colors: true, write: (line) => lines.push(line) });
+
+    await transport.sendLogs([log]);
+
+    assert.ok(lines[1].includes("\x1b[31m[error] boom"));
+  });
+
+  it("prints nothing for empty batches", async () => {
+    const lines: string[] = [];
+    const transport = new ConsoleTransport({ write: (line) => lines.push(line) });
+    await transport.sendEvents([]);
+    assert.equal(lines.length, 0);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Emitter } from "@tell-rs/core";
+import type { JsonLog } from "@tell-rs/core";
+
+const log: JsonLog = { level: "info", message: "hello", session_id: "s", timestamp: 0 };
+
+describe("Emitter", () => {
+  it("calls listeners in order and unsubscribes", () => {
+    const emitter = new Emitter();
+    const calls: string[] = [];
+    const off = emitter.on("log", (l) => calls.push(`a:${l.message}`));
+    emitter.on("log", (l) => calls.push(`b:${l.message}`));
+
+    emitter.emit("log", log);
+    off();
+    emitter.emit("log", log);
+
+    assert.deepEqual(calls, ["a:hello", "b:hello", "b:hello"]);
+  });
+
+  it("keeps calling listeners after one throws", () => {
+    const failures: string[] = [];
+    const emitter = new Emitter({ onListenerError: (err, name) => failures.push(`${name}:${(err as Error).message}`) });
+    let called = false;
+    emitter.on("error", () => {
+      throw new Error("boom");
+    });
+    emitter.on("error", () => {
+      called = true;
+    });
+
+    emitter.emit("error", new Error("original"));
+
+    assert.equal(called, true);
+    assert.deepEqual(failures, ["error:boom"]);
+  });
+
+  it("catches rejected async listeners", async () => {
+    const failures: unknown[] = [];
+    const emitter = new Emitter({ onListenerError: (err) => failures.push(err) });
+    emitter.on("drop", async () => {
+      throw new Error("async boom");
+    });
+
+    emitter.emit("drop", { kind: "events", reason: "overflow", count: 1 });
+    await new Promise((r) => setImmediate(r));
+
+    assert.equal(failures.length, 1);
+  });
+
+  it("survives a throwing onListenerError", () => {
+    const emitter = new Emitter({
+      onListenerError: () => {
+        throw new Error("hook");
+      },
+    });
+    emitter.on("log", () => {
+      throw new Error("listener");
+    });
+    assert.doesNotThrow(() => emitter.emit("log", log));
+  });
+
+  it("a listener may unsubscribe itself while being called", () => {
+    const emitter = new Emitter();
+    const calls: number[] = [];
+    const off = emitter.on("log", () => {
+      calls.push(1);
+      off();
+    });
+    emitter.on("log", () => calls.push(2));
+
+    emitter.emit("log", log);
+    emitter.emit("log", log);
+
+    assert.deepEqual(calls, [1, 2, 2]);
+  });
+});
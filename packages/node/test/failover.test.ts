@@ -0,0 +1,48 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ConfigurationError, Failover } from "@tell-rs/core";
+
+const A = "https://a.example.com";
+const B = "https://b.example.com";
+const C = "https://c.example.com";
+
+describe("Failover", () => {
+  it("tries endpoints in list order until one answers", () => {
+    const failover = new Failover([A, B, C]);
+    assert.deepEqual(failover.order(0), [0, 1, 2]);
+    assert.equal(failover.current, A);
+    assert.equal(new Failover(A).endpoints.length, 1);
+  });
+
+  it("starts at the endpoint that answered last", () => {
+    const switched: string[] = [];
+    const failover = new Failover([A, B, C], { failbackInterval: 1000, onSwitch: (e) => switched.push(e) });
+    failover.answered(2, 0);
+    failover.answered(2, 10);
+    assert.equal(failover.current, C);
+    assert.deepEqual(failover.order(500), [2, 0, 1]);
+    assert.deepEqual(switched, [C]);
+  });
+
+  it("tries the primary again after failbackInterval, with a single attempt", () => {
+    const failover = new Failover([A, B], { failbackInterval: 1000 });
+    failover.answered(1, 0);
+    assert.deepEqual(failover.order(999), [1, 0]);
+    assert.deepEqual(failover.order(1000), [0, 1]);
+    assert.equal(failover.probing(0), true);
+    assert.equal(failover.probing(1), false);
+
+    // Probe failed and the secondary answered: wait another interval
+    failover.answered(1, 1000);
+    assert.deepEqual(failover.order(1999), [1, 0]);
+    assert.deepEqual(failover.order(2000), [0, 1]);
+
+    failover.answered(0, 2000);
+    assert.equal(failover.current, A);
+    assert.equal(failover.probing(0), false);
+  });
+
+  it("rejects an empty list", () => {
+    assert.throws(() => new Failover([]), ConfigurationError);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { flattenProperties, flattenEvent, flattenLog } from "@tell-rs/core";
+
+describe("flattenProperties", () => {
+  it("leaves flat properties unchanged", () => {
+    assert.deepEqual(flattenProperties({ plan: "pro", seats: 3, trial: null }), {
+      plan: "pro",
+      seats: 3,
+      trial: null,
+    });
+  });
+
+  it("joins nested object and array keys with dots", () => {
+    const flat = flattenProperties({
+      cart: { items: [{ sku: "A", qty: 2 }, { sku: "B", qty: 1 }], total: 30 },
+      flags: ["beta", "dark"],
+    });
+    assert.deepEqual(flat, {
+      "cart.items.0.sku": "A",
+      "cart.items.0.qty": 2,
+      "cart.items.1.sku": "B",
+      "cart.items.1.qty": 1,
+      "cart.total": 30,
+      "flags.0": "beta",
+      "flags.1": "dark",
+    });
+  });
+
+  it("drops empty objects and arrays", () => {
+    assert.deepEqual(flattenProperties({ a: {}, b: [], c: 1 }), { c: 1 });
+  });
+});
+
+describe("flattenEvent / flattenLog", () => {
+  it("flattens event properties and keeps protocol fields", () => {
+    const event = flattenEvent({
+      type: "track",
+      event: "Order Completed",
+      device_id: "d1",
+      cart: { id: "c1" },
+    });
+    assert.equal(event.type, "track");
+    assert.equal(event.device_id, "d1");
+    assert.equal(event["cart.id"], "c1");
+    assert.equal(event.cart, undefined);
+  });
+
+  it("flattens only log data", () => {
+    const log = flattenLog({ level: "error", message: "boom", data: { req: { path: "/x" } } });
+    assert.equal(log.message, "boom");
+    assert.deepEqual(log.data, { "req.path": "/x" });
+  });
+});
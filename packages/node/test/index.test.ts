@@ -1,7 +1,7 @@
 import { describe, it, beforeEach, afterEach } from "node:test";
 import assert from "node:assert/strict";
 import { hostname } from "node:os";
-import { Tell } from "../src/index.js";
+import { Tell, ConfigurationError, NetworkError, type JsonEvent, type TellPlugin, type Transport } from "../src/index.js";
 import { development, production } from "../src/config.js";
 
 // Mock fetch
@@ -136,6 +136,476 @@ describe("Tell (Node SDK)", () => {
     assert.equal(fetchCalls.length, 0); // nothing sent
   });
 
+  it("sends nested properties and log data as JSON", async () => {
+    client = new Tell(API_KEY);
+
+    client.track("u_1", "Order Completed", { cart: { items: [{ sku: "A", qty: 2 }] } });
+    client.logInfo("checkout", { request: { path: "/pay" } });
+    await client.flush();
+
+    const event = JSON.parse(fetchCalls.find((c) => c.url.endsWith("/v1/events"))!.body);
+    assert.deepEqual(event.cart, { items: [{ sku: "A", qty: 2 }] });
+    const log = JSON.parse(fetchCalls.find((c) => c.url.endsWith("/v1/logs"))!.body);
+    assert.deepEqual(log.data, { request: { path: "/pay" } });
+  });
+
+  it("typed tracking plan sends events like untyped track", async () => {
+    interface Plan {
+      "Order Completed": { order_id: string; amount: number };
+      "Page Viewed": { path?: string };
+    }
+    const typed = new Tell<Plan>(API_KEY);
+
+    typed.track("u_1", "Order Completed", { order_id: "o_1", amount: 42 });
+    typed.withService("web").track("u_1", "Page Viewed");
+    await typed.close();
+
+    const events = fetchCalls[0].body.split("\n").map((line) => JSON.parse(line));
+    assert.equal(events[0].event, "Order Completed");
+    assert.equal(events[0].amount, 42);
+    assert.equal(events[1].event, "Page Viewed");
+    assert.equal(events[1].service, "web");
+  });
+
+  it("trackingPlan reports violations before beforeSend runs", async () => {
+    const errors: Error[] = [];
+    client = new Tell(API_KEY, {
+      trackingPlan: { "Order Completed": { amount: { type: "number", required: true } } },
+      trackingPlanMode: "drop",
+      beforeSend: (event) => ({ ...event, amount: 0 }),
+      onError: (err) => errors.push(err),
+    });
+
+    client.track("u_1", "Order Completed", { amount: "12" });
+    client.track("u_1", "Order Completed", { amount: 12 });
+    await client.flush();
+
+    assert.equal(errors.length, 1);
+    assert.equal(errors[0].name, "ValidationError");
+    const events = fetchCalls[0].body.split("\n").map((line) => JSON.parse(line));
+    assert.equal(events.length, 1);
+    assert.equal(events[0].amount, 0);
+  });
+
+  it("sampling drops events and logs before beforeSend", async () => {
+    let seen = 0;
+    client = new Tell(API_KEY, {
+      sampling: { rate: 0, events: { "Order Completed": 1 } },
+      beforeSend: (event) => { seen++; return event; },
+    });
+
+    client.track("u_1", "Page Viewed");
+    client.track("u_1", "Order Completed");
+    client.logInfo("sampled out");
+    await client.flush();
+
+    assert.equal(seen, 1);
+    assert.equal(fetchCalls.length, 1);
+    const event = JSON.parse(fetchCalls[0].body);
+    assert.equal(event.event, "Order Completed");
+    assert.equal(event.sample_rate, undefined);
+  });
+
+  it("dedupeWindow collapses identical calls and logs a summary on close", async () => {
+    client = new Tell(API_KEY, { dedupeWindow: 60_000 });
+
+    for (let i = 0; i < 3; i++) client.track("u_1", "Signup", { plan: "pro" });
+    client.track("u_2", "Signup", { plan: "pro" }); // different user is not a duplicate
+    for (let i = 0; i < 2; i++) client.logError("retry failed");
+    await client.close();
+
+    const events = fetchCalls
+      .filter((c) => c.url.endsWith("/v1/events"))
+      .flatMap((c) => c.body.split("\n").map((line) => JSON.parse(line)));
+    assert.equal(events.length, 2);
+
+    const logs = fetchCalls
+      .filter((c) => c.url.endsWith("/v1/logs"))
+      .flatMap((c) => c.body.split("\n").map((line) => JSON.parse(line)));
+    const summaries = logs.filter((l) => l.level === "warning");
+    assert.deepEqual(summaries.map((l) => l.message).sort(), [
+      'suppressed 1 duplicates of message "retry failed"',
+      'suppressed 2 duplicates of event "Signup"',
+    ]);
+    assert.deepEqual(summaries.find((l) => l.data.event)?.data, { event: "Signup", suppressed: 2 });
+  });
+
+  it("rateLimit caps calls per event name", async () => {
+    client = new Tell(API_KEY, { rateLimit: 2 });
+
+    for (let i = 0; i < 5; i++) client.track("u_1", "Scrolled", { depth: i });
+    await client.flush();
+
+    const events = fetchCalls[0].body.split("\n").map((line) => JSON.parse(line));
+    assert.deepEqual(events.map((e) => e.depth), [0, 1]);
+  });
+
+  it("async beforeSend keeps call order and track() stays synchronous", async () => {
+    client = new Tell(API_KEY, {
+      beforeSend: async (event) => {
+        if (event.event === "Slow") await new Promise((r) => setTimeout(r, 20));
+        return { ...event, hashed: true };
+      },
+    });
+
+    assert.equal(client.track("u_1", "Slow"), undefined);
+    client.track("u_1", "Fast");
+    await client.flush();
+
+    const events = fetchCalls.flatMap((c) => c.body.split("\n").map((line) => JSON.parse(line)));
+    assert.deepEqual(events.map((e) => e.event), ["Slow", "Fast"]);
+    assert.ok(events.every((e) => e.hashed));
+  });
+
+  it("beforeSendTimeout drops or sends items from slow hooks", async () => {
+    const errors: Error[] = [];
+    client = new Tell(API_KEY, {
+      beforeSendTimeout: 10,
+      beforeSendTimeoutAction: "send",
+      beforeSendLog: () => new Promise(() => {}),
+      onError: (err) => errors.push(err),
+    });
+
+    client.logInfo("kept unmodified");
+    await client.flush();
+
+    const log = JSON.parse(fetchCalls[0].body);
+    assert.equal(log.message, "kept unmodified");
+    assert.equal(errors[0].message, "beforeSend timed out after 10ms");
+  });
+
+  it("plugins run setup, hooks, afterSend and teardown in order", async () => {
+    const calls: string[] = [];
+    const plugin = (name: string): TellPlugin<Tell> => ({
+      name,
+      setup: () => { calls.push(`${name}:setup`); },
+      beforeEvent: (event) => ({ ...event, properties: { ...event.properties, [name]: true } }),
+      afterSend: (batch, result) => { calls.push(`${name}:afterSend:${batch.kind}:${result.delivered}`); },
+      teardown: async () => { calls.push(`${name}:teardown`); },
+    });
+    client = new Tell(API_KEY, {
+      plugins: [plugin("a")],
+      beforeSend: (event) => ({ ...event, properties: { ...event.properties, user: true } }),
+    });
+    client.use(plugin("b"));
+
+    client.track("u_1", "Page Viewed");
+    await client.close();
+    client = null;
+
+    const event = JSON.parse(fetchCalls[0].body);
+    assert.deepEqual(Object.keys(event.properties), ["a", "b", "user"]);
+    assert.deepEqual(calls, [
+      "a:setup",
+      "b:setup",
+      "a:afterSend:events:true",
+      "b:afterSend:events:true",
+      "b:teardown",
+      "a:teardown",
+    ]);
+  });
+
+  it("plugins receive errors and cannot break delivery", async () => {
+    const errors: Error[] = [];
+    const pluginErrors: Error[] = [];
+    client = new Tell(API_KEY, { onError: (err) => errors.push(err) });
+    client.use({
+      name: "faulty",
+      afterSend: () => { throw new Error("afterSend failed"); },
+      onError: (err) => { pluginErrors.push(err); },
+    });
+    client.use({ name: "faulty" });
+
+    client.track("u_1", "Page Viewed");
+    await client.flush();
+
+    assert.equal(fetchCalls.length, 1);
+    assert.deepEqual(errors.map((e) => e.message), [
+      'plugin "faulty" is already registered',
+      "afterSend failed",
+    ]);
+    assert.deepEqual(pluginErrors, errors);
+  });
+
+  it("transport option replaces the HTTP transport", async () => {
+    const sent: JsonEvent[] = [];
+    let closed = false;
+    const transport: Transport = {
+      sendEvents: async (events) => { sent.push(...events); return true; },
+      sendLogs: async () => true,
+      close: async () => { closed = true; },
+    };
+    client = new Tell(API_KEY, { transport });
+
+    client.track("u_1", "Page Viewed");
+    await client.close();
+    client = null;
+
+    assert.equal(fetchCalls.length, 0);
+    assert.deepEqual(sent.map((e) => e.event), ["Page Viewed"]);
+    assert.equal(closed, true);
+  });
+
+  it("a throwing transport keeps the batch queued and halves batches on 413", async () => {
+    const errors: Error[] = [];
+    const attempts: number[] = [];
+    let fail: Error | null = new NetworkError("Payload too large", 413);
+    client = new Tell(API_KEY, {
+      batchSize: 4,
+      onError: (err) => errors.push(err),
+      transport: {
+        sendEvents: async (events) => {
+          attempts.push(events.length);
+          if (fail) throw fail;
+          return true;
+        },
+        sendLogs: async () => true,
+        close: async () => {},
+      },
+    });
+
+    for (let i = 0; i < 4; i++) client.track("u_1", `Event ${i}`);
+    await client.flush();
+    fail = new Error("queue unavailable");
+    await client.flush();
+    fail = null;
+    await client.flush();
+
+    assert.deepEqual(attempts, [4, 2, 2, 2]);
+    assert.deepEqual(errors.map((e) => e.message), ["queue unavailable"]);
+  });
+
+  it("keeps batches queued while the circuit is open and sends them after a probe", async () => {
+    let status = 500;
+    globalThis.fetch = ((url: string | URL | Request, init?: RequestInit) => {
+      fetchCalls.push({ url: String(url), body: init?.body as string });
+      return Promise.resolve({ status, statusText: "" } as Response);
+    }) as typeof globalThis.fetch;
+    const errors: Error[] = [];
+    client = new Tell(API_KEY, {
+      maxRetries: 0,
+      circuitBreakerThreshold: 1,
+      circuitBreakerCooldown: 50,
+      onError: (err) => errors.push(err),
+    });
+
+    client.track("u_1", "Page Viewed");
+    await client.flush();
+    await client.flush(); // circuit open: nothing sent
+    assert.equal(fetchCalls.length, 1);
+
+    status = 202;
+    await new Promise((r) => setTimeout(r, 60));
+    await client.flush();
+
+    assert.equal(fetchCalls.length, 2);
+    assert.equal(JSON.parse(fetchCalls[1].body).event, "Page Viewed");
+    assert.equal(errors.length, 1); // the 500, not the open circuit
+  });
+
+  it("onRejected receives the refused events", async () => {
+    globalThis.fetch = ((url: string | URL | Request, init?: RequestInit) => {
+      fetchCalls.push({ url: String(url), body: init?.body as string });
+      return Promise.resolve({
+        status: 207,
+        statusText: "Multi-Status",
+        json: async () => ({ rejected: 1, errors: [{ index: 0, code: "invalid_event" }] }),
+      } as Response);
+    }) as typeof globalThis.fetch;
+    const refused: string[] = [];
+    client = new Tell(API_KEY, {
+      onRejected: (items, reasons) => {
+        for (const [i, item] of items.entries()) refused.push(`${(item as JsonEvent).event}:${reasons[i].code}`);
+      },
+    });
+
+    client.track("u_1", "Bad Event");
+    client.track("u_1", "Good Event");
+    await client.flush();
+
+    assert.deepEqual(refused, ["Bad Event:invalid_event"]);
+  });
+
+  it("stats() counts enqueued, sent and dropped items", async () => {
+    client = new Tell(API_KEY, {
+      beforeSend: (event) => (event.event === "Internal" ? null : event),
+    });
+
+    client.track("u_1", "Page Viewed");
+    client.track("u_1", "Internal");
+    client.track("u_1", "");
+    client.log("info", "hello");
+    assert.equal(client.stats().events.queued, 1);
+    await client.flush();
+
+    const stats = client.stats();
+    assert.equal(stats.events.enqueued, 2);
+    assert.equal(stats.events.sent, 1);
+    assert.equal(stats.events.dropped.beforeSend, 1);
+    assert.equal(stats.events.dropped.validation, 1);
+    assert.equal(stats.events.queued, 0);
+    assert.equal(stats.logs.sent, 1);
+    assert.ok(stats.bytesSent > 0);
+    assert.equal(stats.lastError?.name, "ValidationError");
+  });
+
+  it("stats() counts items refused by the collector", async () => {
+    globalThis.fetch = (() =>
+      Promise.resolve({
+        status: 207,
+        statusText: "Multi-Status",
+        json: async () => ({ rejected: 1, errors: [{ index: 1, code: "invalid_event" }] }),
+      } as Response)) as typeof globalThis.fetch;
+    client = new Tell(API_KEY);
+
+    client.track("u_1", "A");
+    client.track("u_1", "B");
+    await client.flush();
+
+    const stats = client.stats();
+    assert.equal(stats.events.sent, 1);
+    assert.equal(stats.events.dropped.rejected, 1);
+  });
+
+  it("stats() counts opt-out and a custom transport's undelivered batches", async () => {
+    let delivered = true;
+    const transport: Transport = {
+      sendEvents: async () => delivered,
+      sendLogs: async () => delivered,
+      close: async () => {},
+    };
+    client = new Tell(API_KEY, { transport });
+
+    client.track("u_1", "A");
+    await client.flush();
+    delivered = false;
+    client.track("u_1", "B");
+    await client.flush();
+    client.disable();
+    client.track("u_1", "C");
+
+    const stats = client.stats();
+    assert.equal(stats.events.sent, 1);
+    assert.equal(stats.events.dropped.retriesExhausted, 1);
+    assert.equal(stats.events.dropped.optOut, 1);
+  });
+
+  it("statsInterval logs a stats snapshot", async () => {
+    client = new Tell(API_KEY, { statsInterval: 20 });
+    client.track("u_1", "A");
+
+    await new Promise((r) => setTimeout(r, 50));
+    await client.flush();
+
+    const logs = fetchCalls
+      .filter((c) => c.url.endsWith("/v1/logs"))
+      .flatMap((c) => c.body.split("\n").map((line) => JSON.parse(line)));
+    const report = logs.find((log) => log.message === "sdk stats");
+    assert.ok(report);
+    assert.equal(report.level, "info");
+    assert.equal(report.data.events.enqueued, 1);
+  });
+
+  it("on() reports queued items, batches, drops, errors and sessions", async () => {
+    client = new Tell(API_KEY, {
+      beforeSend: (event) => (event.event === "Internal" ? null : { ...event, enriched: true }),
+    });
+    const seen: string[] = [];
+    client.on("event", (event) => seen.push(`event:${event.event}:${event.enriched}`));
+    client.on("log", (log) => seen.push(`log:${log.message}`));
+    client.on("drop", (drop) => seen.push(`drop:${drop.kind}:${drop.reason}:${drop.count}`));
+    client.on("error", (err) => seen.push(`error:${err.name}`));
+    client.on("flush", (batch) => seen.push(`flush:${batch.kind}:${batch.items.length}:${batch.delivered}`));
+    client.on("session", (session) => seen.push(`session:${session.reason}`));
+
+    client.track("u_1", "Page Viewed");
+    client.track("u_1", "Internal");
+    client.track("u_1", "");
+    client.log("info", "hello");
+    client.resetSession();
+    await client.flush();
+
+    assert.deepEqual(seen, [
+      "event:Page Viewed:true",
+      "drop:events:beforeSend:1",
+      "drop:events:validation:1",
+      "error:ValidationError",
+      "log:hello",
+      "session:reset",
+      "flush:events:1:true",
+      "flush:logs:1:true",
+    ]);
+  });
+
+  it("throwing listeners do not break delivery", async () => {
+    client = new Tell(API_KEY);
+    const off = client.on("event", () => {
+      throw new Error("listener");
+    });
+    client.on("flush", () => {
+      throw new Error("listener");
+    });
+
+    client.track("u_1", "Page Viewed");
+    await client.flush();
+    off();
+
+    assert.equal(fetchCalls.length, 1);
+    assert.equal(client.stats().events.sent, 1);
+  });
+
+  it("dryRun runs the pipeline without sending", async () => {
+    const seen: string[] = [];
+    client = new Tell(API_KEY, {
+      dryRun: true,
+      beforeSend: (event) => ({ ...event, enriched: true }),
+    });
+    client.on("flush", (batch) => seen.push(`${batch.kind}:${batch.items.length}:${batch.delivered}`));
+
+    client.track("u_1", "Page Viewed");
+    client.track("u_1", "");
+    client.log("info", "hello");
+    await client.flush();
+
+    assert.equal(fetchCalls.length, 0);
+    assert.deepEqual(seen, ["events:1:true", "logs:1:true"]);
+    assert.equal(client.stats().events.dropped.validation, 1);
+  });
+
+  it("dryRun cannot be combined with spoolDir", () => {
+    assert.throws(() => new Tell(API_KEY, { dryRun: true, spoolDir: "/tmp/tell-spool" }), ConfigurationError);
+  });
+
+  it("spoolDir cannot be combined with a custom transport", () => {
+    const transport: Transport = { sendEvents: async () => true, sendLogs: async () => true, close: async () => {} };
+    assert.throws(() => new Tell(API_KEY, { transport, spoolDir: "/tmp/tell-spool" }), ConfigurationError);
+  });
+
+  it("reports cyclic properties as SerializationError", async () => {
+    const errors: Error[] = [];
+    client = new Tell(API_KEY, { onError: (err) => errors.push(err) });
+
+    const cart: Record<string, any> = { id: "c1" };
+    cart.self = cart;
+    client.track("u_1", "Cart Viewed", { cart });
+    await client.flush();
+
+    assert.equal(errors.length, 1);
+    assert.equal(errors[0].name, "SerializationError");
+    assert.equal(fetchCalls.length, 0);
+  });
+
+  it("flattenProperties sends dot-separated keys", async () => {
+    client = new Tell(API_KEY, { flattenProperties: true });
+
+    client.track("u_1", "Order Completed", { cart: { items: [{ sku: "A" }] } });
+    await client.flush();
+
+    const event = JSON.parse(fetchCalls[0].body);
+    assert.equal(event["cart.items.0.sku"], "A");
+    assert.equal(event.cart, undefined);
+  });
+
   it("register merges super properties into events", async () => {
     client = new Tell(API_KEY);
 
@@ -330,6 +800,61 @@ describe("Tell (Node SDK)", () => {
     assert.equal(event.event, "Should Send");
   });
 
+  it("stamps every event and log with a message_id that hooks and listeners see", async () => {
+    const seen: string[] = [];
+    client = new Tell(API_KEY, {
+      beforeSend: (event) => {
+        seen.push(event.message_id!);
+        return event;
+      },
+    });
+    const queued: string[] = [];
+    client.on("event", (event) => queued.push(event.message_id!));
+
+    client.track("u_1", "First");
+    client.track("u_1", "Second", { message_id: "order_1:completed" });
+    client.logInfo("Done");
+    await client.flush();
+
+    const events = fetchCalls[0].body.split("\n").map((line) => JSON.parse(line));
+    const log = JSON.parse(fetchCalls[1].body);
+    assert.match(events[0].message_id, /^[0-9A-HJKMNP-TV-Z]{26}$/);
+    // A message_id passed by the caller is kept
+    assert.equal(events[1].message_id, "order_1:completed");
+    assert.match(log.message_id, /^[0-9A-HJKMNP-TV-Z]{26}$/);
+    assert.ok(log.message_id > events[0].message_id);
+    assert.deepEqual(seen, [events[0].message_id, "order_1:completed"]);
+    assert.deepEqual(queued, seen);
+  });
+
+  it("correctClockSkew shifts timestamps to the collector clock at send time", async () => {
+    const collectorNow = Date.now() - 7_200_000;
+    globalThis.fetch = ((url: string | URL | Request, init?: RequestInit) => {
+      fetchCalls.push({ url: String(url), body: init?.body as string });
+      return Promise.resolve({
+        status: 202,
+        statusText: "Accepted",
+        headers: new Headers({ Date: new Date(collectorNow).toUTCString() }),
+      } as Response);
+    }) as typeof globalThis.fetch;
+    client = new Tell(API_KEY, { correctClockSkew: true });
+
+    // The first batch teaches the SDK the offset; it goes out uncorrected
+    client.track("u_1", "First");
+    await client.flush();
+    client.track("u_1", "Second", { sent: true });
+    client.logInfo("Done");
+    await client.flush();
+
+    const first = JSON.parse(fetchCalls[0].body);
+    assert.equal(first.client_timestamp, undefined);
+    const second = JSON.parse(fetchCalls[1].body);
+    const log = JSON.parse(fetchCalls[2].body);
+    for (const item of [second, log]) {
+      assert.ok(Math.abs(item.timestamp - item.client_timestamp + 7_200_000) < 2000);
+    }
+  });
+
   // --- New tests: beforeSend ---
 
   it("beforeSend modifies events", async () => {
@@ -404,6 +929,121 @@ describe("Tell (Node SDK)", () => {
     const log = JSON.parse(fetchCalls[0].body);
     assert.equal(log.level, "error");
   });
+
+  it("priority log levels flush without waiting for the interval", async () => {
+    client = new Tell(API_KEY);
+
+    client.logInfo("routine");
+    client.logCritical("database unreachable");
+    await new Promise((r) => setTimeout(r, 10));
+
+    assert.equal(fetchCalls.length, 1);
+    const lines = fetchCalls[0].body.split("\n").map((l) => JSON.parse(l));
+    assert.deepEqual(lines.map((l) => l.level), ["info", "critical"]);
+  });
+
+  it("error logs wait for the interval unless opted into priorityLevels", async () => {
+    client = new Tell(API_KEY);
+    client.logError("charge failed");
+    await new Promise((r) => setTimeout(r, 10));
+    assert.equal(fetchCalls.length, 0);
+    await client.close();
+
+    client = new Tell(API_KEY, { priorityLevels: ["critical", "error"] });
+    client.logError("charge failed");
+    await new Promise((r) => setTimeout(r, 10));
+    assert.equal(fetchCalls.length, 2);
+  });
+
+  it("priorityEvents flush matching events immediately", async () => {
+    client = new Tell(API_KEY, { priorityEvents: ["Order Completed"], priorityLevels: [] });
+
+    client.logError("not a priority here");
+    client.track("u_1", "Page Viewed");
+    assert.equal(fetchCalls.length, 0);
+
+    client.revenue("u_1", 10, "USD", "o_1");
+    await new Promise((r) => setTimeout(r, 10));
+
+    assert.equal(fetchCalls.length, 1);
+    assert.ok(fetchCalls[0].url.endsWith("/v1/events"));
+  });
+
+  it("delivers to each destination with its own key and hooks", async () => {
+    const requests: { url: string; auth: string; body: string }[] = [];
+    globalThis.fetch = ((url: string | URL | Request, init?: RequestInit) => {
+      const headers = init?.headers as Record<string, string>;
+      requests.push({ url: String(url), auth: headers.Authorization, body: init?.body as string });
+      return Promise.resolve({ status: 202, statusText: "Accepted" } as Response);
+    }) as typeof globalThis.fetch;
+    const archived: JsonEvent[] = [];
+    client = new Tell(API_KEY, {
+      endpoint: "https://main.example.com",
+      destinations: [
+        {
+          endpoint: "https://eu.example.com",
+          apiKey: "0123456789abcdef0123456789abcdef",
+          beforeSend: (event) => (event.event === "Internal" ? null : { ...event, region: "eu" }),
+        },
+        {
+          name: "archive",
+          transport: { sendEvents: async (events) => { archived.push(...events); return true; }, sendLogs: async () => true, close: async () => {} },
+        },
+      ],
+    });
+
+    client.track("u_1", "Page Viewed");
+    client.track("u_1", "Internal");
+    await client.flush();
+
+    const main = requests.filter((r) => r.url.startsWith("https://main"));
+    const eu = requests.filter((r) => r.url.startsWith("https://eu"));
+    assert.equal(main[0].auth, `Bearer ${API_KEY}`);
+    assert.deepEqual(main[0].body.split("\n").map((l) => JSON.parse(l).region), [undefined, undefined]);
+    assert.equal(eu[0].auth, "Bearer 0123456789abcdef0123456789abcdef");
+    const euEvents = eu[0].body.split("\n").map((l) => JSON.parse(l));
+    assert.deepEqual(euEvents.map((e) => [e.event, e.region]), [["Page Viewed", "eu"]]);
+    assert.equal(archived.length, 2);
+
+    const stats = client.stats();
+    assert.equal(stats.events.sent, 2);
+    assert.deepEqual(Object.keys(stats.destinations!), ["https://eu.example.com", "archive"]);
+    assert.equal(stats.destinations!["https://eu.example.com"].events.sent, 1);
+    assert.equal(stats.destinations!["https://eu.example.com"].events.dropped.beforeSend, 1);
+    assert.equal(stats.destinations!.archive.events.sent, 2);
+  });
+
+  it("keeps a failing destination from affecting the main endpoint", async () => {
+    globalThis.fetch = ((url: string | URL | Request, init?: RequestInit) => {
+      if (String(url).startsWith("https://down")) return Promise.reject(new TypeError("fetch failed"));
+      return mockFetch(url, init);
+    }) as typeof globalThis.fetch;
+    const errors: Error[] = [];
+    client = new Tell(API_KEY, {
+      maxRetries: 0,
+      onError: (err) => errors.push(err),
+      destinations: [{ name: "backup", endpoint: "https://down.example.com" }],
+    });
+
+    client.track("u_1", "Page Viewed");
+    await client.flush();
+
+    assert.equal(fetchCalls.length, 1);
+    const stats = client.stats();
+    assert.equal(stats.events.sent, 1);
+    assert.equal(stats.lastError, null);
+    assert.equal(stats.destinations!.backup.events.dropped.retriesExhausted, 1);
+    assert.match(stats.destinations!.backup.lastError!.message, /down\.example\.com/);
+    assert.match(errors[0].message, /Failed to connect to https:\/\/down\.example\.com/);
+  });
+
+  it("requires unique destination names", () => {
+    assert.throws(
+      () => new Tell(API_KEY, { destinations: [{ apiKey: "0123456789abcdef0123456789abcdef" }, {}] }),
+      ConfigurationError
+    );
+    assert.throws(() => new Tell(API_KEY, { destinations: [{ apiKey: "bad" }] }), ConfigurationError);
+  });
 });
 
 describe("withService", () => {
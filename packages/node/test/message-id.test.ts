@@ -0,0 +1,47 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { messageId, idempotencyKey } from "@tell-rs/core";
+
+const ULID = /^[0-9A-HJKMNP-TV-Z]{26}$/;
+
+describe("messageId", () => {
+  it("is a 26-character ULID", () => {
+    assert.match(messageId(), ULID);
+  });
+
+  it("sorts by time, and in call order within a millisecond", () => {
+    const ids = [messageId(2_000_000_000_000), messageId(2_000_000_000_000), messageId(2_000_000_000_000), messageId(2_000_000_000_001)];
+    assert.deepEqual([...ids].sort(), ids);
+    assert.equal(new Set(ids).size, 4);
+  });
+
+  it("stays sortable when the clock steps back", () => {
+    const later = messageId(3_000_000_000_000);
+    const earlier = messageId(2_999_999_999_000);
+    assert.ok(earlier > later);
+  });
+
+  // Last: ids never go back in time, so later calls in this file would carry these times
+  it("encodes the time in the first 10 characters", () => {
+    assert.equal(messageId(5 * 32 ** 9).slice(0, 10), "5000000000");
+    // 2^48 - 1, the largest ULID time
+    assert.equal(messageId(2 ** 48 - 1).slice(0, 10), "7ZZZZZZZZZ");
+  });
+});
+
+describe("idempotencyKey", () => {
+  const a = { level: "info" as const, message: "a", message_id: "01J0000000000000000000000A" };
+  const b = { level: "info" as const, message: "b", message_id: "01J0000000000000000000000B" };
+
+  it("is the same for the same items and differs otherwise", () => {
+    const key = idempotencyKey([a, b]);
+    assert.match(key!, /^[0-9a-f]{32}$/);
+    assert.equal(idempotencyKey([{ ...a }, { ...b }]), key);
+    assert.notEqual(idempotencyKey([a]), key);
+    assert.notEqual(idempotencyKey([b, a]), key);
+  });
+
+  it("is undefined when an item has no message id", () => {
+    assert.equal(idempotencyKey([a, { level: "info", message: "c" }]), undefined);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { sampleEvents, sampleLogs, ConfigurationError } from "@tell-rs/core";
+import type { JsonEvent, JsonLog } from "@tell-rs/core";
+
+function makeEvent(overrides: Partial<JsonEvent> = {}): JsonEvent {
+  return {
+    type: "track",
+    event: "Page Viewed",
+    device_id: "d1",
+    session_id: "s1",
+    user_id: "u1",
+    timestamp: 1000,
+    ...overrides,
+  };
+}
+
+function makeLog(overrides: Partial<JsonLog> = {}): JsonLog {
+  return { level: "info", message: "hello", timestamp: 1000, ...overrides };
+}
+
+function kept<T>(fn: (item: T) => T | null, items: T[]): T[] {
+  return items.map(fn).filter((item): item is T => item !== null);
+}
+
+describe("sampleEvents", () => {
+  it("keeps everything without a rate below 1", () => {
+    const fn = sampleEvents({});
+    const event = makeEvent();
+    assert.equal(fn(event), event);
+  });
+
+  it("rate 0 drops all track events but never identify", () => {
+    const fn = sampleEvents({ rate: 0 });
+    assert.equal(fn(makeEvent()), null);
+    assert.ok(fn(makeEvent({ type: "identify", event: undefined })));
+  });
+
+  it("keeps roughly the configured fraction and stamps sample_rate", () => {
+    const fn = sampleEvents({ rate: 0.25 });
+    const result = kept(fn, Array.from({ length: 4000 }, () => makeEvent()));
+    assert.ok(result.length > 800 && result.length < 1200, `kept ${result.length}`);
+    assert.ok(result.every((e) => e.sample_rate === 0.25));
+  });
+
+  it("per-event rates override the global rate", () => {
+    const fn = sampleEvents({ rate: 0, events: { "Signup": 1 } });
+    const signup = makeEvent({ event: "Signup" });
+    assert.equal(fn(signup), signup);
+    assert.equal(fn(makeEvent()), null);
+  });
+
+  it("keyed sampling keeps or drops an id consistently", () => {
+    const fn = sampleEvents({ rate: 0.5, key: "device_id" });
+    const devices = Array.from({ length: 200 }, (_, i) => `device_${i}`);
+    const decisions = devices.map((id) => fn(makeEvent({ device_id: id })) !== null);
+
+    for (let round = 0; round < 3; round++) {
+      devices.forEach((id, i) => {
+        assert.equal(fn(makeEvent({ device_id: id, event: `Step ${round}` })) !== null, decisions[i]);
+      });
+    }
+    const keptCount = decisions.filter(Boolean).length;
+    assert.ok(keptCount > 60 && keptCount < 140, `kept ${keptCount}`);
+  });
+
+  it("keyed sampling nests lower per-event rates inside higher ones", () => {
+    const fn = sampleEvents({ rate: 0.5, events: { "Page Viewed": 0.1 }, key: "user_id" });
+    for (let i = 0; i < 200; i++) {
+      const user = `user_${i}`;
+      if (fn(makeEvent({ user_id: user })) !== null) {
+        assert.ok(fn(makeEvent({ user_id: user, event: "Click" })), `${user} kept at 0.1 but not 0.5`);
+      }
+    }
+  });
+
+  it("throws ConfigurationError for rates outside 0–1", () => {
+    assert.throws(() => sampleEvents({ rate: 1.5 }), ConfigurationError);
+    assert.throws(() => sampleEvents({ events: { A: -1 } }), ConfigurationError);
+    assert.throws(() => sampleLogs({ logLevels: { debug: NaN } }), ConfigurationError);
+  });
+});
+
+describe("sampleLogs", () => {
+  it("applies per-level rates and stamps data.sample_rate", () => {
+    const fn = sampleLogs({ rate: 1, logLevels: { debug: 0, info: 0.5 } });
+    assert.equal(fn(makeLog({ level: "debug" })), null);
+    const error = makeLog({ level: "error" });
+    assert.equal(fn(error), error);
+
+    const infos = kept(fn, Array.from({ length: 200 }, () => makeLog({ data: { a: 1 } })));
+    assert.ok(infos.length > 0 && infos.length < 200);
+    assert.deepEqual(infos[0].data, { a: 1, sample_rate: 0.5 });
+  });
+
+  it("keyed sampling keeps a session's logs together with its events", () => {
+    const options = { rate: 0.5, key: "session_id" as const };
+    const events = sampleEvents(options);
+    const logs = sampleLogs(options);
+    let keptSessions = 0;
+    for (let i = 0; i < 200; i++) {
+      const session = `session_${i}`;
+      const eventKept = events(makeEvent({ session_id: session })) !== null;
+      if (eventKept) keptSessions++;
+      for (let round = 0; round < 3; round++) {
+        assert.equal(logs(makeLog({ session_id: session, message: `line ${round}` })) !== null, eventKept);
+      }
+    }
+    assert.ok(keptSessions > 60 && keptSessions < 140, `kept ${keptSessions}`);
+
+    const byUser = sampleLogs({ rate: 0.5, key: "user_id" });
+    const decisions = Array.from({ length: 50 }, (_, i) => byUser(makeLog({ data: { user_id: `user_${i}` } })) !== null);
+    decisions.forEach((decision, i) => {
+      assert.equal(byUser(makeLog({ message: "again", data: { user_id: `user_${i}` } })) !== null, decision);
+    });
+  });
+});
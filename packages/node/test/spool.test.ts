@@ -0,0 +1,222 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, readdirSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { basename, join } from "node:path";
+import { Spool } from "../src/spool.js";
+import { HttpTransport } from "../src/transport.js";
+import { Tell } from "../src/index.js";
+
+const API_KEY = "feed1e11feed1e11feed1e11feed1e11";
+
+let fetchCalls: { url: string; body: string; key?: string }[] = [];
+let fetchStatus = 202;
+const originalFetch = globalThis.fetch;
+
+function mockFetch(url: string | URL | Request, init?: RequestInit): Promise<Response> {
+  const key = (init?.headers as Record<string, string> | undefined)?.["Idempotency-Key"];
+  fetchCalls.push({ url: String(url), body: init?.body as string, key });
+  return Promise.resolve({ status: fetchStatus, statusText: "" } as Response);
+}
+
+function newTransport(): HttpTransport {
+  return new HttpTransport({
+    endpoint: "https://collect.example.com",
+    apiKey: API_KEY,
+    maxRetries: 0,
+    networkTimeout: 30_000,
+    gzip: false,
+  });
+}
+
+describe("Spool", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "tell-spool-"));
+    fetchCalls = [];
+    fetchStatus = 202;
+    globalThis.fetch = mockFetch as typeof globalThis.fetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("appends lines to an active segment that seal() makes drainable", () => {
+    const spool = new Spool({ directory: dir, maxBytes: 1_000_000, segmentBytes: 1_000_000 });
+    spool.append("events", ['{"a":1}', '{"a":2}']);
+    spool.append("events", ['{"a":3}']);
+
+    assert.equal(spool.segments("events").length, 0);
+    spool.seal("events");
+
+    const segments = spool.segments("events");
+    assert.equal(segments.length, 1);
+    assert.deepEqual(spool.read(segments[0]), ['{"a":1}', '{"a":2}', '{"a":3}']);
+    assert.equal(spool.segments("logs").length, 0);
+  });
+
+  it("rotates the active segment past segmentBytes", () => {
+    const spool = new Spool({ directory: dir, maxBytes: 1_000_000, segmentBytes: 10 });
+    spool.append("logs", ['{"message":"one"}']);
+    spool.append("logs", ['{"message":"two"}']);
+
+    assert.equal(spool.segments("logs").length, 2);
+  });
+
+  it("drops the oldest segments beyond maxBytes", () => {
+    const dropped: string[] = [];
+    const spool = new Spool({
+      directory: dir,
+      maxBytes: 40,
+      segmentBytes: 1,
+      onDrop: (segment) => dropped.push(segment),
+    });
+    spool.append("events", ['{"n":"first-item"}']);
+    spool.append("events", ['{"n":"second-item"}']);
+    spool.append("events", ['{"n":"third-item"}']);
+
+    assert.equal(dropped.length, 1);
+    const remaining = spool.segments("events").flatMap((s) => spool.read(s));
+    assert.deepEqual(remaining, ['{"n":"second-item"}', '{"n":"third-item"}']);
+    assert.ok(spool.bytes <= 40);
+  });
+
+  it("recovers segments written by a previous instance", () => {
+    const first = new Spool({ directory: dir, maxBytes: 1_000_000, segmentBytes: 1_000_000 });
+    first.append("events", ['{"a":1}']);
+
+    const second = new Spool({ directory: dir, maxBytes: 1_000_000, segmentBytes: 1_000_000 });
+    second.append("events", ['{"a":2}']);
+    const segments = second.segments("events");
+    assert.equal(segments.length, 1);
+    assert.deepEqual(second.read(segments[0]), ['{"a":1}']);
+  });
+
+  it("drain sends segments in batchSize chunks and removes them", async () => {
+    const spool = new Spool({ directory: dir, maxBytes: 1_000_000, segmentBytes: 1_000_000 });
+    spool.append("events", ['{"a":1}', '{"a":2}', '{"a":3}']);
+    spool.append("logs", ['{"m":1}']);
+
+    await newTransport().drain(spool, 2);
+
+    assert.equal(fetchCalls.length, 3);
+    assert.ok(fetchCalls[0].url.endsWith("/v1/events"));
+    assert.equal(fetchCalls[0].body, '{"a":1}\n{"a":2}');
+    assert.equal(fetchCalls[1].body, '{"a":3}');
+    assert.ok(fetchCalls[2].url.endsWith("/v1/logs"));
+    assert.deepEqual(readdirSync(dir), []);
+  });
+
+  it("drain keeps segments when the collector is unavailable", async () => {
+    fetchStatus = 503;
+    const spool = new Spool({ directory: dir, maxBytes: 1_000_000, segmentBytes: 1_000_000 });
+    spool.append("events", ['{"a":1}']);
+
+    await newTransport().drain(spool, 10);
+
+    const segment = spool.activeSegment("events")!;
+    assert.deepEqual(readdirSync(dir), [basename(segment)]);
+    assert.deepEqual(spool.read(segment), ['{"a":1}']);
+  });
+
+  it("drain leaves the active segment open so it fills up to segmentBytes", async () => {
+    fetchStatus = 503;
+    const spool = new Spool({ directory: dir, maxBytes: 1_000_000, segmentBytes: 1_000_000 });
+    const transport = newTransport();
+    for (let i = 1; i <= 3; i++) {
+      spool.append("events", [`{"a":${i}}`]);
+      await transport.drain(spool, 10);
+    }
+
+    assert.equal(readdirSync(dir).length, 1);
+    assert.deepEqual(spool.read(spool.activeSegment("events")!), ['{"a":1}', '{"a":2}', '{"a":3}']);
+  });
+
+  it("drain keeps lines appended to the active segment while sending", async () => {
+    const spool = new Spool({ directory: dir, maxBytes: 1_000_000, segmentBytes: 1_000_000 });
+    spool.append("events", ['{"a":1}']);
+    globalThis.fetch = (async (url: string | URL | Request, init?: RequestInit) => {
+      fetchCalls.push({ url: String(url), body: init?.body as string });
+      if (fetchCalls.length === 1) spool.append("events", ['{"a":2}']);
+      return { status: 202, statusText: "" } as Response;
+    }) as typeof globalThis.fetch;
+
+    const transport = newTransport();
+    await transport.drain(spool, 10);
+    assert.deepEqual(spool.read(spool.activeSegment("events")!), ['{"a":2}']);
+
+    await transport.drain(spool, 10);
+    assert.deepEqual(fetchCalls.map((c) => c.body), ['{"a":1}', '{"a":2}']);
+    assert.deepEqual(readdirSync(dir), []);
+  });
+
+  it("drain skips and reports unreadable lines instead of stalling", async () => {
+    const spool = new Spool({ directory: dir, maxBytes: 1_000_000, segmentBytes: 1_000_000 });
+    spool.append("events", ['{"a":1}', '{"a":2']);
+    spool.seal("events");
+    spool.append("events", ['{"a":3}']);
+    const errors: Error[] = [];
+    const transport = new HttpTransport({
+      endpoint: "https://collect.example.com",
+      apiKey: API_KEY,
+      maxRetries: 0,
+      networkTimeout: 30_000,
+      gzip: false,
+      onError: (err) => errors.push(err),
+    });
+
+    await transport.drain(spool, 10);
+
+    assert.deepEqual(fetchCalls.map((c) => c.body), ['{"a":1}', '{"a":3}']);
+    assert.equal(errors.length, 1);
+    assert.equal(errors[0].name, "SerializationError");
+    assert.match(errors[0].message, /skipped 1 unreadable lines/);
+    assert.deepEqual(readdirSync(dir), []);
+  });
+
+  it("drain splits a chunk after 413", async () => {
+    const spool = new Spool({ directory: dir, maxBytes: 1_000_000, segmentBytes: 1_000_000 });
+    spool.append("events", ['{"a":1}', '{"a":2}']);
+    let calls = 0;
+    globalThis.fetch = (async (url: string | URL | Request, init?: RequestInit) => {
+      calls++;
+      fetchCalls.push({ url: String(url), body: init?.body as string });
+      return { status: calls === 1 ? 413 : 202, statusText: "" } as Response;
+    }) as typeof globalThis.fetch;
+
+    await newTransport().drain(spool, 2);
+
+    assert.deepEqual(fetchCalls.map((c) => c.body), ['{"a":1}\n{"a":2}', '{"a":1}', '{"a":2}']);
+    assert.deepEqual(readdirSync(dir), []);
+  });
+
+  it("Tell spools through an outage and delivers on the next start", async () => {
+    fetchStatus = 503;
+    const first = new Tell(API_KEY, { spoolDir: dir, maxRetries: 0 });
+    first.track("u_1", "Order Completed", { order_id: "o_1" });
+    await first.close();
+
+    assert.ok(fetchCalls.length >= 1);
+    assert.equal(readdirSync(dir).length, 1);
+    const refused = fetchCalls.find((c) => c.url.endsWith("/v1/events"))!;
+    assert.ok(refused.key);
+
+    fetchCalls = [];
+    fetchStatus = 202;
+    const second = new Tell(API_KEY, { spoolDir: dir });
+    await second.flush();
+    await second.close();
+
+    const event = fetchCalls
+      .flatMap((c) => c.body.split("\n").map((l) => JSON.parse(l)))
+      .find((e) => e.event === "Order Completed");
+    assert.equal(event?.order_id, "o_1");
+    // The replay carries the ids of the refused attempt, so the collector can dedupe
+    assert.equal(event?.message_id, JSON.parse(refused.body).message_id);
+    assert.equal(fetchCalls.find((c) => c.url.endsWith("/v1/events"))!.key, refused.key);
+    assert.deepEqual(readdirSync(dir), []);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { StatsRecorder } from "@tell-rs/core";
+
+describe("StatsRecorder", () => {
+  it("starts with every counter at zero", () => {
+    const stats = new StatsRecorder().snapshot({ events: 0, logs: 0 });
+    assert.equal(stats.events.enqueued, 0);
+    assert.equal(stats.logs.sent, 0);
+    assert.deepEqual(Object.values(stats.events.dropped), [0, 0, 0, 0, 0, 0, 0]);
+    assert.equal(stats.retries, 0);
+    assert.equal(stats.bytesSent, 0);
+    assert.equal(stats.lastError, null);
+  });
+
+  it("counts per kind and fills in queue depths", () => {
+    const recorder = new StatsRecorder();
+    recorder.enqueued("events", 3);
+    recorder.enqueued("logs");
+    recorder.sent("events", 2, 120);
+    recorder.sent("logs", 1, 40);
+    recorder.dropped("events", "beforeSend");
+    recorder.retried();
+
+    const stats = recorder.snapshot({ events: 4, logs: 0 });
+    assert.equal(stats.events.enqueued, 3);
+    assert.equal(stats.events.sent, 2);
+    assert.equal(stats.events.dropped.beforeSend, 1);
+    assert.equal(stats.events.queued, 4);
+    assert.equal(stats.logs.enqueued, 1);
+    assert.equal(stats.logs.dropped.beforeSend, 0);
+    assert.equal(stats.bytesSent, 160);
+    assert.equal(stats.retries, 1);
+  });
+
+  it("keeps the most recent error", () => {
+    const recorder = new StatsRecorder();
+    recorder.error(new TypeError("first"));
+    recorder.error(new RangeError("second"));
+    const { lastError } = recorder.snapshot({ events: 0, logs: 0 });
+    assert.equal(lastError?.name, "RangeError");
+    assert.equal(lastError?.message, "second");
+    assert.ok(lastError!.timestamp > 0);
+  });
+
+  it("snapshots are copies", () => {
+    const recorder = new StatsRecorder();
+    const before = recorder.snapshot({ events: 0, logs: 0 });
+    recorder.dropped("logs", "overflow");
+    assert.equal(before.logs.dropped.overflow, 0);
+    assert.equal(recorder.snapshot({ events: 0, logs: 0 }).logs.dropped.overflow, 1);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Suppressor } from "@tell-rs/core";
+
+function makeSuppressor(overrides: { dedupeWindow?: number; rateLimit?: number; rateLimitWindow?: number } = {}) {
+  const summaries: [string, number][] = [];
+  const suppressor = new Suppressor({
+    dedupeWindow: 0,
+    rateLimit: 0,
+    rateLimitWindow: 1000,
+    onSummary: (key, suppressed) => summaries.push([key, suppressed]),
+    ...overrides,
+  });
+  return { suppressor, summaries };
+}
+
+describe("Suppressor", () => {
+  it("is disabled and admits everything by default", () => {
+    const { suppressor } = makeSuppressor();
+    assert.equal(suppressor.enabled, false);
+    for (let i = 0; i < 5; i++) assert.ok(suppressor.admit("Click", "same", 0));
+  });
+
+  it("collapses identical fingerprints within the dedupe window", () => {
+    const { suppressor } = makeSuppressor({ dedupeWindow: 100 });
+    assert.ok(suppressor.admit("Click", "a", 0));
+    assert.equal(suppressor.admit("Click", "a", 50), false);
+    assert.ok(suppressor.admit("Click", "b", 50));
+    assert.equal(suppressor.admit("Click", "a", 99), false);
+    assert.ok(suppressor.admit("Click", "a", 100)); // window measured from the first
+  });
+
+  it("rate limits per key and summarizes once the window ends", () => {
+    const { suppressor, summaries } = makeSuppressor({ rateLimit: 2 });
+    const admitted = [0, 1, 2, 3, 4].map((i) => suppressor.admit("Click", `fp${i}`, i));
+    assert.deepEqual(admitted, [true, true, false, false, false]);
+    assert.ok(suppressor.admit("Scroll", "fp", 5));
+
+    suppressor.sweep(999);
+    assert.deepEqual(summaries, []);
+    assert.ok(suppressor.admit("Click", "fp5", 1000)); // new window
+    assert.deepEqual(summaries, [["Click", 3]]);
+  });
+
+  it("counts dedupe suppressions in the key summary", () => {
+    const { suppressor, summaries } = makeSuppressor({ dedupeWindow: 1000 });
+    for (let i = 0; i < 413; i++) suppressor.admit("Page Viewed", "same", i);
+    suppressor.sweep(Infinity);
+    assert.deepEqual(summaries, [["Page Viewed", 412]]);
+  });
+
+  it("caps tracked keys and summarizes the oldest when flooded", () => {
+    const { suppressor, summaries } = makeSuppressor({ rateLimit: 1 });
+    suppressor.admit("A", "1", 0);
+    assert.equal(suppressor.admit("A", "2", 0), false);
+
+    for (let i = 0; i < 10_000; i++) suppressor.admit(`key-${i}`, `fp${i}`, 1);
+
+    // "A" was evicted within its window: reported early, then starts over
+    assert.deepEqual(summaries, [["A", 1]]);
+    assert.ok(suppressor.admit("A", "3", 2));
+  });
+
+  it("sweep(Infinity) reports pending windows and resets state", () => {
+    const { suppressor, summaries } = makeSuppressor({ rateLimit: 1 });
+    suppressor.admit("A", "1", 0);
+    suppressor.admit("A", "2", 0);
+    suppressor.admit("B", "1", 0);
+    suppressor.sweep(Infinity);
+    assert.deepEqual(summaries, [["A", 1]]);
+    assert.ok(suppressor.admit("A", "3", 1));
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { enforceTrackingPlan, ValidationError } from "@tell-rs/core";
+import type { JsonEvent, TrackingPlan } from "@tell-rs/core";
+
+function makeEvent(overrides: Partial<JsonEvent> = {}): JsonEvent {
+  return {
+    type: "track",
+    event: "Order Completed",
+    device_id: "d1",
+    session_id: "s1",
+    user_id: "u1",
+    timestamp: 1000,
+    ...overrides,
+  };
+}
+
+const plan: TrackingPlan = {
+  "Order Completed": {
+    order_id: { type: "string", required: true, maxLength: 8 },
+    amount: { type: "number", required: true },
+    currency: { type: "string", enum: ["USD", "EUR"] },
+    items: { type: "array", maxLength: 2 },
+    coupon: { type: ["string", "null"] },
+  },
+};
+
+describe("enforceTrackingPlan", () => {
+  it("passes a conforming event through unchanged", () => {
+    const fn = enforceTrackingPlan({ events: plan });
+    const event = makeEvent({ order_id: "o_1", amount: 10, currency: "EUR", coupon: null });
+    assert.equal(fn(event), event);
+  });
+
+  it("ignores events not in the plan and non-track events", () => {
+    const errors: ValidationError[] = [];
+    const fn = enforceTrackingPlan({ events: plan, mode: "drop", onViolation: (e) => errors.push(e) });
+    assert.ok(fn(makeEvent({ event: "Page Viewed" })));
+    assert.ok(fn(makeEvent({ type: "identify", event: undefined })));
+    assert.ok(fn(makeEvent({ event: "toString" })));
+    assert.equal(errors.length, 0);
+  });
+
+  it("reports each violation as a ValidationError", () => {
+    const errors: ValidationError[] = [];
+    const fn = enforceTrackingPlan({ events: plan, onViolation: (e) => errors.push(e) });
+    fn(makeEvent({ order_id: "o_123456789", currency: "GBP", items: [1, 2, 3], coupon: 5 }));
+
+    assert.ok(errors.every((e) => e instanceof ValidationError));
+    assert.deepEqual(errors.map((e) => e.field), [
+      "properties.order_id",
+      "properties.amount",
+      "properties.currency",
+      "properties.items",
+      "properties.coupon",
+    ]);
+    assert.match(errors[0].message, /length 11 exceeds 8/);
+    assert.match(errors[1].message, /is required \(event "Order Completed"\)/);
+    assert.match(errors[2].message, /must be one of "USD", "EUR"/);
+    assert.match(errors[4].message, /expected string \| null, got number/);
+  });
+
+  it("warn mode sends the violating event", () => {
+    const fn = enforceTrackingPlan({ events: plan, mode: "warn", onViolation: () => {} });
+    const event = makeEvent({ order_id: 1 });
+    assert.equal(fn(event), event);
+  });
+
+  it("drop mode drops the violating event", () => {
+    const errors: ValidationError[] = [];
+    const fn = enforceTrackingPlan({ events: plan, mode: "drop", onViolation: (e) => errors.push(e) });
+    assert.equal(fn(makeEvent({ amount: 5 })), null);
+    assert.equal(errors.length, 1);
+  });
+
+  it("annotate mode adds _violations without reporting", () => {
+    const errors: ValidationError[] = [];
+    const fn = enforceTrackingPlan({ events: plan, mode: "annotate", onViolation: (e) => errors.push(e) });
+    const result = fn(makeEvent({ order_id: "o_1", amount: "10" }))!;
+    assert.deepEqual(result._violations, ["properties.amount: expected number, got string (event \"Order Completed\")"]);
+    assert.equal(errors.length, 0);
+  });
+});
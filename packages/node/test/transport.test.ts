@@ -1,7 +1,8 @@
 import { describe, it, beforeEach, afterEach } from "node:test";
 import assert from "node:assert/strict";
 import { HttpTransport } from "../src/transport.js";
-import type { JsonEvent, JsonLog } from "@tell-rs/core";
+import { CircuitBreaker, CircuitOpenError, ClockSkew, StatsRecorder, handleResponse, parsePartialSuccess, retryAfter, NetworkError } from "@tell-rs/core";
+import type { CollectorResponse, JsonEvent, JsonLog, RejectedItem, RejectionReason } from "@tell-rs/core";
 
 // Mock fetch for transport tests
 let fetchCalls: { url: string; init: RequestInit }[] = [];
@@ -179,6 +180,67 @@ describe("HttpTransport", () => {
     assert.equal(fetchCalls.length, 3);
   });
 
+  it("sends the same Idempotency-Key on every retry", async () => {
+    let callIndex = 0;
+    globalThis.fetch = (async (url: string, init: RequestInit) => {
+      fetchCalls.push({ url: String(url), init });
+      callIndex++;
+      return (callIndex === 1
+        ? { status: 503, statusText: "Service Unavailable" }
+        : { status: 202, statusText: "Accepted" }) as Response;
+    }) as typeof globalThis.fetch;
+
+    const transport = new HttpTransport({
+      endpoint: "https://collect.example.com",
+      apiKey: "feed1e11feed1e11feed1e11feed1e11",
+      maxRetries: 1,
+      networkTimeout: 30_000,
+      gzip: false,
+    });
+
+    await transport.sendEvents([
+      { type: "track", event: "a", device_id: "d", timestamp: 1, message_id: "01J0000000000000000000000A" },
+      { type: "track", event: "b", device_id: "d", timestamp: 2, message_id: "01J0000000000000000000000B" },
+    ]);
+    await transport.sendEvents([{ type: "track", event: "c", device_id: "d", timestamp: 3 }]);
+
+    const keys = fetchCalls.map((c) => (c.init.headers as Record<string, string>)["Idempotency-Key"]);
+    assert.equal(keys.length, 3);
+    assert.match(keys[0], /^[0-9a-f]{32}$/);
+    assert.equal(keys[1], keys[0]);
+    // Items without a message_id get no key rather than one shared with other batches
+    assert.equal(keys[2], undefined);
+  });
+
+  it("stamps each attempt with Sent-At and learns the collector clock from Date", async () => {
+    const collectorNow = Date.now() + 3_600_000;
+    globalThis.fetch = (async (url: string, init: RequestInit) => {
+      fetchCalls.push({ url: String(url), init });
+      return {
+        status: 202,
+        statusText: "Accepted",
+        headers: new Headers({ Date: new Date(collectorNow).toUTCString() }),
+      } as Response;
+    }) as typeof globalThis.fetch;
+
+    const clock = new ClockSkew();
+    const transport = new HttpTransport({
+      endpoint: "https://collect.example.com",
+      apiKey: "feed1e11feed1e11feed1e11feed1e11",
+      maxRetries: 0,
+      networkTimeout: 30_000,
+      gzip: false,
+      clock,
+    });
+
+    const before = Date.now();
+    await transport.sendEvents([{ type: "track", event: "a", device_id: "d", timestamp: 1 }]);
+
+    const sentAt = Number((fetchCalls[0].init.headers as Record<string, string>)["Sent-At"]);
+    assert.ok(sentAt >= before && sentAt <= Date.now());
+    assert.ok(Math.abs(clock.offset - 3_600_000) < 2000);
+  });
+
   it("passes AbortSignal to fetch", async () => {
     let capturedSignal: AbortSignal | undefined;
     globalThis.fetch = (async (_url: string | URL | Request, init?: RequestInit) => {
@@ -248,8 +310,255 @@ describe("HttpTransport", () => {
     assert.equal(typeof fetchCalls[0].init.body, "string");
   });
 
+  it("compresses with the first encoding this Node supports, streamed off the event loop", async () => {
+    const { brotliDecompressSync, gunzipSync } = await import("node:zlib");
+    const events: JsonEvent[] = Array.from({ length: 1200 }, (_, i) => ({
+      type: "track",
+      event: "Page Viewed",
+      device_id: "d",
+      timestamp: i,
+      properties: { path: `/docs/${i}` },
+    }));
+
+    const br = new HttpTransport({
+      endpoint: "https://collect.example.com",
+      apiKey: "feed1e11feed1e11feed1e11feed1e11",
+      maxRetries: 0,
+      networkTimeout: 30_000,
+      gzip: false,
+      compression: ["br"],
+    });
+    await br.sendEvents(events);
+    const brHeaders = fetchCalls[0].init.headers as Record<string, string>;
+    assert.equal(brHeaders["Content-Encoding"], "br");
+    const lines = brotliDecompressSync(fetchCalls[0].init.body as Buffer).toString("utf-8").split("\n");
+    assert.equal(lines.length, 1200);
+    assert.equal(JSON.parse(lines[1199]).properties.path, "/docs/1199");
+
+    // zstd needs Node 22.15+; elsewhere the next preference is used
+    const { canEncode } = await import("../src/compress.js");
+    const zstd = new HttpTransport({
+      endpoint: "https://collect.example.com",
+      apiKey: "feed1e11feed1e11feed1e11feed1e11",
+      maxRetries: 0,
+      networkTimeout: 30_000,
+      gzip: false,
+      compression: ["zstd", "gzip"],
+    });
+    await zstd.sendEvents(events.slice(0, 10));
+    const zstdHeaders = fetchCalls[1].init.headers as Record<string, string>;
+    if (canEncode("zstd")) {
+      assert.equal(zstdHeaders["Content-Encoding"], "zstd");
+    } else {
+      assert.equal(zstdHeaders["Content-Encoding"], "gzip");
+      assert.equal(gunzipSync(fetchCalls[1].init.body as Buffer).toString("utf-8").split("\n").length, 10);
+    }
+  });
+
+  it("sends bodies under compressionThreshold uncompressed", async () => {
+    const transport = new HttpTransport({
+      endpoint: "https://collect.example.com",
+      apiKey: "feed1e11feed1e11feed1e11feed1e11",
+      maxRetries: 0,
+      networkTimeout: 30_000,
+      gzip: true,
+      compressionThreshold: 1024,
+    });
+    const event: JsonEvent = { type: "track", event: "test", device_id: "d", timestamp: 1 };
+
+    await transport.sendEvents([event]);
+    await transport.sendEvents(Array.from({ length: 50 }, () => event));
+
+    assert.equal(typeof fetchCalls[0].init.body, "string");
+    assert.ok(Buffer.isBuffer(fetchCalls[1].init.body));
+  });
+
+  it("narrows encodings to the collector's Accept-Encoding after a 415", async () => {
+    const sent: Record<string, string>[] = [];
+    globalThis.fetch = (async (_url: string, init: RequestInit) => {
+      const headers = { ...(init.headers as Record<string, string>) };
+      sent.push(headers);
+      const encoding = headers["Content-Encoding"];
+      // br is refused with a list; gzip later stops being accepted, without one
+      if (encoding === "br" || (encoding === "gzip" && sent.length > 2)) {
+        const accept = encoding === "br" ? { "Accept-Encoding": "gzip, identity" } : {};
+        return { status: 415, statusText: "Unsupported Media Type", headers: new Headers(accept) } as Response;
+      }
+      return { status: 202, statusText: "Accepted" } as Response;
+    }) as typeof globalThis.fetch;
+
+    const stats = new StatsRecorder();
+    const transport = new HttpTransport({
+      endpoint: "https://collect.example.com",
+      apiKey: "feed1e11feed1e11feed1e11feed1e11",
+      maxRetries: 0,
+      networkTimeout: 30_000,
+      gzip: false,
+      compression: ["br", "gzip"],
+      stats,
+    });
+    const events: JsonEvent[] = [{ type: "track", event: "test", device_id: "d", timestamp: 1 }];
+
+    assert.equal(await transport.sendEvents(events), true);
+    assert.deepEqual(sent.map((h) => h["Content-Encoding"]), ["br", "gzip"]);
+    assert.equal(stats.snapshot({ events: 0, logs: 0 }).retries, 0);
+
+    // Refused again without Accept-Encoding: uncompressed from then on
+    assert.equal(await transport.sendEvents(events), true);
+    assert.equal(await transport.sendEvents(events), true);
+    assert.deepEqual(sent.map((h) => h["Content-Encoding"]), ["br", "gzip", "gzip", undefined, undefined]);
+  });
+
   // --- New tests: 413 handling ---
 
+  it("passes refused items and reasons from a 207 to onRejected", async () => {
+    fetchResponse = {
+      status: 207,
+      statusText: "Multi-Status",
+      body: { accepted: 1, rejected: 1, errors: [{ index: 1, code: "invalid_type", field: "properties.amount" }] },
+    };
+    let rejected: { items: RejectedItem[]; reasons: RejectionReason[] } | undefined;
+    const transport = new HttpTransport({
+      endpoint: "https://collect.example.com",
+      apiKey: "feed1e11feed1e11feed1e11feed1e11",
+      maxRetries: 0,
+      networkTimeout: 30_000,
+      gzip: false,
+      onRejected: (items, reasons) => { rejected = { items, reasons }; },
+    });
+    const events: JsonEvent[] = [
+      { type: "track", event: "Ok", device_id: "d", timestamp: 1 },
+      { type: "track", event: "Bad", device_id: "d", timestamp: 1, properties: { amount: "ten" } },
+    ];
+
+    assert.equal(await transport.sendEvents(events), true);
+    assert.equal(rejected!.items[0], events[1]);
+    assert.deepEqual(rejected!.reasons, [{ index: 1, code: "invalid_type", field: "properties.amount" }]);
+  });
+
+  it("retries 429 instead of dropping the batch", async () => {
+    let callIndex = 0;
+    globalThis.fetch = (async (url: string, init: RequestInit) => {
+      fetchCalls.push({ url: String(url), init });
+      callIndex++;
+      return callIndex === 1
+        ? ({ status: 429, statusText: "Too Many Requests" } as Response)
+        : ({ status: 202, statusText: "Accepted" } as Response);
+    }) as typeof globalThis.fetch;
+
+    const transport = new HttpTransport({
+      endpoint: "https://collect.example.com",
+      apiKey: "feed1e11feed1e11feed1e11feed1e11",
+      maxRetries: 1,
+      networkTimeout: 30_000,
+      gzip: false,
+    });
+
+    assert.equal(await transport.sendEvents([{ type: "track", event: "test", device_id: "d", timestamp: 1 }]), true);
+    assert.equal(fetchCalls.length, 2);
+  });
+
+  it("opens the circuit on a long Retry-After and stops sending", async () => {
+    globalThis.fetch = (async (url: string, init: RequestInit) => {
+      fetchCalls.push({ url: String(url), init });
+      return {
+        status: 503,
+        statusText: "Service Unavailable",
+        headers: new Headers({ "Retry-After": "120" }),
+      } as Response;
+    }) as typeof globalThis.fetch;
+
+    const breaker = new CircuitBreaker({ threshold: 5, cooldown: 30_000 });
+    const transport = new HttpTransport({
+      endpoint: "https://collect.example.com",
+      apiKey: "feed1e11feed1e11feed1e11feed1e11",
+      maxRetries: 3,
+      networkTimeout: 30_000,
+      gzip: false,
+      breaker,
+    });
+    const events: JsonEvent[] = [{ type: "track", event: "test", device_id: "d", timestamp: 1 }];
+
+    await assert.rejects(() => transport.sendEvents(events), CircuitOpenError);
+    await assert.rejects(() => transport.sendLogs([{ level: "info", message: "m", timestamp: 1 }]), CircuitOpenError);
+    // No retries inside the Retry-After window, and nothing sent while open
+    assert.equal(fetchCalls.length, 1);
+    assert.ok(breaker.retryIn() > 110_000);
+  });
+
+  it("opens the circuit after repeated failures", async () => {
+    fetchResponse = { status: 500, statusText: "Internal Server Error" };
+    const transport = new HttpTransport({
+      endpoint: "https://collect.example.com",
+      apiKey: "feed1e11feed1e11feed1e11feed1e11",
+      maxRetries: 0,
+      networkTimeout: 30_000,
+      gzip: false,
+      breaker: new CircuitBreaker({ threshold: 2, cooldown: 30_000 }),
+    });
+    const events: JsonEvent[] = [{ type: "track", event: "test", device_id: "d", timestamp: 1 }];
+
+    assert.equal(await transport.sendEvents(events), false);
+    await assert.rejects(() => transport.sendEvents(events), CircuitOpenError);
+    await assert.rejects(() => transport.sendEvents(events), CircuitOpenError);
+    assert.equal(fetchCalls.length, 2);
+  });
+
+  it("fails over to the next endpoint when one cannot be reached, and stays there", async () => {
+    globalThis.fetch = (async (url: string, init: RequestInit) => {
+      fetchCalls.push({ url: String(url), init });
+      if (String(url).startsWith("https://primary")) throw new TypeError("fetch failed");
+      return { status: 202, statusText: "Accepted" } as Response;
+    }) as typeof globalThis.fetch;
+
+    const switched: string[] = [];
+    const breaker = new CircuitBreaker({ threshold: 1, cooldown: 30_000 });
+    const transport = new HttpTransport({
+      endpoint: ["https://primary.example.com", "https://secondary.example.com"],
+      apiKey: "feed1e11feed1e11feed1e11feed1e11",
+      maxRetries: 2,
+      networkTimeout: 30_000,
+      gzip: false,
+      breaker,
+      onEndpointChange: (endpoint) => switched.push(endpoint),
+    });
+    const events: JsonEvent[] = [{ type: "track", event: "test", device_id: "d", timestamp: 1 }];
+
+    assert.equal(await transport.sendEvents(events), true);
+    assert.equal(await transport.sendEvents(events), true);
+    assert.deepEqual(
+      fetchCalls.map((c) => c.url),
+      [
+        "https://primary.example.com/v1/events",
+        "https://secondary.example.com/v1/events",
+        "https://secondary.example.com/v1/events",
+      ]
+    );
+    assert.equal(fetchCalls[1].init.body, fetchCalls[0].init.body);
+    assert.deepEqual(switched, ["https://secondary.example.com"]);
+    // A secondary that answered is no failure
+    assert.equal(breaker.state, "closed");
+  });
+
+  it("counts a failure only once every endpoint has failed", async () => {
+    fetchResponse = { status: 503, statusText: "Service Unavailable" };
+    const breaker = new CircuitBreaker({ threshold: 2, cooldown: 30_000 });
+    const transport = new HttpTransport({
+      endpoint: ["https://primary.example.com", "https://secondary.example.com"],
+      apiKey: "feed1e11feed1e11feed1e11feed1e11",
+      maxRetries: 0,
+      networkTimeout: 30_000,
+      gzip: false,
+      breaker,
+    });
+    const events: JsonEvent[] = [{ type: "track", event: "test", device_id: "d", timestamp: 1 }];
+
+    assert.equal(await transport.sendEvents(events), false);
+    assert.equal(fetchCalls.length, 2);
+    assert.equal(breaker.state, "closed");
+    await assert.rejects(() => transport.sendEvents(events), CircuitOpenError);
+  });
+
   it("calls onPayloadTooLarge on 413 and throws", async () => {
     fetchResponse = { status: 413, statusText: "Payload Too Large" };
 
@@ -281,3 +590,70 @@ describe("HttpTransport", () => {
     assert.equal(fetchCalls.length, 1);
   });
 });
+
+describe("handleResponse", () => {
+  const response = (status: number, body?: unknown): CollectorResponse => ({
+    status,
+    statusText: "",
+    json: () => Promise.resolve(body),
+  });
+
+  it("treats 202 and 207 as answered and reports rejected items", async () => {
+    const errors: Error[] = [];
+    assert.equal(await handleResponse(response(202), { onError: (err) => errors.push(err) }), true);
+    assert.equal(await handleResponse(response(207, { rejected: 3 }), { onError: (err) => errors.push(err) }), true);
+    assert.deepEqual(errors.map((e) => e.message), ["Partial success: 3 items rejected"]);
+  });
+
+  it("parses per-item reasons from a 207 body", () => {
+    const { rejected, reasons } = parsePartialSuccess({
+      errors: [
+        { index: 3, reason: "too_large" },
+        { index: 0, code: "missing_field", field: "event", message: "event is required" },
+        { index: "x", code: "ignored" },
+      ],
+    });
+    assert.equal(rejected, 2);
+    assert.deepEqual(reasons, [
+      { index: 0, code: "missing_field", field: "event", message: "event is required" },
+      { index: 3, code: "too_large" },
+    ]);
+    assert.deepEqual(parsePartialSuccess(null), { rejected: undefined, reasons: [] });
+  });
+
+  it("reports 401 and other 4xx as permanent rejections", async () => {
+    const errors: NetworkError[] = [];
+    const onError = (err: Error) => errors.push(err as NetworkError);
+    assert.equal(await handleResponse(response(401), { onError }), true);
+    assert.equal(await handleResponse(response(400), { onError }), true);
+    assert.deepEqual(errors.map((e) => e.statusCode), [401, 400]);
+    assert.equal(errors[0].message, "Invalid API key");
+  });
+
+  it("throws on 413 after calling onPayloadTooLarge", async () => {
+    let called = false;
+    await assert.rejects(
+      () => handleResponse(response(413), { onPayloadTooLarge: () => { called = true; } }),
+      (err: any) => err instanceof NetworkError && err.statusCode === 413
+    );
+    assert.equal(called, true);
+  });
+
+  it("retries 429", async () => {
+    assert.equal(await handleResponse(response(429)), false);
+  });
+
+  it("parses Retry-After as seconds or an HTTP date", () => {
+    const withHeader = (value: string): CollectorResponse => ({ ...response(503), headers: new Headers({ "Retry-After": value }) });
+    const now = Date.parse("2026-01-01T00:00:00Z");
+    assert.equal(retryAfter(withHeader("30"), now), 30_000);
+    assert.equal(retryAfter(withHeader("Thu, 01 Jan 2026 00:01:00 GMT"), now), 60_000);
+    assert.equal(retryAfter(withHeader("86400"), now), 600_000);
+    assert.equal(retryAfter(withHeader("soon"), now), 0);
+    assert.equal(retryAfter(response(503)), 0);
+  });
+
+  it("asks for a retry on 5xx", async () => {
+    assert.equal(await handleResponse(response(503)), false);
+  });
+});
@@ -0,0 +1,42 @@
+// Compile-time checks for typed tracking plans, run by `npm run typecheck`.
+// Each @ts-expect-error must match a type error, so looser typings fail the build.
+import { Tell } from "../../src/index.js";
+
+interface Plan {
+  "Order Completed": { order_id: string; amount: number; coupon?: string };
+  "Page Viewed": { path?: string };
+}
+
+declare const tell: Tell<Plan>;
+
+tell.track("u_1", "Order Completed", { order_id: "o_1", amount: 42 });
+tell.track("u_1", "Order Completed", { order_id: "o_1", amount: 42, coupon: "SPRING" });
+tell.track("u_1", "Page Viewed");
+tell.track("u_1", "Page Viewed", { path: "/home" });
+tell.withService("web").track("u_1", "Page Viewed");
+
+// @ts-expect-error unknown event
+tell.track("u_1", "Order Complete", { order_id: "o_1", amount: 42 });
+
+// @ts-expect-error misspelled property
+tell.track("u_1", "Order Completed", { orderId: "o_1", amount: 42 });
+
+// @ts-expect-error missing required property
+tell.track("u_1", "Order Completed", { order_id: "o_1" });
+
+// @ts-expect-error properties required when the event declares required ones
+tell.track("u_1", "Order Completed");
+
+// @ts-expect-error excess property
+tell.track("u_1", "Order Completed", { order_id: "o_1", amount: 42, extra: true });
+
+// @ts-expect-error wrong property type
+tell.track("u_1", "Order Completed", { order_id: "o_1", amount: "42" });
+
+// @ts-expect-error unknown event through a service scope
+tell.withService("web").track("u_1", "Signed Up");
+
+// Untyped clients accept any event name and properties
+declare const untyped: Tell;
+untyped.track("u_1", "Anything", { nested: { ok: [1, "two"] } });
+untyped.track("u_1", "No Properties");
@@ -5,8 +5,10 @@ import {
   validateEventName,
   validateLogMessage,
   validateUserId,
+  validateProperties,
   ConfigurationError,
   ValidationError,
+  SerializationError,
 } from "@tell-rs/core";
 
 describe("validateApiKey", () => {
@@ -96,3 +98,38 @@ describe("validateUserId", () => {
     assert.throws(() => validateUserId(42), ValidationError);
   });
 });
+
+describe("validateProperties", () => {
+  it("accepts undefined and flat properties", () => {
+    assert.doesNotThrow(() => validateProperties(undefined));
+    assert.doesNotThrow(() => validateProperties({ plan: "pro", seats: 3 }));
+  });
+
+  it("accepts nested objects and arrays", () => {
+    assert.doesNotThrow(() =>
+      validateProperties({ cart: { items: [{ sku: "A", qty: 1 }], flags: ["beta"] } })
+    );
+  });
+
+  it("accepts shared references that are not cycles", () => {
+    const shared = { sku: "A" };
+    assert.doesNotThrow(() => validateProperties({ first: shared, second: shared }));
+  });
+
+  it("rejects cycles with SerializationError", () => {
+    const cart: Record<string, unknown> = { id: "c1" };
+    cart.self = cart;
+    assert.throws(
+      () => validateProperties({ cart }),
+      (err: Error) => err instanceof SerializationError && err.message.includes("properties.cart.self")
+    );
+  });
+
+  it("rejects nesting deeper than the limit", () => {
+    assert.doesNotThrow(() => validateProperties({ a: { b: { c: 1 } } }, 2));
+    assert.throws(
+      () => validateProperties({ a: { b: { c: {} } } }, 2),
+      (err: Error) => err instanceof ValidationError && err.field === "properties.a.b.c"
+    );
+  });
+});
@@ -9,7 +9,7 @@ import {
   type ReactNode,
 } from "react";
 import tell from "@tell-rs/browser";
-import type { TellBrowserConfig, TellInstance, Properties } from "@tell-rs/browser";
+import type { TellBrowserConfig, TellInstance, Properties, EventKey, TrackArgs, UntypedEvents } from "@tell-rs/browser";
 
 // Re-export everything from @tell-rs/browser for convenience
 export { tell } from "@tell-rs/browser";
@@ -51,17 +51,17 @@ export function TellProvider({ apiKey, options, children }: TellProviderProps) {
 // Hooks
 // ---------------------------------------------------------------------------
 
-/** Access the Tell singleton instance. */
-export function useTell(): TellInstance {
-  return useContext(TellContext);
+/** Access the Tell singleton instance, optionally typed by a tracking plan. */
+export function useTell<E extends object = UntypedEvents>(): TellInstance<E> {
+  return useContext(TellContext) as TellInstance<E>;
 }
 
-/** Returns a stable `track` function. */
-export function useTrack() {
-  const t = useTell();
+/** Returns a stable `track` function, optionally typed by a tracking plan. */
+export function useTrack<E extends object = UntypedEvents>() {
+  const t = useTell<E>();
   return useCallback(
-    (eventName: string, properties?: Properties) => {
-      t.track(eventName, properties);
+    <K extends EventKey<E>>(eventName: K, ...args: TrackArgs<E, K>) => {
+      t.track(eventName, ...args);
     },
     [t]
   );
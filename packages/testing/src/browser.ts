@@ -0,0 +1,30 @@
+import { tell, type TellBrowserConfig, type TellInstance, type UntypedEvents } from "@tell-rs/browser";
+import { MemoryTransport } from "./memory-transport.js";
+import { MANUAL_FLUSH_INTERVAL, TEST_API_KEY, TestTell, type TestTellOptions } from "./test-tell.js";
+
+export { MemoryTransport } from "./memory-transport.js";
+export { TestTell, TellAssertionError, matches, TEST_API_KEY, type TestClient, type TestTellOptions } from "./test-tell.js";
+
+/**
+ * Reset the `tell` singleton and configure it to record into memory instead
+ * of sending, with in-memory persistence and bot detection off. Options are
+ * passed through, except `transport`. Call `close()` when the test is done.
+ */
+export function createTestTell<E extends object = UntypedEvents>(
+  options: Omit<TellBrowserConfig, "transport"> & TestTellOptions = {}
+): TestTell<TellInstance<E>> {
+  const { fakeIds, ...tellOptions } = options;
+  const client = tell as TellInstance<E>;
+  client._resetForTesting();
+  const transport = new MemoryTransport();
+  // Capture before configure so the session start is recorded
+  const test = new TestTell(client, transport, { fakeIds });
+  client.configure(TEST_API_KEY, {
+    botDetection: false,
+    persistence: "memory",
+    flushInterval: MANUAL_FLUSH_INTERVAL,
+    ...tellOptions,
+    transport,
+  });
+  return test;
+}
@@ -0,0 +1,51 @@
+#!/usr/bin/env node
+// tell-mock-collector — run the mock collector on its own, e.g. for local
+// development or e2e suites in another process.
+//
+//   npx tell-mock-collector --port 8080 --latency 50
+
+import { parseArgs } from "node:util";
+import { MockCollector } from "./collector.js";
+
+const { values } = parseArgs({
+  options: {
+    port: { type: "string", default: "8080" },
+    host: { type: "string", default: "127.0.0.1" },
+    latency: { type: "string" },
+    "clock-offset": { type: "string" },
+    "max-body-size": { type: "string" },
+    "api-key": { type: "string", multiple: true },
+    encoding: { type: "string", multiple: true },
+  },
+});
+
+const collector = new MockCollector({
+  port: Number(values.port),
+  host: values.host,
+  latency: values.latency === undefined ? undefined : Number(values.latency),
+  clockOffset: values["clock-offset"] === undefined ? undefined : Number(values["clock-offset"]),
+  maxBodySize: values["max-body-size"] === undefined ? undefined : Number(values["max-body-size"]),
+  apiKeys: values["api-key"],
+  encodings: values.encoding,
+  onRequest: (request) => {
+    const encoding = request.encoding ? `, ${request.encoding}` : "";
+    console.log(`${request.status} /v1/${request.kind} — ${request.items.length} items, ${request.bytes} bytes${encoding}`);
+  },
+});
+
+collector.start().then(
+  (url) => {
+    console.log(`Tell mock collector listening on ${url}`);
+    console.log(`Inspect with GET ${url}/_mock/events, ${url}/_mock/logs and ${url}/_mock/requests`);
+  },
+  (err: Error) => {
+    console.error(err.message);
+    process.exit(1);
+  }
+);
+
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+  process.once(signal, () => {
+    collector.stop().then(() => process.exit(0));
+  });
+}
@@ -0,0 +1,346 @@
+import { createServer, type IncomingHttpHeaders, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import * as zlib from "node:zlib";
+import type { JsonEvent, JsonLog, RejectionReason } from "@tell-rs/core";
+
+export type CollectorKind = "events" | "logs";
+
+export interface MockCollectorOptions {
+  /** Port to listen on. Default 0, a free port. */
+  port?: number;
+  /** Interface to listen on. Default "127.0.0.1". */
+  host?: string;
+  /** Accepted API keys. Default any 32-character hex key. */
+  apiKeys?: string[];
+  /** Delay every answer by this many milliseconds. Default 0. */
+  latency?: number;
+  /** Send a `Date` header this many milliseconds off the local clock, to simulate a skewed collector. Default 0. */
+  clockOffset?: number;
+  /**
+   * Content encodings accepted for request bodies; others get 415 with an
+   * `Accept-Encoding` header listing these. Default gzip, br and — where
+   * this Node has it — zstd.
+   */
+  encodings?: string[];
+  /** Answer 413 to bodies larger than this many bytes, as sent. Default unlimited. */
+  maxBodySize?: number;
+  /** Called after each `/v1` request is answered. */
+  onRequest?: (request: ReceivedRequest) => void;
+}
+
+/**
+ * How to answer an upcoming request instead of 202. Faults queue up and are
+ * used in order, each for `times` requests.
+ */
+export interface Fault {
+  /** Status to answer with, e.g. 413, 429, 503 or 207. Default 207 when `errors` or `rejected` is set, else 503. */
+  status?: number;
+  /** 207 only: the refused items. Items not listed are stored as accepted. */
+  errors?: RejectionReason[];
+  /** 207 only: refused count reported in the body. Defaults to the number of `errors`. */
+  rejected?: number;
+  /** Sent as the Retry-After header, in seconds. */
+  retryAfter?: number;
+  /** Delay this answer by this many milliseconds, on top of the `latency` option. */
+  latency?: number;
+  /** Only apply to requests for this endpoint. */
+  kind?: CollectorKind;
+  /** Number of requests to answer this way. Default 1. */
+  times?: number;
+}
+
+/** A request the collector answered, in arrival order. */
+export interface ReceivedRequest {
+  kind: CollectorKind;
+  status: number;
+  apiKey: string;
+  /** From the `Idempotency-Key` header or `?idempotency_key=`. */
+  idempotencyKey?: string;
+  /** Client send time in ms, from the `Sent-At` header or `?sent_at=`. */
+  sentAt?: number;
+  headers: IncomingHttpHeaders;
+  /** Body size as sent, before decompression. */
+  bytes: number;
+  /** From `Content-Encoding` or `?content_encoding=`, if the body was compressed. */
+  encoding?: string;
+  gzip: boolean;
+  /** Every parsed line, whether accepted or not. */
+  items: (JsonEvent | JsonLog)[];
+}
+
+const API_KEY_PATTERN = /^[0-9a-f]{32}$/i;
+
+const DECODERS: Record<string, ((body: Buffer) => Buffer) | undefined> = {
+  gzip: zlib.gunzipSync,
+  br: zlib.brotliDecompressSync,
+  zstd: typeof zlib.zstdDecompressSync === "function" ? zlib.zstdDecompressSync : undefined,
+};
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers": "Authorization, Content-Type, Content-Encoding, Idempotency-Key, Sent-At",
+  "Access-Control-Expose-Headers": "Date, Retry-After",
+};
+
+class BadRequest extends Error {}
+
+/**
+ * A local stand-in for the Tell collector: `POST /v1/events` and `/v1/logs`
+ * with bearer or `?token=` auth, NDJSON bodies and gzip, br or zstd. Accepted items are
+ * kept for inspection; `fail()` scripts error answers for the SDK's retry,
+ * split and rejection paths.
+ *
+ * The same state is served over HTTP for tools in other processes:
+ * `GET /_mock/events`, `/_mock/logs` and `/_mock/requests` read it,
+ * `POST /_mock/faults` queues a `Fault` and `DELETE /_mock` clears it all.
+ */
+export class MockCollector {
+  /** Accepted events, in order. */
+  readonly events: JsonEvent[] = [];
+  /** Accepted logs, in order. */
+  readonly logs: JsonLog[] = [];
+  readonly requests: ReceivedRequest[] = [];
+  private readonly options: MockCollectorOptions;
+  private readonly faults: Fault[] = [];
+  private readonly waiters = new Set<() => void>();
+  private server: Server | null = null;
+  private address = "";
+
+  constructor(options: MockCollectorOptions = {}) {
+    this.options = options;
+  }
+
+  /** Start listening; resolves with the base URL to pass as `endpoint`. */
+  async start(): Promise<string> {
+    if (this.server) return this.url;
+    const server = createServer((req, res) => {
+      this.handle(req, res).catch((err) => {
+        this.answer(res, 500, { error: err instanceof Error ? err.message : String(err) });
+      });
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(this.options.port ?? 0, this.options.host ?? "127.0.0.1", () => {
+        server.off("error", reject);
+        resolve();
+      });
+    });
+    const { address, family, port } = server.address() as AddressInfo;
+    this.address = `http://${family === "IPv6" ? `[${address}]` : address}:${port}`;
+    this.server = server;
+    return this.url;
+  }
+
+  /** Base URL, e.g. `http://127.0.0.1:53124`. Only valid once started. */
+  get url(): string {
+    if (!this.server) throw new Error("MockCollector is not started");
+    return this.address;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  /** Answer upcoming requests with this fault instead of 202. */
+  fail(fault: Fault): void {
+    this.faults.push({ ...fault, times: fault.times ?? 1 });
+  }
+
+  /** Forget received items, requests and pending faults. */
+  clear(): void {
+    this.events.length = 0;
+    this.logs.length = 0;
+    this.requests.length = 0;
+    this.faults.length = 0;
+  }
+
+  /**
+   * Resolve once at least this many events and logs have been accepted —
+   * for sends that are not awaited, like beacons and background flushes.
+   */
+  waitFor(counts: { events?: number; logs?: number }, timeout = 5000): Promise<void> {
+    const done = () => this.events.length >= (counts.events ?? 0) && this.logs.length >= (counts.logs ?? 0);
+    if (done()) return Promise.resolve();
+    return new Promise((resolve, reject) => {
+      const check = () => {
+        if (!done()) return;
+        clearTimeout(timer);
+        this.waiters.delete(check);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        this.waiters.delete(check);
+        reject(
+          new Error(
+            `Timed out after ${timeout}ms waiting for ${counts.events ?? 0} events and ${counts.logs ?? 0} logs; ` +
+              `got ${this.events.length} events and ${this.logs.length} logs`
+          )
+        );
+      }, timeout);
+      this.waiters.add(check);
+    });
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? "/", "http://collector");
+    const method = req.method ?? "GET";
+
+    if (method === "OPTIONS") return this.answer(res, 204);
+    if (url.pathname === "/_mock" || url.pathname.startsWith("/_mock/")) return this.inspect(method, url.pathname, req, res);
+
+    const kind = url.pathname === "/v1/events" ? "events" : url.pathname === "/v1/logs" ? "logs" : null;
+    if (!kind) return this.answer(res, 404, { error: "not found" });
+    if (method !== "POST") return this.answer(res, 405, { error: "method not allowed" });
+
+    const body = await readBody(req);
+    const apiKey = bearer(req.headers.authorization) ?? url.searchParams.get("token") ?? "";
+    const encoding = header(req.headers["content-encoding"]) ?? url.searchParams.get("content_encoding") ?? undefined;
+    const idempotencyKey = header(req.headers["idempotency-key"]) ?? url.searchParams.get("idempotency_key") ?? undefined;
+    const sentAt = Number(header(req.headers["sent-at"]) ?? url.searchParams.get("sent_at") ?? NaN);
+    const request: ReceivedRequest = {
+      kind,
+      status: 0,
+      apiKey,
+      idempotencyKey,
+      sentAt: Number.isFinite(sentAt) ? sentAt : undefined,
+      headers: req.headers,
+      bytes: body.length,
+      encoding,
+      gzip: encoding === "gzip",
+      items: [],
+    };
+    this.requests.push(request);
+
+    const fault = this.nextFault(kind);
+    const latency = (this.options.latency ?? 0) + (fault?.latency ?? 0);
+    if (latency > 0) await new Promise((resolve) => setTimeout(resolve, latency));
+
+    if (!this.authorized(apiKey)) return this.reply(res, request, 401, { error: "invalid api key" });
+    if (this.options.maxBodySize !== undefined && body.length > this.options.maxBodySize) {
+      return this.reply(res, request, 413, { error: "payload too large" });
+    }
+
+    const accepted = this.options.encodings ?? Object.keys(DECODERS).filter((e) => DECODERS[e]);
+    const decode =
+      encoding === undefined || encoding === "identity" ? (b: Buffer) => b : accepted.includes(encoding) ? DECODERS[encoding] : undefined;
+    if (!decode) {
+      return this.reply(res, request, 415, { error: `unsupported content encoding ${encoding}` }, { "Accept-Encoding": accepted.join(", ") });
+    }
+    try {
+      request.items = parseNdjson(decode(body));
+    } catch (err) {
+      return this.reply(res, request, 400, { error: err instanceof BadRequest ? err.message : `invalid ${encoding} body` });
+    }
+
+    if (!fault) {
+      this.accept(kind, request.items);
+      return this.reply(res, request, 202);
+    }
+
+    const status = fault.status ?? (fault.errors || fault.rejected !== undefined ? 207 : 503);
+    const headers = fault.retryAfter !== undefined ? { "Retry-After": String(fault.retryAfter) } : undefined;
+    if (status !== 207) return this.reply(res, request, status, { error: "injected fault" }, headers);
+
+    const errors = fault.errors ?? [];
+    const refused = new Set(errors.map((e) => e.index));
+    this.accept(kind, request.items.filter((_, i) => !refused.has(i)));
+    this.reply(res, request, 207, { rejected: fault.rejected ?? errors.length, errors }, headers);
+  }
+
+  private inspect(method: string, path: string, req: IncomingMessage, res: ServerResponse): Promise<void> | void {
+    if (method === "DELETE" && path === "/_mock") {
+      this.clear();
+      return this.answer(res, 204);
+    }
+    if (method === "POST" && path === "/_mock/faults") {
+      return readBody(req).then((body) => {
+        let fault: Fault;
+        try {
+          fault = JSON.parse(body.toString("utf8")) as Fault;
+        } catch {
+          return this.answer(res, 400, { error: "invalid JSON" });
+        }
+        this.fail(fault);
+        this.answer(res, 204);
+      });
+    }
+    if (method === "GET") {
+      if (path === "/_mock/events") return this.answer(res, 200, this.events);
+      if (path === "/_mock/logs") return this.answer(res, 200, this.logs);
+      if (path === "/_mock/requests") return this.answer(res, 200, this.requests);
+    }
+    this.answer(res, 404, { error: "not found" });
+  }
+
+  private nextFault(kind: CollectorKind): Fault | undefined {
+    const index = this.faults.findIndex((f) => f.kind === undefined || f.kind === kind);
+    if (index === -1) return undefined;
+    const fault = this.faults[index]!;
+    fault.times = fault.times! - 1;
+    if (fault.times <= 0) this.faults.splice(index, 1);
+    return fault;
+  }
+
+  private authorized(apiKey: string): boolean {
+    return this.options.apiKeys ? this.options.apiKeys.includes(apiKey) : API_KEY_PATTERN.test(apiKey);
+  }
+
+  private accept(kind: CollectorKind, items: (JsonEvent | JsonLog)[]): void {
+    if (kind === "events") this.events.push(...(items as JsonEvent[]));
+    else this.logs.push(...(items as JsonLog[]));
+    for (const check of [...this.waiters]) check();
+  }
+
+  private reply(
+    res: ServerResponse,
+    request: ReceivedRequest,
+    status: number,
+    body?: unknown,
+    headers?: Record<string, string>
+  ): void {
+    request.status = status;
+    this.answer(res, status, body, headers);
+    if (this.options.onRequest) this.options.onRequest(request);
+  }
+
+  private answer(res: ServerResponse, status: number, body?: unknown, headers?: Record<string, string>): void {
+    if (res.headersSent) return;
+    const date = this.options.clockOffset ? { Date: new Date(Date.now() + this.options.clockOffset).toUTCString() } : undefined;
+    res.writeHead(status, { ...CORS_HEADERS, ...date, ...headers, ...(body !== undefined && { "Content-Type": "application/json" }) });
+    res.end(body === undefined ? undefined : JSON.stringify(body));
+  }
+}
+
+function bearer(authorization: string | undefined): string | undefined {
+  return authorization?.startsWith("Bearer ") ? authorization.slice(7) : undefined;
+}
+
+function header(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+async function readBody(req: IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks);
+}
+
+function parseNdjson(body: Buffer): (JsonEvent | JsonLog)[] {
+  const items: (JsonEvent | JsonLog)[] = [];
+  const lines = body.toString("utf8").split("\n");
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]!.trim();
+    if (line === "") continue;
+    try {
+      items.push(JSON.parse(line) as JsonEvent | JsonLog);
+    } catch {
+      throw new BadRequest(`invalid JSON on line ${i + 1}`);
+    }
+  }
+  return items;
+}
@@ -0,0 +1,5 @@
+// @tell-rs/testing — test helpers shared by the node and browser entry points.
+// Import createTestTell() from "@tell-rs/testing/node" or "@tell-rs/testing/browser".
+
+export { MemoryTransport } from "./memory-transport.js";
+export { TestTell, TellAssertionError, matches, TEST_API_KEY, type TestClient, type TestTellOptions } from "./test-tell.js";
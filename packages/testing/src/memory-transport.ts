@@ -0,0 +1,58 @@
+import type { JsonEvent, JsonLog, SentBatch, Transport } from "@tell-rs/core";
+
+/**
+ * Keeps every batch in memory instead of sending it. Pass it as the
+ * `transport` option, or use `createTestTell()` which does so for you.
+ */
+export class MemoryTransport implements Transport {
+  /** Batches in the order they were sent, including failed attempts. */
+  readonly batches: SentBatch[] = [];
+  /** Events from delivered batches. */
+  readonly events: JsonEvent[] = [];
+  /** Logs from delivered batches. */
+  readonly logs: JsonLog[] = [];
+  closed = false;
+  private failures: (false | Error)[] = [];
+
+  /**
+   * Make the next `times` sends fail: `false` reports the batch as not
+   * delivered, an Error is thrown and keeps the batch queued for a retry.
+   */
+  failNext(result: false | Error = false, times = 1): void {
+    for (let i = 0; i < times; i++) this.failures.push(result);
+  }
+
+  async sendEvents(events: JsonEvent[]): Promise<boolean> {
+    if (events.length === 0) return true;
+    this.batches.push({ kind: "events", items: events });
+    if (!this.deliver()) return false;
+    this.events.push(...events);
+    return true;
+  }
+
+  async sendLogs(logs: JsonLog[]): Promise<boolean> {
+    if (logs.length === 0) return true;
+    this.batches.push({ kind: "logs", items: logs });
+    if (!this.deliver()) return false;
+    this.logs.push(...logs);
+    return true;
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+  }
+
+  /** Forget everything sent so far. Pending failures are kept. */
+  clear(): void {
+    this.batches.length = 0;
+    this.events.length = 0;
+    this.logs.length = 0;
+  }
+
+  private deliver(): boolean {
+    const failure = this.failures.shift();
+    if (failure === undefined) return true;
+    if (failure instanceof Error) throw failure;
+    return false;
+  }
+}
@@ -0,0 +1,23 @@
+import { Tell, type TellOptions, type UntypedEvents } from "@tell-rs/node";
+import { MemoryTransport } from "./memory-transport.js";
+import { MANUAL_FLUSH_INTERVAL, TEST_API_KEY, TestTell, type TestTellOptions } from "./test-tell.js";
+
+export { MemoryTransport } from "./memory-transport.js";
+export { TestTell, TellAssertionError, matches, TEST_API_KEY, type TestClient, type TestTellOptions } from "./test-tell.js";
+
+/**
+ * A `Tell` instance that records into memory instead of sending. Options are
+ * passed through, except `transport`. Call `close()` when the test is done.
+ */
+export function createTestTell<E extends object = UntypedEvents>(
+  options: Omit<TellOptions, "transport"> & TestTellOptions = {}
+): TestTell<Tell<E>> {
+  const { fakeIds, ...tellOptions } = options;
+  const transport = new MemoryTransport();
+  const tell = new Tell<E>(TEST_API_KEY, {
+    flushInterval: MANUAL_FLUSH_INTERVAL,
+    ...tellOptions,
+    transport,
+  });
+  return new TestTell(tell, transport, { fakeIds });
+}
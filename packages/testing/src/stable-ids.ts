@@ -0,0 +1,36 @@
+import type { JsonEvent, JsonLog } from "@tell-rs/core";
+
+/**
+ * Maps random device, session and message ids to stable ones in order of
+ * appearance — `device_1`, `session_1`, `session_2` after a reset,
+ * `message_1`, … — so captured items
+ * can be compared and snapshotted. Returns copies; sent items are untouched.
+ */
+export class StableIds {
+  private readonly devices = new Map<string, string>();
+  private readonly sessions = new Map<string, string>();
+  private readonly messages = new Map<string, string>();
+
+  event(event: JsonEvent): JsonEvent {
+    const copy = { ...event, device_id: this.stable(this.devices, "device", event.device_id) };
+    if (event.session_id !== undefined) copy.session_id = this.stable(this.sessions, "session", event.session_id);
+    if (event.message_id !== undefined) copy.message_id = this.stable(this.messages, "message", event.message_id);
+    return copy;
+  }
+
+  log(log: JsonLog): JsonLog {
+    const copy = { ...log };
+    if (log.session_id !== undefined) copy.session_id = this.stable(this.sessions, "session", log.session_id);
+    if (log.message_id !== undefined) copy.message_id = this.stable(this.messages, "message", log.message_id);
+    return copy;
+  }
+
+  private stable(ids: Map<string, string>, prefix: string, id: string): string {
+    let fake = ids.get(id);
+    if (fake === undefined) {
+      fake = `${prefix}_${ids.size + 1}`;
+      ids.set(id, fake);
+    }
+    return fake;
+  }
+}
@@ -0,0 +1,182 @@
+import type { DropInfo, JsonEvent, JsonLog, LogLevel, TellEventName, TellListener } from "@tell-rs/core";
+import { describeEvent, describeLog, eventProperties } from "@tell-rs/core";
+import type { MemoryTransport } from "./memory-transport.js";
+import { StableIds } from "./stable-ids.js";
+
+/** A valid API key for test clients; nothing is ever sent with it. */
+export const TEST_API_KEY = "00000000000000000000000000000000";
+
+// Longest timer delay: batches flush only at batch size or when the test asks,
+// so fake timers advanced by the test never trigger a background flush
+export const MANUAL_FLUSH_INTERVAL = 2_147_483_647;
+
+/** The parts of a Tell client the test harness drives. */
+export interface TestClient {
+  on<K extends TellEventName>(name: K, listener: TellListener<K>): () => void;
+  flush(): Promise<void>;
+  close(): Promise<void>;
+}
+
+export interface TestTellOptions {
+  /** Replace device, session and message ids in captured items with `device_1`, `session_1`, `message_1`, … Default true. */
+  fakeIds?: boolean;
+}
+
+/** Thrown by the `expect*` helpers; test runners report it like any failed assertion. */
+export class TellAssertionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TellAssertionError";
+  }
+}
+
+/**
+ * Partial deep match: every key of `expected` must match `actual`. Strings
+ * can be matched by a RegExp and any value by a predicate function.
+ */
+export function matches(actual: unknown, expected: unknown): boolean {
+  if (expected instanceof RegExp) return typeof actual === "string" && expected.test(actual);
+  if (typeof expected === "function") return Boolean(expected(actual));
+  if (Array.isArray(expected)) {
+    return Array.isArray(actual) && actual.length === expected.length && expected.every((e, i) => matches(actual[i], e));
+  }
+  if (typeof expected === "object" && expected !== null) {
+    if (typeof actual !== "object" || actual === null) return false;
+    const record = actual as Record<string, unknown>;
+    return Object.entries(expected).every(([key, value]) => matches(record[key], value));
+  }
+  return Object.is(actual, expected);
+}
+
+function show(value: unknown): string {
+  return JSON.stringify(value, (_, v) => (v instanceof RegExp ? String(v) : typeof v === "function" ? "[Function]" : v));
+}
+
+function listEvents(events: JsonEvent[]): string {
+  if (events.length === 0) return "none";
+  return events.map((e) => `\n  ${describeEvent(e)} ${show(eventProperties(e))}`).join("");
+}
+
+function listLogs(logs: JsonLog[]): string {
+  if (logs.length === 0) return "none";
+  return logs.map((l) => `\n  ${describeLog(l)}${l.data ? " " + show(l.data) : ""}`).join("");
+}
+
+/**
+ * A Tell client wired to a `MemoryTransport`, recording every event and log
+ * as it is queued — after sampling, the tracking plan, plugins and
+ * `beforeSend` — so assertions see exactly what would be sent. Assertions
+ * are synchronous; `await flush()` first when hooks are async.
+ */
+export class TestTell<Client extends TestClient> {
+  readonly tell: Client;
+  readonly transport: MemoryTransport;
+  /** Queued events, in order. */
+  readonly events: JsonEvent[] = [];
+  /** Queued logs, in order. */
+  readonly logs: JsonLog[] = [];
+  /** Everything passed to `onError`. */
+  readonly errors: Error[] = [];
+  readonly drops: DropInfo[] = [];
+  private readonly ids: StableIds | null;
+  private readonly subscriptions: (() => void)[];
+
+  constructor(tell: Client, transport: MemoryTransport, options: TestTellOptions = {}) {
+    this.tell = tell;
+    this.transport = transport;
+    this.ids = options.fakeIds === false ? null : new StableIds();
+    this.subscriptions = [
+      tell.on("event", (event) => {
+        this.events.push(this.ids ? this.ids.event(event) : event);
+      }),
+      tell.on("log", (log) => {
+        this.logs.push(this.ids ? this.ids.log(log) : log);
+      }),
+      tell.on("error", (error) => {
+        this.errors.push(error);
+      }),
+      tell.on("drop", (drop) => {
+        this.drops.push(drop);
+      }),
+    ];
+  }
+
+  /** Track events, optionally only those named `eventName`. */
+  tracked(eventName?: string): JsonEvent[] {
+    return this.events.filter((e) => e.type === "track" && (eventName === undefined || e.event === eventName));
+  }
+
+  /** Assert an event named `eventName` was tracked with (at least) these properties; returns it. */
+  expectTracked(eventName: string, properties?: Record<string, unknown>): JsonEvent {
+    const found = this.tracked(eventName).find((e) => properties === undefined || matches(e, properties));
+    if (!found) {
+      const wanted = properties === undefined ? "" : ` with ${show(properties)}`;
+      throw new TellAssertionError(`Expected "${eventName}" to be tracked${wanted}. Tracked: ${listEvents(this.tracked())}`);
+    }
+    return found;
+  }
+
+  /** Assert no event named `eventName` (with these properties, if given) was tracked. */
+  expectNotTracked(eventName: string, properties?: Record<string, unknown>): void {
+    const found = this.tracked(eventName).filter((e) => properties === undefined || matches(e, properties));
+    if (found.length > 0) {
+      const wanted = properties === undefined ? "" : ` with ${show(properties)}`;
+      throw new TellAssertionError(`Expected "${eventName}" not to be tracked${wanted}. Found: ${listEvents(found)}`);
+    }
+  }
+
+  /** Assert `userId` was identified with (at least) these traits; returns the identify event. */
+  expectIdentified(userId: string, traits?: Record<string, unknown>): JsonEvent {
+    const identifies = this.events.filter((e) => e.type === "identify");
+    const found = identifies.find((e) => e.user_id === userId && (traits === undefined || matches(e, traits)));
+    if (!found) {
+      const wanted = traits === undefined ? "" : ` with ${show(traits)}`;
+      throw new TellAssertionError(`Expected "${userId}" to be identified${wanted}. Identified: ${listEvents(identifies)}`);
+    }
+    return found;
+  }
+
+  /** Assert a log at `level` whose message equals or matches `message`, with (at least) this data; returns it. */
+  expectLogged(level: LogLevel, message?: string | RegExp, data?: Record<string, unknown>): JsonLog {
+    const found = this.logs.find(
+      (l) =>
+        l.level === level &&
+        (message === undefined || (typeof message === "string" ? l.message === message : message.test(l.message))) &&
+        (data === undefined || matches(l.data ?? {}, data))
+    );
+    if (!found) {
+      const wanted = (message === undefined ? "" : ` ${String(message)}`) + (data === undefined ? "" : ` with ${show(data)}`);
+      throw new TellAssertionError(`Expected a ${level} log${wanted}. Logged: ${listLogs(this.logs)}`);
+    }
+    return found;
+  }
+
+  /** Assert nothing was reported to `onError`. */
+  expectNoErrors(): void {
+    if (this.errors.length > 0) {
+      throw new TellAssertionError(
+        `Expected no errors, got: ${this.errors.map((e) => `\n  ${e.name}: ${e.message}`).join("")}`
+      );
+    }
+  }
+
+  /** Forget captured items and sent batches. */
+  clear(): void {
+    this.events.length = 0;
+    this.logs.length = 0;
+    this.errors.length = 0;
+    this.drops.length = 0;
+    this.transport.clear();
+  }
+
+  /** Send queued items to the transport; also settles async hooks. */
+  flush(): Promise<void> {
+    return this.tell.flush();
+  }
+
+  /** Close the client and stop capturing. */
+  async close(): Promise<void> {
+    await this.tell.close();
+    for (const unsubscribe of this.subscriptions) unsubscribe();
+  }
+}
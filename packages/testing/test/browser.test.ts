@@ -0,0 +1,54 @@
+import { describe, it, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { tell } from "@tell-rs/browser";
+import { createTestTell, type TestTell } from "../src/browser.js";
+import type { TellInstance } from "@tell-rs/browser";
+
+describe("createTestTell (browser)", () => {
+  let t: TestTell<TellInstance> | null = null;
+
+  afterEach(async () => {
+    if (t) {
+      await t.close();
+      t = null;
+    }
+    tell._resetForTesting();
+  });
+
+  it("configures the singleton and captures the session start", async () => {
+    t = createTestTell();
+
+    tell.track("Order Completed", { amount: 10 });
+    tell.logWarning("slow checkout", { ms: 900 });
+
+    assert.equal(t.tell, tell);
+    assert.equal(t.events[0].type, "context");
+    assert.equal(t.events[0].session_id, "session_1");
+    t.expectTracked("Order Completed", { amount: 10, device_id: "device_1" });
+    t.expectLogged("warning", /slow/, { ms: 900 });
+
+    await t.flush();
+    assert.deepEqual(
+      t.transport.events.map((e) => e.type),
+      ["context", "track"]
+    );
+  });
+
+  it("starts from a clean singleton each time", () => {
+    t = createTestTell();
+    tell.identify("u_1", { plan: "pro" });
+    t.expectIdentified("u_1", { plan: "pro" });
+
+    const second = createTestTell();
+    second.expectNotTracked("Order Completed");
+    assert.equal(second.events.filter((e) => e.type === "identify").length, 0);
+    t = second;
+  });
+
+  it("passes options through", () => {
+    t = createTestTell({ beforeSend: (event) => (event.event === "Internal" ? null : event) });
+    tell.track("Internal");
+    t.expectNotTracked("Internal");
+    assert.deepEqual(t.drops, [{ kind: "events", reason: "beforeSend", count: 1 }]);
+  });
+});
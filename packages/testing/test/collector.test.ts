@@ -0,0 +1,240 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { brotliCompressSync, gzipSync } from "node:zlib";
+import { Tell, type RejectedItem, type RejectionReason } from "@tell-rs/node";
+import { MockCollector } from "../src/collector.js";
+
+const API_KEY = "feed1e11feed1e11feed1e11feed1e11";
+
+function post(url: string, body: string | Buffer, headers: Record<string, string> = {}): Promise<Response> {
+  return fetch(url, { method: "POST", headers: { Authorization: `Bearer ${API_KEY}`, ...headers }, body });
+}
+
+describe("MockCollector", () => {
+  let collector: MockCollector;
+  let url: string;
+  let tell: Tell | null = null;
+
+  beforeEach(async () => {
+    collector = new MockCollector();
+    url = await collector.start();
+  });
+
+  afterEach(async () => {
+    if (tell) {
+      await tell.close();
+      tell = null;
+    }
+    await collector.stop();
+  });
+
+  it("receives events and logs from the node SDK, gzipped", async () => {
+    tell = new Tell(API_KEY, { endpoint: url, gzip: true, compressionThreshold: 0, onError: (err) => assert.fail(err) });
+    tell.track("u_1", "Order Completed", { amount: 10 });
+    tell.logInfo("Checkout done", { order: "o_1" });
+    await tell.flush();
+
+    assert.equal(collector.events.length, 1);
+    assert.equal(collector.events[0]!.event, "Order Completed");
+    assert.equal(collector.events[0]!.amount, 10);
+    assert.equal(collector.logs.length, 1);
+    assert.deepEqual(collector.logs[0]!.data, { order: "o_1" });
+    assert.deepEqual(
+      collector.requests.map((r) => [r.kind, r.status, r.gzip, r.apiKey]),
+      [
+        ["events", 202, true, API_KEY],
+        ["logs", 202, true, API_KEY],
+      ]
+    );
+    assert.match(collector.requests[0]!.idempotencyKey!, /^[0-9a-f]{32}$/);
+  });
+
+  it("accepts ?token= auth and refuses bad keys with 401", async () => {
+    const line = JSON.stringify({ type: "track", event: "A" });
+    const byToken = await fetch(`${url}/v1/events?token=${API_KEY}`, { method: "POST", body: line });
+    assert.equal(byToken.status, 202);
+    assert.equal(byToken.headers.get("access-control-allow-origin"), "*");
+
+    const unauthorized = await fetch(`${url}/v1/events?token=nope`, { method: "POST", body: line });
+    assert.equal(unauthorized.status, 401);
+    assert.equal(collector.events.length, 1);
+
+    const restricted = new MockCollector({ apiKeys: ["0123456789abcdef0123456789abcdef"] });
+    const restrictedUrl = await restricted.start();
+    try {
+      assert.equal((await post(`${restrictedUrl}/v1/events`, line)).status, 401);
+    } finally {
+      await restricted.stop();
+    }
+  });
+
+  it("parses NDJSON bodies and refuses invalid lines and gzip", async () => {
+    const body = ['{"type":"track","event":"A"}', "", '{"type":"track","event":"B"}', ""].join("\n");
+    assert.equal((await post(`${url}/v1/events`, gzipSync(body), { "Content-Encoding": "gzip" })).status, 202);
+    // Browsers flag gzip in the query string to avoid a CORS preflight
+    assert.equal((await post(`${url}/v1/events?content_encoding=gzip`, gzipSync('{"event":"C"}'))).status, 202);
+    assert.deepEqual(
+      collector.events.map((e) => e.event),
+      ["A", "B", "C"]
+    );
+
+    const badLine = await post(`${url}/v1/events`, '{"type":"track"}\n{oops');
+    assert.equal(badLine.status, 400);
+    assert.deepEqual(await badLine.json(), { error: "invalid JSON on line 2" });
+    assert.equal((await post(`${url}/v1/logs`, brotliCompressSync('{"message":"hi"}'), { "Content-Encoding": "br" })).status, 202);
+    assert.equal((await post(`${url}/v1/logs`, "not gzip", { "Content-Encoding": "gzip" })).status, 400);
+    const unsupported = await post(`${url}/v1/logs`, "{}", { "Content-Encoding": "deflate" });
+    assert.equal(unsupported.status, 415);
+    assert.match(unsupported.headers.get("accept-encoding")!, /^gzip, br/);
+    assert.equal(collector.events.length, 3);
+    assert.equal(collector.logs.length, 1);
+    assert.equal((await post(`${url}/v1/other`, "{}")).status, 404);
+  });
+
+  it("refuses encodings it was not given with 415, and the SDK falls back", async () => {
+    const gzipOnly = new MockCollector({ encodings: ["gzip"] });
+    const gzipOnlyUrl = await gzipOnly.start();
+    try {
+      tell = new Tell(API_KEY, { endpoint: gzipOnlyUrl, compression: ["br", "gzip"], compressionThreshold: 0 });
+      tell.track("u_1", "A");
+      await tell.flush();
+      tell.track("u_1", "B");
+      await tell.flush();
+
+      assert.deepEqual(
+        gzipOnly.requests.map((r) => [r.status, r.encoding]),
+        [
+          [415, "br"],
+          [202, "gzip"],
+          [202, "gzip"],
+        ]
+      );
+      assert.equal(gzipOnly.events.length, 2);
+    } finally {
+      await gzipOnly.stop();
+    }
+  });
+
+  it("answers 207 with per-item rejections the SDK reports", async () => {
+    const rejections: [RejectedItem[], RejectionReason[]][] = [];
+    tell = new Tell(API_KEY, { endpoint: url, onRejected: (items, reasons) => rejections.push([items, reasons]) });
+    collector.fail({ kind: "events", errors: [{ index: 1, code: "invalid_type", field: "properties.amount" }] });
+
+    tell.track("u_1", "A");
+    tell.track("u_1", "B", { amount: "ten" });
+    tell.track("u_1", "C");
+    await tell.flush();
+
+    assert.deepEqual(
+      collector.events.map((e) => e.event),
+      ["A", "C"]
+    );
+    assert.equal(collector.requests[0]!.status, 207);
+    assert.equal(rejections.length, 1);
+    assert.equal(rejections[0]![0][0]!.event, "B");
+    assert.equal(rejections[0]![1][0]!.code, "invalid_type");
+    assert.equal(tell.stats().events.dropped.rejected, 1);
+  });
+
+  it("injects 5xx faults the SDK retries", async () => {
+    tell = new Tell(API_KEY, { endpoint: url });
+    collector.fail({ status: 503, retryAfter: 0 });
+
+    tell.track("u_1", "A");
+    await tell.flush();
+
+    assert.deepEqual(
+      collector.requests.map((r) => r.status),
+      [503, 202]
+    );
+    assert.equal(collector.events.length, 1);
+    assert.equal(tell.stats().retries, 1);
+  });
+
+  it("answers 413 to oversized bodies so the SDK splits the batch", async () => {
+    const small = new MockCollector({ maxBodySize: 600 });
+    const smallUrl = await small.start();
+    try {
+      tell = new Tell(API_KEY, { endpoint: smallUrl, batchSize: 5 });
+      for (let i = 0; i < 4; i++) tell.track("u_1", "Item Viewed", { index: i });
+      await tell.flush(); // 413 halves the batch size; the items stay queued
+      await tell.flush();
+
+      assert.deepEqual(
+        small.requests.map((r) => r.status),
+        [413, 202, 202]
+      );
+      assert.equal(small.events.length, 4);
+    } finally {
+      await small.stop();
+    }
+  });
+
+  it("skews its Date header by clockOffset for SDKs that correct timestamps", async () => {
+    const skewed = new MockCollector({ clockOffset: 3_600_000 });
+    const skewedUrl = await skewed.start();
+    try {
+      tell = new Tell(API_KEY, { endpoint: skewedUrl, correctClockSkew: true });
+      tell.track("u_1", "A");
+      await tell.flush();
+      tell.track("u_1", "B");
+      await tell.flush();
+
+      const [a, b] = skewed.events;
+      assert.equal(a!.client_timestamp, undefined);
+      assert.ok(Math.abs(b!.timestamp! - b!.client_timestamp! - 3_600_000) < 2000);
+      assert.ok(skewed.requests.every((r) => r.sentAt !== undefined && Math.abs(r.sentAt - Date.now()) < 5000));
+    } finally {
+      await skewed.stop();
+    }
+  });
+
+  it("applies faults in order, per endpoint, with latency", async () => {
+    collector.fail({ status: 429, retryAfter: 5, kind: "logs" });
+    collector.fail({ status: 500, times: 2 });
+    collector.fail({ latency: 50, status: 202 });
+
+    const tooMany = await post(`${url}/v1/logs`, "");
+    assert.equal(tooMany.status, 429);
+    assert.equal(tooMany.headers.get("retry-after"), "5");
+    assert.equal((await post(`${url}/v1/events`, "")).status, 500);
+    assert.equal((await post(`${url}/v1/logs`, "")).status, 500);
+
+    const started = Date.now();
+    assert.equal((await post(`${url}/v1/events`, "")).status, 202);
+    assert.ok(Date.now() - started >= 45);
+    assert.equal((await post(`${url}/v1/events`, "")).status, 202);
+  });
+
+  it("waitFor resolves once items arrive and times out otherwise", async () => {
+    const arrived = collector.waitFor({ events: 2 });
+    await post(`${url}/v1/events`, '{"event":"A"}\n{"event":"B"}');
+    await arrived;
+
+    await assert.rejects(collector.waitFor({ logs: 1 }, 20), /got 2 events and 0 logs/);
+  });
+
+  it("serves its state and takes faults over HTTP", async () => {
+    await post(`${url}/v1/events`, '{"event":"A"}');
+    await post(`${url}/v1/logs`, '{"message":"hi"}');
+
+    assert.deepEqual(await (await fetch(`${url}/_mock/events`)).json(), [{ event: "A" }]);
+    assert.deepEqual(await (await fetch(`${url}/_mock/logs`)).json(), [{ message: "hi" }]);
+    const requests = (await (await fetch(`${url}/_mock/requests`)).json()) as { kind: string; status: number }[];
+    assert.deepEqual(
+      requests.map((r) => [r.kind, r.status]),
+      [
+        ["events", 202],
+        ["logs", 202],
+      ]
+    );
+
+    const queued = await fetch(`${url}/_mock/faults`, { method: "POST", body: JSON.stringify({ status: 503 }) });
+    assert.equal(queued.status, 204);
+    assert.equal((await post(`${url}/v1/events`, "")).status, 503);
+
+    assert.equal((await fetch(`${url}/_mock`, { method: "DELETE" })).status, 204);
+    assert.equal(collector.events.length, 0);
+    assert.equal(collector.requests.length, 0);
+  });
+});
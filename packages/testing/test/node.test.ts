@@ -0,0 +1,137 @@
+import { describe, it, afterEach, mock } from "node:test";
+import assert from "node:assert/strict";
+import { createTestTell, TellAssertionError, matches, type TestTell } from "../src/node.js";
+import type { Tell } from "@tell-rs/node";
+
+describe("createTestTell (node)", () => {
+  let t: TestTell<Tell> | null = null;
+
+  afterEach(async () => {
+    mock.timers.reset();
+    if (t) {
+      await t.close();
+      t = null;
+    }
+  });
+
+  it("captures events after beforeSend without flushing", () => {
+    t = createTestTell({ beforeSend: (event) => ({ ...event, enriched: true }) });
+
+    t.tell.track("u_1", "Order Completed", { amount: 10, items: [{ sku: "A" }] });
+
+    const event = t.expectTracked("Order Completed", { amount: 10, enriched: true });
+    assert.equal(event.user_id, "u_1");
+    t.expectTracked("Order Completed", { items: [{ sku: "A" }] });
+    t.expectNotTracked("Order Completed", { amount: 12 });
+    assert.equal(t.transport.events.length, 0);
+  });
+
+  it("failed assertions list what was tracked", () => {
+    t = createTestTell();
+    t.tell.track("u_1", "Order Completed", { amount: 12 });
+
+    assert.throws(
+      () => t!.expectTracked("Order Completed", { amount: 10 }),
+      (err: Error) =>
+        err instanceof TellAssertionError &&
+        err.message.includes('with {"amount":10}') &&
+        err.message.includes('track "Order Completed" user=u_1 {"amount":12}')
+    );
+    assert.throws(() => t!.expectNotTracked("Order Completed"), TellAssertionError);
+  });
+
+  it("expectLogged matches level, message and data", () => {
+    t = createTestTell();
+    t.tell.logError("request timeout after 30s", { route: "/checkout" });
+
+    t.expectLogged("error", /timeout/);
+    t.expectLogged("error", "request timeout after 30s", { route: "/checkout" });
+    assert.throws(() => t!.expectLogged("warning"), TellAssertionError);
+  });
+
+  it("expectIdentified and expectNoErrors", () => {
+    t = createTestTell();
+    t.tell.identify("u_1", { plan: "pro" });
+    t.expectIdentified("u_1", { plan: "pro" });
+    t.expectNoErrors();
+
+    t.tell.track("u_1", "");
+    assert.throws(() => t!.expectNoErrors(), /ValidationError/);
+  });
+
+  it("replaces device, session and message ids with stable ones", async () => {
+    t = createTestTell();
+    t.tell.track("u_1", "A");
+    t.tell.resetSession();
+    t.tell.track("u_1", "B");
+
+    assert.deepEqual(
+      t.events.map((e) => [e.device_id, e.session_id, e.message_id]),
+      [
+        ["device_1", "session_1", "message_1"],
+        ["device_1", "session_2", "message_2"],
+      ]
+    );
+    // What is sent keeps the real ids
+    await t.flush();
+    assert.notEqual(t.transport.events[0].device_id, "device_1");
+  });
+
+  it("fakeIds: false keeps the real ids", () => {
+    t = createTestTell({ fakeIds: false });
+    t.tell.track("u_1", "A");
+    assert.notEqual(t.events[0].device_id, "device_1");
+  });
+
+  it("flush delivers to the memory transport, which can fail on demand", async () => {
+    t = createTestTell();
+    t.tell.track("u_1", "A");
+    t.transport.failNext(new Error("collector down"));
+    await t.flush();
+    assert.equal(t.transport.events.length, 0);
+    assert.equal(t.errors[0].message, "collector down");
+
+    await t.flush();
+    assert.deepEqual(t.transport.events.map((e) => e.event), ["A"]);
+    assert.equal(t.transport.batches.length, 2);
+
+    t.transport.failNext(false);
+    t.tell.track("u_1", "B");
+    await t.flush();
+    assert.deepEqual(t.drops, [{ kind: "events", reason: "retriesExhausted", count: 1 }]);
+  });
+
+  it("works with fake timers", async () => {
+    mock.timers.enable({ apis: ["setInterval", "setTimeout", "Date"], now: 1_000 });
+    t = createTestTell();
+
+    t.tell.track("u_1", "A");
+    mock.timers.tick(60_000);
+    assert.equal(t.transport.events.length, 0);
+    assert.equal(t.expectTracked("A").timestamp, 1_000);
+
+    await t.flush();
+    assert.equal(t.transport.events.length, 1);
+  });
+
+  it("clear forgets captured and sent items", async () => {
+    t = createTestTell();
+    t.tell.track("u_1", "A");
+    await t.flush();
+    t.clear();
+    assert.equal(t.events.length, 0);
+    assert.equal(t.transport.events.length, 0);
+    t.expectNotTracked("A");
+  });
+});
+
+describe("matches", () => {
+  it("matches partially and deeply", () => {
+    assert.equal(matches({ a: 1, b: { c: 2, d: 3 } }, { b: { c: 2 } }), true);
+    assert.equal(matches({ a: [1, 2] }, { a: [1] }), false);
+    assert.equal(matches({ a: "hello" }, { a: /^he/ }), true);
+    assert.equal(matches({ a: 5 }, { a: (v: unknown) => typeof v === "number" && v > 3 }), true);
+    assert.equal(matches({ a: null }, { a: undefined }), false);
+    assert.equal(matches("x", { a: 1 }), false);
+  });
+});
@@ -0,0 +1,12 @@
+import { defineConfig } from "tsup";
+
+export default defineConfig({
+  entry: ["src/index.ts", "src/node.ts", "src/browser.ts", "src/collector.ts", "src/collector-cli.ts"],
+  format: ["esm", "cjs"],
+  dts: true,
+  clean: true,
+  sourcemap: true,
+  external: ["@tell-rs/node", "@tell-rs/browser"],
+  noExternal: ["@tell-rs/core"], // Bundle core into output — no external dep
+  target: "es2022",
+});
@@ -1,6 +1,6 @@
 import { inject, type App, type InjectionKey } from "vue";
 import tell from "@tell-rs/browser";
-import type { TellBrowserConfig, TellInstance } from "@tell-rs/browser";
+import type { TellBrowserConfig, TellInstance, UntypedEvents } from "@tell-rs/browser";
 
 export { tell } from "@tell-rs/browser";
 export type { TellBrowserConfig, TellInstance } from "@tell-rs/browser";
@@ -46,6 +46,7 @@ export const TellPlugin = {
 
 /**
  * Composable to access the Tell instance inside a setup function.
+ * Pass a tracking plan type to check `track()` calls: `useTell<MyEvents>()`.
  *
  * ```vue
  * <script setup>
@@ -55,12 +56,12 @@ export const TellPlugin = {
  * </script>
  * ```
  */
-export function useTell(): TellInstance {
+export function useTell<E extends object = UntypedEvents>(): TellInstance<E> {
   const instance = inject(TELL_KEY);
   if (!instance) {
     throw new Error(
       "Tell is not provided. Did you install TellPlugin on your app?"
     );
   }
-  return instance;
+  return instance as TellInstance<E>;
 }
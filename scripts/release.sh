@@ -46,7 +46,7 @@ echo "Preflight passed."
 
 # ── Bump versions ─────────────────────────────────────────────
 
-PACKAGES=(core node browser react nextjs vue)
+PACKAGES=(core node browser react nextjs vue testing)
 for pkg in "${PACKAGES[@]}"; do
   npm version "$BUMP" --no-git-tag-version -w "packages/$pkg"
 done
@@ -57,7 +57,7 @@ echo "Bumped all packages to $VERSION"
 
 # ── Dry run ────────────────────────────────────────────────────
 
-PUBLISH_PACKAGES=(node browser react nextjs vue)
+PUBLISH_PACKAGES=(node browser react nextjs vue testing)
 echo ""
 echo "Running publish dry-run..."
 for pkg in "${PUBLISH_PACKAGES[@]}"; do
@@ -79,6 +79,7 @@ npm publish -w packages/browser --access public
 npm publish -w packages/react   --access public
 npm publish -w packages/nextjs  --access public
 npm publish -w packages/vue     --access public
+npm publish -w packages/testing --access public
 
 # ── Tag + push ─────────────────────────────────────────────────
 